@@ -0,0 +1,45 @@
+import type { Handle, ServerInit } from '@sveltejs/kit';
+import { env } from '$env/dynamic/private';
+import { getDirection, getRequestLocale } from '$lib/i18n/locale';
+import { getManageSecret } from '$lib/server/manage-token';
+import { startReminderSweep } from '$lib/server/notifications';
+import { getProvider } from '$lib/server/provider';
+import { runWithTenant } from '$lib/server/tenant';
+import {
+	getTenantForHost,
+	getUpstreamAuthOptionsFromEnv,
+	type TenantCredentials
+} from '$lib/server/upstream-auth';
+
+let tenants: Record<string, TenantCredentials> = {};
+
+/**
+ * Validates the booking provider's env variables, including the external API
+ * endpoints, resilience settings and credentials, and the secret manage links are
+ * signed with, when the server starts. A missing or malformed variable stops the
+ * server with a clear message instead of failing the first request that needs it.
+ * Reminder emails are checked for from here, outside any request's tenant.
+ */
+export const init: ServerInit = () => {
+	getProvider();
+	getManageSecret();
+	tenants = getUpstreamAuthOptionsFromEnv(env).tenants;
+	startReminderSweep();
+};
+
+/**
+ * Handles each request as the tenant served on its hostname, so upstream calls use
+ * that tenant's credentials. Pages are rendered with the language and text
+ * direction of the visitor's locale.
+ */
+export const handle: Handle = ({ event, resolve }) => {
+	const tenant = getTenantForHost(tenants, event.url.hostname);
+	const locale = getRequestLocale(event.url, event.request.headers);
+
+	return runWithTenant(tenant, () =>
+		resolve(event, {
+			transformPageChunk: ({ html }) =>
+				html.replace('%lang%', locale).replace('%dir%', getDirection(locale))
+		})
+	);
+};
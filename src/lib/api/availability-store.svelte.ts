@@ -0,0 +1,207 @@
+/**
+ * Client-side availability store
+ * Availability is loaded a month at a time and kept while the page is open, so
+ * visitors can move between months without navigating or losing their selection.
+ */
+
+import { SvelteMap, SvelteSet } from 'svelte/reactivity';
+import { format, isAfter, lastDayOfMonth, parseISO, startOfMonth } from 'date-fns';
+import { getFriendlyErrorMessage } from '$lib/api/errors';
+import type { AvailabilityData, DateRange } from '$lib/api/availability';
+import type { AvailabilitySlot } from '$lib/utils/availability';
+
+/**
+ * Availability loaded for a date range
+ */
+interface LoadedRange extends DateRange {
+	slots: AvailabilitySlot[];
+	/** Message to show visitors when the range could not be loaded */
+	error?: string;
+}
+
+/**
+ * Loads availability for a date range, e.g. with `fetchAvailability`
+ */
+export type AvailabilityLoader = (range: DateRange) => Promise<AvailabilityData>;
+
+/**
+ * Returns the key the store uses for a month (e.g., "2025-12")
+ */
+function getMonthKey(month: Date): string {
+	return format(month, 'yyyy-MM');
+}
+
+/**
+ * Returns the range loaded for a month: the whole month, starting no earlier than
+ * today. The range is empty (start after end) for months that have already passed.
+ *
+ * @param month - Any date in the month
+ * @param today - Today's date (YYYY-MM-DD)
+ *
+ * @example
+ * getMonthRange(new Date(2025, 11, 1), '2025-12-16') // { startDate: '2025-12-16', endDate: '2025-12-31' }
+ * getMonthRange(new Date(2026, 0, 1), '2025-12-16') // { startDate: '2026-01-01', endDate: '2026-01-31' }
+ */
+export function getMonthRange(month: Date, today: string): DateRange {
+	const monthStart = startOfMonth(month);
+
+	return {
+		startDate: isAfter(parseISO(today), monthStart) ? today : format(monthStart, 'yyyy-MM-dd'),
+		endDate: format(lastDayOfMonth(monthStart), 'yyyy-MM-dd')
+	};
+}
+
+/**
+ * Availability for the months a visitor has looked at. Each month is loaded once,
+ * and months requested while they are loading share the same request. Months that
+ * failed to load are loaded again the next time they are requested.
+ */
+export class AvailabilityStore {
+	/** Loaded ranges, keyed by `start/end` so reloading a range replaces it */
+	#ranges = new SvelteMap<string, LoadedRange>();
+
+	/** Requests in flight, keyed by month */
+	#requests = new Map<string, Promise<void>>();
+
+	/** Months being loaded */
+	#loading = new SvelteSet<string>();
+
+	/** Bumped when cleared, so loads started before then are not stored */
+	#generation = 0;
+
+	#loadRange: AvailabilityLoader;
+	#today: string;
+
+	/** IANA timezone of the organisation, from the latest successful response */
+	timezone = $state('UTC');
+
+	/** Every loaded slot, in start order */
+	availability = $derived.by(() => {
+		const slots = new Map<string, AvailabilitySlot>();
+		for (const range of this.#ranges.values()) {
+			for (const slot of range.slots) slots.set(`${slot.start}/${slot.end}`, slot);
+		}
+		return [...slots.values()].sort((a, b) => Date.parse(a.start) - Date.parse(b.start));
+	});
+
+	/**
+	 * @param loadRange - Loads a month's range
+	 * @param data - Availability already loaded by the page
+	 * @param today - Today's date (YYYY-MM-DD)
+	 */
+	constructor(
+		loadRange: AvailabilityLoader,
+		data: AvailabilityData,
+		today = format(new Date(), 'yyyy-MM-dd')
+	) {
+		this.#loadRange = loadRange;
+		this.#today = today;
+		this.timezone = data.timezone;
+		this.add(data);
+	}
+
+	/**
+	 * Adds availability loaded elsewhere, such as by the page's load function,
+	 * replacing any earlier copy of the same range
+	 */
+	add(data: AvailabilityData) {
+		const { startDate, endDate, availability, error } = data;
+		if (!error) this.timezone = data.timezone;
+		this.#ranges.set(`${startDate}/${endDate}`, {
+			startDate,
+			endDate,
+			slots: error ? [] : availability,
+			error
+		});
+	}
+
+	/**
+	 * Returns the loaded range covering a month, preferring one that loaded successfully
+	 */
+	#getRange(month: Date): LoadedRange | undefined {
+		const { startDate, endDate } = getMonthRange(month, this.#today);
+		let failed: LoadedRange | undefined;
+		for (const range of this.#ranges.values()) {
+			if (range.startDate > startDate || range.endDate < endDate) continue;
+			if (!range.error) return range;
+			failed = range;
+		}
+		return failed;
+	}
+
+	/**
+	 * Checks whether a month has been loaded successfully. Months that have already
+	 * passed have nothing to load.
+	 */
+	isLoaded(month: Date): boolean {
+		const { startDate, endDate } = getMonthRange(month, this.#today);
+		if (startDate > endDate) return true;
+		const range = this.#getRange(month);
+		return !!range && !range.error;
+	}
+
+	/**
+	 * Checks whether a month is being loaded
+	 */
+	isLoading(month: Date): boolean {
+		return this.#loading.has(getMonthKey(month));
+	}
+
+	/**
+	 * Returns the message to show visitors when a month failed to load
+	 */
+	getError(month: Date): string | undefined {
+		return this.#getRange(month)?.error;
+	}
+
+	/**
+	 * Loads a month's availability unless it has already been loaded.
+	 * Never rejects: failures are kept as the month's error.
+	 *
+	 * @param month - Any date in the month
+	 */
+	load(month: Date): Promise<void> {
+		if (this.isLoaded(month)) return Promise.resolve();
+
+		const key = getMonthKey(month);
+		const pending = this.#requests.get(key);
+		if (pending) return pending;
+
+		const range = getMonthRange(month, this.#today);
+		const startedGeneration = this.#generation;
+		const request: Promise<void> = this.#loadRange(range)
+			.catch((error): AvailabilityData => {
+				console.error('Failed to load availability:', error);
+				return {
+					...range,
+					availability: [],
+					timezone: this.timezone,
+					error: getFriendlyErrorMessage('unreachable')
+				};
+			})
+			.then((data) => {
+				if (this.#generation === startedGeneration) this.add(data);
+			})
+			.finally(() => {
+				if (this.#requests.get(key) !== request) return;
+				this.#requests.delete(key);
+				this.#loading.delete(key);
+			});
+
+		this.#requests.set(key, request);
+		this.#loading.add(key);
+		return request;
+	}
+
+	/**
+	 * Forgets all loaded availability, e.g. after a booking changes it.
+	 * Months are loaded again when next requested, and loads still in progress
+	 * are not stored.
+	 */
+	clear() {
+		this.#generation++;
+		this.#ranges.clear();
+		this.#requests.clear();
+		this.#loading.clear();
+	}
+}
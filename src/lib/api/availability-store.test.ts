@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AvailabilityStore, getMonthRange } from './availability-store.svelte';
+import type { AvailabilityData, DateRange } from './availability';
+
+const TODAY = '2025-12-16';
+
+const december = {
+	startDate: '2025-12-16',
+	endDate: '2025-12-31',
+	timezone: 'Europe/London',
+	availability: [{ start: '2025-12-17T09:00:00Z', end: '2025-12-17T17:00:00Z' }]
+};
+
+/**
+ * Creates a store seeded with December whose loads get one slot on the first day
+ * of the range, or the given result
+ */
+function setup(respond?: (range: DateRange) => Promise<AvailabilityData>) {
+	const loadRange = vi.fn(
+		async (range: DateRange): Promise<AvailabilityData> =>
+			respond?.(range) ?? {
+				...range,
+				timezone: 'Europe/London',
+				availability: [
+					{ start: `${range.startDate}T09:00:00Z`, end: `${range.startDate}T17:00:00Z` }
+				]
+			}
+	);
+
+	return { store: new AvailabilityStore(loadRange, december, TODAY), loadRange };
+}
+
+describe('getMonthRange', () => {
+	it('should cover the whole month, from today at the earliest', () => {
+		expect(getMonthRange(new Date(2025, 11, 1), TODAY)).toEqual({
+			startDate: '2025-12-16',
+			endDate: '2025-12-31'
+		});
+		expect(getMonthRange(new Date(2026, 1, 14), TODAY)).toEqual({
+			startDate: '2026-02-01',
+			endDate: '2026-02-28'
+		});
+	});
+});
+
+describe('AvailabilityStore', () => {
+	it('should start with the availability loaded by the page', () => {
+		const { store, loadRange } = setup();
+
+		expect(store.isLoaded(new Date(2025, 11, 1))).toBe(true);
+		expect(store.availability).toEqual(december.availability);
+		expect(store.timezone).toBe('Europe/London');
+		expect(loadRange).not.toHaveBeenCalled();
+	});
+
+	it('should load a month once and keep the months already loaded', async () => {
+		const { store, loadRange } = setup();
+		const january = new Date(2026, 0, 1);
+
+		await store.load(january);
+		await store.load(january);
+
+		expect(loadRange).toHaveBeenCalledOnce();
+		expect(loadRange).toHaveBeenCalledWith({ startDate: '2026-01-01', endDate: '2026-01-31' });
+		expect(store.availability.map((slot) => slot.start)).toEqual([
+			'2025-12-17T09:00:00Z',
+			'2026-01-01T09:00:00Z'
+		]);
+	});
+
+	it('should share the request for a month that is already loading', async () => {
+		const { store, loadRange } = setup();
+		const january = new Date(2026, 0, 1);
+
+		const first = store.load(january);
+		expect(store.isLoading(january)).toBe(true);
+		await Promise.all([first, store.load(new Date(2026, 0, 20))]);
+
+		expect(loadRange).toHaveBeenCalledOnce();
+		expect(store.isLoading(january)).toBe(false);
+	});
+
+	it('should not load months that have passed', async () => {
+		const { store, loadRange } = setup();
+
+		await store.load(new Date(2025, 10, 1));
+
+		expect(store.isLoaded(new Date(2025, 10, 1))).toBe(true);
+		expect(loadRange).not.toHaveBeenCalled();
+	});
+
+	it('should keep a failed month as an error and load it again next time', async () => {
+		let fail = true;
+		const { store, loadRange } = setup(async (range) => ({
+			...range,
+			timezone: 'UTC',
+			availability: fail ? [] : [{ start: '2026-01-02T09:00:00Z', end: '2026-01-02T17:00:00Z' }],
+			error: fail ? 'Our booking system is taking too long to respond.' : undefined
+		}));
+		const january = new Date(2026, 0, 1);
+
+		await store.load(january);
+		expect(store.isLoaded(january)).toBe(false);
+		expect(store.getError(january)).toMatch(/taking too long/);
+		// A failed response doesn't replace the organisation's timezone
+		expect(store.timezone).toBe('Europe/London');
+
+		fail = false;
+		await store.load(january);
+		expect(store.getError(january)).toBeUndefined();
+		expect(loadRange).toHaveBeenCalledTimes(2);
+	});
+
+	it('should keep a rejected load as an error', async () => {
+		const { store } = setup(() => Promise.reject(new TypeError('Failed to fetch')));
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await expect(store.load(new Date(2026, 0, 1))).resolves.toBeUndefined();
+		expect(store.getError(new Date(2026, 0, 1))).toMatch(/couldn't reach/);
+	});
+
+	it('should forget loaded months when cleared', async () => {
+		const { store, loadRange } = setup();
+
+		store.clear();
+		expect(store.availability).toEqual([]);
+
+		await store.load(new Date(2025, 11, 1));
+		expect(loadRange).toHaveBeenCalledOnce();
+		expect(store.isLoaded(new Date(2025, 11, 1))).toBe(true);
+	});
+
+	it('should not store loads that were in progress when cleared', async () => {
+		let resolveStale!: (data: AvailabilityData) => void;
+		const { store, loadRange } = setup();
+		loadRange.mockImplementationOnce(
+			() => new Promise<AvailabilityData>((resolve) => (resolveStale = resolve))
+		);
+		const january = new Date(2026, 0, 1);
+
+		const stale = store.load(january);
+		store.clear();
+		expect(store.isLoading(january)).toBe(false);
+
+		await store.load(january);
+		resolveStale({
+			startDate: '2026-01-01',
+			endDate: '2026-01-31',
+			timezone: 'Europe/London',
+			availability: [{ start: '2026-01-05T09:00:00Z', end: '2026-01-05T17:00:00Z' }]
+		});
+		await stale;
+
+		expect(loadRange).toHaveBeenCalledTimes(2);
+		expect(store.availability.map((slot) => slot.start)).toEqual(['2026-01-01T09:00:00Z']);
+	});
+});
@@ -0,0 +1,252 @@
+/**
+ * Availability API client
+ * Handles date range validation and availability fetching for booking pages
+ */
+
+import { redirect } from '@sveltejs/kit';
+import { config } from '$lib/config';
+import type { AvailabilitySlot } from '$lib/utils/availability';
+import { AvailabilityResponseSchema } from '$lib/api/schemas';
+import { getFriendlyErrorMessage, isUpstreamErrorCode } from '$lib/api/errors';
+import {
+	DEFAULT_SCHEDULING_RULES,
+	getLastBookableDate,
+	type SchedulingRules
+} from '$lib/utils/scheduling-rules';
+import {
+	DATE_PATTERN,
+	getPrefillRange,
+	getRangeHref,
+	parsePrefill,
+	parseUtmParams,
+	type BookingMetadata,
+	type BookingPrefill
+} from '$lib/utils/prefill';
+import { format, isValid, parseISO, isBefore, isAfter, startOfToday } from 'date-fns';
+
+/**
+ * Inclusive date range in YYYY-MM-DD format
+ */
+export interface DateRange {
+	startDate: string;
+	endDate: string;
+}
+
+/**
+ * Result of resolving a date range from URL search params
+ */
+export interface ResolvedDateRange extends DateRange {
+	/** Whether the URL should be replaced with the resolved range */
+	needsRedirect: boolean;
+}
+
+/**
+ * Prefilled form values and campaign attribution read from a booking page URL
+ */
+export interface BookingPageParams {
+	prefill: BookingPrefill;
+	/** UTM params forwarded with the booking */
+	metadata: BookingMetadata;
+}
+
+/**
+ * Availability data returned to booking pages
+ */
+export interface AvailabilityData extends DateRange {
+	availability: AvailabilitySlot[];
+	/** IANA timezone of the organisation */
+	timezone: string;
+	/** Message to show visitors when availability could not be loaded */
+	error?: string;
+}
+
+/** Message shown when availability fails to load for a reason without an error code */
+const AVAILABILITY_ERROR_MESSAGE = "We couldn't load availability. Please try again.";
+
+/**
+ * Validates a date string for both format and actual date validity.
+ *
+ * @param dateStr - Date string to validate
+ * @returns True if valid YYYY-MM-DD format and represents a real date
+ */
+function isValidDateString(dateStr: string): boolean {
+	if (!DATE_PATTERN.test(dateStr)) return false;
+	const date = parseISO(dateStr);
+	return isValid(date);
+}
+
+/**
+ * Resolves the availability date range from `start` and `end` URL search params.
+ *
+ * Validates that:
+ * - Dates are in correct format and represent real dates
+ * - Start date is not after end date
+ * - Start date is not in the past
+ * - Start date is within the booking horizon
+ *
+ * Falls back to today through the end of the current month when params are invalid
+ * or missing, and flags a redirect when invalid params were supplied.
+ *
+ * @param searchParams - URL search params containing optional start/end dates
+ * @param rules - Scheduling rules providing the booking horizon
+ * @returns Resolved range and whether the URL needs to be corrected
+ */
+export function resolveDateRange(
+	searchParams: URLSearchParams,
+	rules: SchedulingRules = DEFAULT_SCHEDULING_RULES
+): ResolvedDateRange {
+	const startParam = searchParams.get('start');
+	const endParam = searchParams.get('end');
+
+	// Get defaults
+	const defaultStart = getDefaultStartDate();
+	const defaultEnd = getDefaultEndDate();
+
+	// Validate format and actual date validity
+	const startIsValid = startParam ? isValidDateString(startParam) : false;
+	const endIsValid = endParam ? isValidDateString(endParam) : false;
+
+	let startDate = startIsValid ? startParam! : defaultStart;
+	let endDate = endIsValid ? endParam! : defaultEnd;
+
+	// Additional validation: ensure start <= end and start >= today
+	let needsRedirect = false;
+
+	if (startIsValid && endIsValid) {
+		const start = parseISO(startParam!);
+		const end = parseISO(endParam!);
+		const today = startOfToday();
+
+		// Start date can't be in the past
+		if (isBefore(start, today)) {
+			startDate = defaultStart;
+			endDate = defaultEnd;
+			needsRedirect = true;
+		}
+		// Start date can't be after end date or past the booking horizon
+		else if (isAfter(start, end) || isAfter(start, parseISO(getLastBookableDate(rules)))) {
+			startDate = defaultStart;
+			endDate = defaultEnd;
+			needsRedirect = true;
+		}
+	} else if (!startIsValid || !endIsValid) {
+		// One or both params invalid - use defaults
+		needsRedirect = true;
+	}
+
+	return {
+		startDate,
+		endDate,
+		// Only redirect when params were supplied; a bare URL already means "defaults"
+		needsRedirect: needsRedirect && !!(startParam || endParam)
+	};
+}
+
+/**
+ * Resolves a booking page's date range, prefilled form values and UTM params from
+ * its URL. A prefilled `date` opens that date's month when no range was requested.
+ * Prefill and UTM params are kept whenever the URL is corrected.
+ *
+ * @param url - Booking page URL
+ * @param rules - Scheduling rules providing the booking horizon
+ * @throws Redirect to a corrected URL when the range params are invalid or a
+ *   prefilled date needs a different month
+ */
+export function resolveBookingPage(
+	url: URL,
+	rules: SchedulingRules = DEFAULT_SCHEDULING_RULES
+): DateRange & BookingPageParams {
+	const prefill = parsePrefill(url.searchParams);
+
+	if (prefill.date && !url.searchParams.has('start')) {
+		const range = getPrefillRange(prefill.date, getDefaultStartDate());
+		if (range) {
+			throw redirect(302, getRangeHref(url, range));
+		}
+	}
+
+	const { startDate, endDate, needsRedirect } = resolveDateRange(url.searchParams, rules);
+
+	// Redirect to clean URL with valid params if needed
+	if (needsRedirect) {
+		throw redirect(302, getRangeHref(url, { startDate, endDate }));
+	}
+
+	return { startDate, endDate, prefill, metadata: parseUtmParams(url.searchParams) };
+}
+
+/**
+ * Fetches availability for a date range via the local server proxy.
+ * Returns empty data with an error message instead of throwing so pages can still render,
+ * including when the response does not match AvailabilityResponseSchema. The message
+ * is the friendly message for the proxy's error code, never the raw status text.
+ *
+ * @param fetch - Fetch implementation (use SvelteKit's `fetch` inside load functions)
+ * @param range - Date range to load
+ * @param meetingType - Slug of the meeting type whose scheduling rules apply
+ * @returns Availability slots, organisation timezone, date range, and optional error message
+ */
+export async function fetchAvailability(
+	fetch: typeof globalThis.fetch,
+	range: DateRange,
+	meetingType?: string
+): Promise<AvailabilityData> {
+	const { startDate, endDate } = range;
+
+	// Fetch availability from API using centralized config
+	const params = new URLSearchParams({ start: startDate, end: endDate });
+	if (meetingType) params.set('meetingType', meetingType);
+	const apiUrl = `${config.getApiUrl(config.api.paths.availability)}?${params}`;
+	const response = await fetch(apiUrl);
+
+	if (!response.ok) {
+		const { code } = await response.json().catch(() => ({}));
+		console.error(`API error: ${response.status} ${response.statusText}`, code ?? '');
+		return {
+			availability: [],
+			timezone: 'UTC',
+			startDate,
+			endDate,
+			error: isUpstreamErrorCode(code) ? getFriendlyErrorMessage(code) : AVAILABILITY_ERROR_MESSAGE
+		};
+	}
+
+	const parsed = AvailabilityResponseSchema.safeParse(await response.json().catch(() => null));
+
+	if (!parsed.success) {
+		console.error('Malformed availability response:', parsed.error.issues);
+		return {
+			availability: [],
+			timezone: 'UTC',
+			startDate,
+			endDate,
+			error: getFriendlyErrorMessage('malformed_response')
+		};
+	}
+
+	const { timezone, slots } = parsed.data;
+
+	return {
+		availability: slots,
+		timezone,
+		startDate,
+		endDate
+	};
+}
+
+/**
+ * Returns today's date formatted as YYYY-MM-DD
+ */
+function getDefaultStartDate(): string {
+	return format(new Date(), 'yyyy-MM-dd');
+}
+
+/**
+ * Returns the last day of the current month formatted as YYYY-MM-DD
+ */
+function getDefaultEndDate(): string {
+	const today = new Date();
+	// Create date for first day of next month, then subtract one day
+	const lastDay = new Date(today.getFullYear(), today.getMonth() + 1, 0);
+	return format(lastDay, 'yyyy-MM-dd');
+}
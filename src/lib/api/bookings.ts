@@ -4,30 +4,111 @@
  */
 
 import { config } from '$lib/config';
+import type { BookingMetadata } from '$lib/utils/prefill';
+import type { BookingAnswer } from '$lib/utils/questions';
+import {
+	CreateBookingRequestSchema,
+	isValidationErrorResponse,
+	toFieldErrors,
+	type Attendee,
+	type CreateBookingRequest,
+	type FieldError,
+	type RescheduleBookingRequest
+} from '$lib/api/schemas';
+import { isUpstreamErrorCode, UpstreamRequestError } from '$lib/api/errors';
 
-export interface Attendee {
-	email: string;
-	name: string | null;
+export type { Attendee, CreateBookingRequest, FieldError, RescheduleBookingRequest };
+
+export interface CreateBookingResponse {
+	success: boolean;
+	bookingId?: string;
+	manageUrl?: string; // Signed link for cancelling or rescheduling
+	icsUrl?: string; // Signed iCalendar download, accepts a `tz` query param
+	hosts?: string[]; // Names of the team hosts assigned to the meeting
+	error?: string;
 }
 
-export interface CreateBookingRequest {
+export interface Booking {
+	id: string;
 	start: string; // ISO 8601 timestamp
 	end: string; // ISO 8601 timestamp
+	duration: number; // Meeting length in minutes
+	meetingType?: string; // Meeting type slug
 	attendees: Attendee[];
+	answers?: BookingAnswer[]; // Intake question answers with their labels
+	hostIds?: string[]; // Team hosts taking the meeting
+	timezone?: string; // Booker's IANA timezone, used for times in emails
+	metadata?: BookingMetadata; // Campaign attribution (utm_* params)
+	createdAt?: string; // ISO 8601 timestamp
+	updatedAt?: string; // ISO 8601 timestamp of the last reschedule or cancellation
+	status: 'confirmed' | 'cancelled';
 }
 
-export interface CreateBookingResponse {
+export interface ManageBookingResponse {
 	success: boolean;
-	bookingId?: string;
+	booking?: Booking;
 	error?: string;
 }
 
+/** Header carrying the signed manage token on cancel/reschedule requests */
+export const MANAGE_TOKEN_HEADER = 'X-Manage-Token';
+
+/**
+ * Error thrown when the requested slot is no longer available (HTTP 409),
+ * either because it left availability or another visitor holds it
+ */
+export class BookingConflictError extends Error {
+	constructor(message = 'This time is no longer available') {
+		super(message);
+		this.name = 'BookingConflictError';
+	}
+}
+
+/**
+ * Error thrown when a request fails validation (HTTP 400), carrying an error
+ * per invalid field so forms can show each one next to its input
+ */
+export class BookingValidationError extends Error {
+	constructor(public errors: FieldError[]) {
+		super(errors[0]?.message ?? 'Invalid request');
+		this.name = 'BookingValidationError';
+	}
+}
+
+/**
+ * Converts a failed proxy response into the matching error
+ * @param response Response with a non-2xx status
+ * @param fallback Message used when the response has no error message
+ */
+async function toRequestError(response: Response, fallback: string): Promise<Error> {
+	const error = await response.json().catch(() => ({ error: fallback }));
+	if (response.status === 409) {
+		return new BookingConflictError(error.error);
+	}
+	if (response.status === 400 && isValidationErrorResponse(error)) {
+		return new BookingValidationError(error.errors);
+	}
+	if (isUpstreamErrorCode(error.code)) {
+		return new UpstreamRequestError(error.code, response.status);
+	}
+	return new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+}
+
 /**
- * Creates a new booking via the local server proxy
+ * Creates a new booking via the local server proxy.
+ * The request is checked against the same schema as the proxy before it is sent.
  * @param data Booking details
  * @returns Promise resolving to booking confirmation
+ * @throws BookingValidationError when a field is invalid
+ * @throws BookingConflictError when the slot has been taken
+ * @throws UpstreamRequestError when the booking system failed or couldn't be reached
  */
 export async function createBooking(data: CreateBookingRequest): Promise<CreateBookingResponse> {
+	const parsed = CreateBookingRequestSchema.safeParse(data);
+	if (!parsed.success) {
+		throw new BookingValidationError(toFieldErrors(parsed.error));
+	}
+
 	// Call local SvelteKit server proxy using centralized config
 	const url = config.getApiUrl(config.api.paths.bookings);
 
@@ -40,9 +121,63 @@ export async function createBooking(data: CreateBookingRequest): Promise<CreateB
 	});
 
 	if (!response.ok) {
-		const error = await response.json().catch(() => ({ error: 'Failed to create booking' }));
-		throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+		throw await toRequestError(response, 'Failed to create booking');
+	}
+
+	return response.json();
+}
+
+/**
+ * Sends an authorised request for an existing booking via the local server proxy
+ * @param id Booking ID
+ * @param token Signed manage token from the confirmation link
+ * @param init Request method and body
+ */
+async function manageBooking(
+	id: string,
+	token: string,
+	init: { method: 'PATCH' | 'DELETE'; body?: string }
+): Promise<ManageBookingResponse> {
+	const url = config.getApiUrl(`${config.api.paths.bookings}/${encodeURIComponent(id)}`);
+
+	const response = await fetch(url, {
+		...init,
+		headers: {
+			'Content-Type': 'application/json',
+			[MANAGE_TOKEN_HEADER]: token
+		}
+	});
+
+	if (!response.ok) {
+		throw await toRequestError(response, 'Failed to update booking');
 	}
 
 	return response.json();
 }
+
+/**
+ * Moves an existing booking to a new time
+ * @param id Booking ID
+ * @param token Signed manage token from the confirmation link
+ * @param data New start and end
+ * @returns Promise resolving to the updated booking
+ * @throws BookingValidationError when the new time is invalid
+ * @throws BookingConflictError when the new slot has been taken
+ * @throws UpstreamRequestError when the booking system failed or couldn't be reached
+ */
+export async function rescheduleBooking(
+	id: string,
+	token: string,
+	data: RescheduleBookingRequest
+): Promise<ManageBookingResponse> {
+	return manageBooking(id, token, { method: 'PATCH', body: JSON.stringify(data) });
+}
+
+/**
+ * Cancels an existing booking
+ * @param id Booking ID
+ * @param token Signed manage token from the confirmation link
+ */
+export async function cancelBooking(id: string, token: string): Promise<ManageBookingResponse> {
+	return manageBooking(id, token, { method: 'DELETE' });
+}
@@ -0,0 +1,74 @@
+/**
+ * Booking provider error codes
+ * The proxies report why a call to the booking provider failed in a `code` field,
+ * and pages show a friendly message for it instead of the upstream status text.
+ */
+
+export const UPSTREAM_ERROR_CODES = [
+	'timeout',
+	'unreachable',
+	'circuit_open',
+	'rate_limited',
+	'auth_failed',
+	'not_found',
+	'rejected',
+	'upstream_error',
+	'malformed_response'
+] as const;
+export type UpstreamErrorCode = (typeof UPSTREAM_ERROR_CODES)[number];
+
+const FRIENDLY_ERROR_MESSAGES: Record<UpstreamErrorCode, string> = {
+	timeout: 'Our booking system is taking too long to respond. Please try again in a moment.',
+	unreachable: "We couldn't reach our booking system. Please try again in a moment.",
+	circuit_open: 'Booking is temporarily unavailable. Please try again in a few minutes.',
+	rate_limited: "We're handling a lot of requests right now. Please try again in a moment.",
+	auth_failed: "We couldn't connect to our booking system. Please try again later.",
+	not_found: "We couldn't find that booking.",
+	rejected: "Our booking system couldn't accept that request.",
+	upstream_error: 'Something went wrong in our booking system. Please try again.',
+	malformed_response: 'Our booking system sent something we could not read. Please try again later.'
+};
+
+/**
+ * Checks whether a value is a known error code
+ */
+export function isUpstreamErrorCode(value: unknown): value is UpstreamErrorCode {
+	return (UPSTREAM_ERROR_CODES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Returns the message shown to visitors for an error code
+ */
+export function getFriendlyErrorMessage(code: UpstreamErrorCode): string {
+	return FRIENDLY_ERROR_MESSAGES[code];
+}
+
+/**
+ * Categorises a failed upstream response by its HTTP status
+ *
+ * @example
+ * getUpstreamErrorCode(401) // 'auth_failed'
+ * getUpstreamErrorCode(429) // 'rate_limited'
+ * getUpstreamErrorCode(503) // 'upstream_error'
+ */
+export function getUpstreamErrorCode(status: number): UpstreamErrorCode {
+	if (status === 401 || status === 403) return 'auth_failed';
+	if (status === 404) return 'not_found';
+	if (status === 429) return 'rate_limited';
+	if (status === 504) return 'timeout';
+	return status >= 500 ? 'upstream_error' : 'rejected';
+}
+
+/**
+ * Error thrown by API clients when the proxy reports a booking provider failure.
+ * The message is the friendly message for its code.
+ */
+export class UpstreamRequestError extends Error {
+	constructor(
+		public code: UpstreamErrorCode,
+		public status: number
+	) {
+		super(getFriendlyErrorMessage(code));
+		this.name = 'UpstreamRequestError';
+	}
+}
@@ -0,0 +1,175 @@
+/**
+ * Meeting types API client
+ * Describes bookable meeting types and fetches them from the local server
+ */
+
+import { error } from '@sveltejs/kit';
+import { config } from '$lib/config';
+import {
+	fetchAvailability,
+	resolveBookingPage,
+	type AvailabilityData,
+	type BookingPageParams
+} from '$lib/api/availability';
+import type { MeetingDuration } from '$lib/utils/availability';
+import type { SchedulingRules } from '$lib/utils/scheduling-rules';
+import type { TeamMode } from '$lib/utils/team-availability';
+
+/**
+ * Where a meeting takes place
+ */
+export interface MeetingLocation {
+	type: 'video' | 'phone' | 'in_person';
+	/** Human-readable details (e.g. "Google Meet link sent with the invite") */
+	details: string;
+}
+
+/**
+ * Input types supported by intake questions
+ */
+export type MeetingQuestionType = 'text' | 'textarea' | 'select' | 'checkbox' | 'phone';
+
+/**
+ * A question asked on the booking form for a meeting type
+ */
+export interface MeetingQuestion {
+	/** Stable identifier used as the answer key */
+	id: string;
+	label: string;
+	type: MeetingQuestionType;
+	required: boolean;
+	/** Choices for `select` questions */
+	options?: string[];
+	placeholder?: string;
+}
+
+/**
+ * Free time kept around a meeting, in minutes
+ */
+export interface MeetingBuffer {
+	before: number;
+	after: number;
+}
+
+/**
+ * How round-robin meetings are assigned to a free host:
+ * - least-recent: the host who was assigned a meeting longest ago
+ * - least-loaded: the host with the fewest meetings around the booked time
+ */
+export type HostAssignment = 'least-recent' | 'least-loaded';
+
+/**
+ * Hosts sharing a meeting type's booking link
+ */
+export interface MeetingTeam {
+	mode: TeamMode;
+	/** Host IDs from the server's host catalog */
+	hosts: string[];
+	/** How round-robin meetings are assigned; ignored for collective teams */
+	assignment: HostAssignment;
+}
+
+/**
+ * A bookable meeting type with its own booking page at /bookings/[slug]
+ */
+export interface MeetingType {
+	/** URL-safe identifier (e.g. "demo") */
+	slug: string;
+	title: string;
+	description: string;
+	/** Meeting length in minutes */
+	duration: MeetingDuration;
+	buffer: MeetingBuffer;
+	/** Minimum notice, booking horizon and daily limit */
+	rules: SchedulingRules;
+	location: MeetingLocation;
+	questions: MeetingQuestion[];
+	/** Hosts taking meetings of this type; meetings are with the organisation when omitted */
+	team?: MeetingTeam;
+}
+
+/**
+ * Fetches all published meeting types via the local server
+ * @param fetch - Fetch implementation (use SvelteKit's `fetch` inside load functions)
+ * @returns Promise resolving to the meeting type catalog
+ */
+export async function fetchMeetingTypes(fetch: typeof globalThis.fetch): Promise<MeetingType[]> {
+	const url = config.getApiUrl(config.api.paths.meetingTypes);
+	const response = await fetch(url);
+
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+	}
+
+	return response.json();
+}
+
+/**
+ * Fetches a single meeting type by slug via the local server
+ * @param fetch - Fetch implementation (use SvelteKit's `fetch` inside load functions)
+ * @param slug - Meeting type slug
+ * @returns Promise resolving to the meeting type, or null if it does not exist
+ */
+export async function fetchMeetingType(
+	fetch: typeof globalThis.fetch,
+	slug: string
+): Promise<MeetingType | null> {
+	const url = config.getApiUrl(`${config.api.paths.meetingTypes}/${encodeURIComponent(slug)}`);
+	const response = await fetch(url);
+
+	if (response.status === 404) {
+		return null;
+	}
+
+	if (!response.ok) {
+		throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+	}
+
+	return response.json();
+}
+
+/**
+ * Data for a meeting type's booking page
+ */
+export interface MeetingTypePageData extends AvailabilityData, BookingPageParams {
+	meetingType: MeetingType;
+}
+
+/**
+ * Loads a meeting type's booking page: the meeting type settings, then availability
+ * for the requested date range with the meeting type's scheduling rules applied.
+ * Shared by the booking page and its embeddable version.
+ *
+ * URL Parameters:
+ * - start: Start date in YYYY-MM-DD format (defaults to today, validated against the booking horizon)
+ * - end: End date in YYYY-MM-DD format (defaults to last day of current month, validated)
+ * - name, email, guests, date, timezone: Booking form prefill (see parsePrefill)
+ * - utm_*: Campaign attribution forwarded with the booking
+ *
+ * @param fetch - Fetch implementation (use SvelteKit's `fetch` inside load functions)
+ * @param url - Page URL
+ * @param slug - Meeting type slug
+ * @throws 404 for unknown meeting types, or a redirect to a clean URL with valid
+ *   defaults if the date params are invalid
+ */
+export async function loadMeetingTypePage(
+	fetch: typeof globalThis.fetch,
+	url: URL,
+	slug: string
+): Promise<MeetingTypePageData> {
+	// The meeting type's booking horizon decides which date ranges are valid
+	const meetingType = await fetchMeetingType(fetch, slug);
+
+	if (!meetingType) {
+		throw error(404, 'Meeting type not found');
+	}
+
+	const { startDate, endDate, prefill, metadata } = resolveBookingPage(url, meetingType.rules);
+
+	return {
+		...(await fetchAvailability(fetch, { startDate, endDate }, meetingType.slug)),
+		prefill,
+		metadata,
+		meetingType
+	};
+}
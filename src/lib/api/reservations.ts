@@ -0,0 +1,64 @@
+/**
+ * Reservations API client
+ * Holds a slot while the booking form is open so no one else can book it
+ */
+
+import { config } from '$lib/config';
+import { BookingConflictError } from '$lib/api/bookings';
+import type { CreateReservationRequest } from '$lib/api/schemas';
+import { isUpstreamErrorCode, UpstreamRequestError } from '$lib/api/errors';
+
+export type { CreateReservationRequest };
+
+export interface CreateReservationResponse {
+	success: boolean;
+	reservationId?: string;
+	expiresAt?: string; // ISO 8601 timestamp
+	error?: string;
+}
+
+/**
+ * Reserves a slot via the local server proxy
+ * @param data Slot to hold
+ * @returns Promise resolving to the reservation
+ * @throws BookingConflictError when the slot is no longer available
+ * @throws UpstreamRequestError when the booking system failed or couldn't be reached
+ */
+export async function reserveSlot(
+	data: CreateReservationRequest
+): Promise<CreateReservationResponse> {
+	const url = config.getApiUrl(config.api.paths.reservations);
+
+	const response = await fetch(url, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json'
+		},
+		body: JSON.stringify(data)
+	});
+
+	if (!response.ok) {
+		const error = await response.json().catch(() => ({ error: 'Failed to reserve slot' }));
+		if (response.status === 409) {
+			throw new BookingConflictError(error.error);
+		}
+		if (isUpstreamErrorCode(error.code)) {
+			throw new UpstreamRequestError(error.code, response.status);
+		}
+		throw new Error(error.error || `HTTP ${response.status}: ${response.statusText}`);
+	}
+
+	return response.json();
+}
+
+/**
+ * Releases a held slot. Failures are ignored since holds expire on their own.
+ * @param reservationId Reservation to release
+ */
+export async function releaseSlot(reservationId: string): Promise<void> {
+	const url = config.getApiUrl(
+		`${config.api.paths.reservations}/${encodeURIComponent(reservationId)}`
+	);
+
+	await fetch(url, { method: 'DELETE' }).catch(() => undefined);
+}
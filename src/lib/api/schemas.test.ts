@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import {
+	AvailabilityResponseSchema,
+	CreateBookingRequestSchema,
+	RescheduleBookingRequestSchema,
+	toFieldErrors,
+	type CreateBookingRequest
+} from './schemas';
+import { MAX_GUESTS, MAX_NAME_LENGTH } from '$lib/utils/attendees';
+
+const booker = { name: 'Ada', email: 'ada@acme.com' };
+const guest = (n: number) => ({ name: null, email: `guest${n}@acme.com` });
+
+const request: CreateBookingRequest = {
+	start: '2025-12-16T15:00:00.000Z',
+	end: '2025-12-16T15:30:00.000Z',
+	duration: 30,
+	attendees: [booker]
+};
+
+/**
+ * Validates a booking request and returns its field errors
+ */
+function errorsFor(data: unknown) {
+	const result = CreateBookingRequestSchema.safeParse(data);
+	return result.success ? [] : toFieldErrors(result.error);
+}
+
+describe('CreateBookingRequestSchema', () => {
+	it('should accept a valid request', () => {
+		expect(
+			errorsFor({
+				...request,
+				timezone: 'Europe/London',
+				answers: { agenda: 'Pricing', consent: true },
+				metadata: { utm_source: 'newsletter' }
+			})
+		).toEqual([]);
+	});
+
+	it('should report missing and mistyped fields', () => {
+		expect(errorsFor({ ...request, start: undefined, duration: '30' })).toEqual([
+			{ field: 'start', code: 'invalid_type', message: 'Please provide an ISO 8601 time' },
+			{ field: 'duration', code: 'invalid_type', message: 'Duration is required' }
+		]);
+		expect(errorsFor(null)).toMatchObject([{ field: '', code: 'invalid_type' }]);
+	});
+
+	it('should reject unsupported durations and mismatched ranges', () => {
+		expect(errorsFor({ ...request, duration: 20 })).toMatchObject([
+			{ field: 'duration', code: 'unsupported_duration' }
+		]);
+		expect(errorsFor({ ...request, duration: 45 })).toEqual([
+			{
+				field: 'end',
+				code: 'duration_mismatch',
+				message: 'Meeting start and end do not match the duration'
+			}
+		]);
+	});
+
+	it('should accept the booker with up to the maximum number of guests', () => {
+		const guests = Array.from({ length: MAX_GUESTS }, (_, i) => guest(i));
+		expect(errorsFor({ ...request, attendees: [booker, ...guests] })).toEqual([]);
+	});
+
+	it('should reject too many or no attendees', () => {
+		const guests = Array.from({ length: MAX_GUESTS + 1 }, (_, i) => guest(i));
+		expect(errorsFor({ ...request, attendees: [booker, ...guests] })).toMatchObject([
+			{
+				field: 'attendees',
+				code: 'too_big',
+				message: `A meeting can have at most ${MAX_GUESTS} guests`
+			}
+		]);
+		expect(errorsFor({ ...request, attendees: [] })).toMatchObject([
+			{ field: 'attendees', code: 'too_small' }
+		]);
+	});
+
+	it('should report invalid and duplicate emails on their attendee', () => {
+		expect(
+			errorsFor({ ...request, attendees: [booker, { name: null, email: 'ADA@acme.com' }] })
+		).toEqual([
+			{
+				field: 'attendees.1.email',
+				code: 'duplicate_email',
+				message: 'This email has already been added'
+			}
+		]);
+		expect(errorsFor({ ...request, attendees: [booker, { name: null, email: 'nope' }] })).toEqual([
+			{
+				field: 'attendees.1.email',
+				code: 'invalid_email',
+				message: 'Please enter a valid email address'
+			}
+		]);
+		expect(errorsFor({ ...request, attendees: [{ name: 'Ada', email: '' }] })).toMatchObject([
+			{ field: 'attendees.0.email', message: 'Attendee email is required' }
+		]);
+	});
+
+	it('should reject names that are too long or contain line breaks', () => {
+		expect(
+			errorsFor({ ...request, attendees: [{ ...booker, name: 'Ada\r\nATTENDEE:mailto:x@y.z' }] })
+		).toEqual([
+			{
+				field: 'attendees.0.name',
+				code: 'invalid_name',
+				message: 'Name must not contain line breaks or control characters'
+			}
+		]);
+		expect(
+			errorsFor({ ...request, attendees: [{ ...booker, name: 'A'.repeat(MAX_NAME_LENGTH + 1) }] })
+		).toMatchObject([{ field: 'attendees.0.name', code: 'too_big' }]);
+	});
+
+	it('should reject invalid timezones', () => {
+		expect(errorsFor({ ...request, timezone: 'Mars/Base' })).toEqual([
+			{ field: 'timezone', code: 'invalid_timezone', message: 'Invalid timezone' }
+		]);
+	});
+
+	it('should only accept a few short utm metadata strings', () => {
+		expect(errorsFor({ ...request, metadata: [] })).toMatchObject([
+			{ field: 'metadata', code: 'invalid_type' }
+		]);
+		expect(errorsFor({ ...request, metadata: { source: 'x' } })).toEqual([
+			{
+				field: 'metadata.source',
+				code: 'unsupported_key',
+				message: 'Unsupported metadata key: source'
+			}
+		]);
+		expect(errorsFor({ ...request, metadata: { utm_source: 1 } })).toMatchObject([
+			{ field: 'metadata.utm_source', code: 'invalid_type' }
+		]);
+		expect(errorsFor({ ...request, metadata: { utm_source: 'x'.repeat(201) } })).toMatchObject([
+			{ field: 'metadata.utm_source', code: 'too_big' }
+		]);
+	});
+
+	it('should drop unknown fields', () => {
+		const result = CreateBookingRequestSchema.parse({ ...request, hostIds: ['host-1'] });
+		expect(result).not.toHaveProperty('hostIds');
+	});
+});
+
+describe('RescheduleBookingRequestSchema', () => {
+	it('should require the new time to end after it starts', () => {
+		expect(
+			RescheduleBookingRequestSchema.safeParse({ start: request.end, end: request.start }).success
+		).toBe(false);
+		expect(
+			RescheduleBookingRequestSchema.safeParse({ start: request.start, end: request.end }).success
+		).toBe(true);
+	});
+});
+
+describe('AvailabilityResponseSchema', () => {
+	it('should accept availability with a timezone', () => {
+		const availability = {
+			timezone: 'America/New_York',
+			slots: [{ start: '2025-12-16T09:00:00-05:00', end: '2025-12-16T17:00:00-05:00' }]
+		};
+		expect(AvailabilityResponseSchema.parse(availability)).toEqual(availability);
+	});
+
+	it('should reject malformed availability', () => {
+		expect(AvailabilityResponseSchema.safeParse({ slots: [] }).success).toBe(false);
+		expect(
+			AvailabilityResponseSchema.safeParse({ timezone: 'UTC', slots: [{ start: 'soon' }] }).success
+		).toBe(false);
+		expect(
+			AvailabilityResponseSchema.safeParse({
+				timezone: 'UTC',
+				slots: [{ start: '2025-12-16T17:00:00Z', end: '2025-12-16T09:00:00Z' }]
+			}).success
+		).toBe(false);
+	});
+});
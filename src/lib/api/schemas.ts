@@ -0,0 +1,210 @@
+/**
+ * API request and response schemas
+ * Runtime validation shared by the client and the server proxies, so both check
+ * bookings the same way and report failures as field-level errors.
+ */
+
+import { z } from 'zod';
+import { isValidEmail, isValidName, MAX_GUESTS, MAX_NAME_LENGTH } from '$lib/utils/attendees';
+import { isMeetingDuration, type AvailabilityResponse } from '$lib/utils/availability';
+import { MAX_METADATA_KEYS, MAX_METADATA_VALUE_LENGTH, UTM_KEY_PATTERN } from '$lib/utils/prefill';
+import { isValidTimezone } from '$lib/utils/timezone';
+
+/**
+ * A validation failure for one request field
+ */
+export interface FieldError {
+	/** Dot-separated path to the field (e.g. `attendees.1.email`), empty for the whole request */
+	field: string;
+	/** Machine-readable reason, e.g. `invalid_type`, `invalid_email` or `duplicate_email` */
+	code: string;
+	/** Message that can be shown next to the field */
+	message: string;
+}
+
+/**
+ * Body of a 400 response from the proxies
+ */
+export interface ValidationErrorResponse {
+	success: false;
+	/** Summary of the first error, for clients that don't read `errors` */
+	error: string;
+	errors: FieldError[];
+}
+
+/** ISO 8601 timestamp with a UTC offset or `Z` */
+const timestamp = z.iso.datetime({ offset: true, error: 'Please provide an ISO 8601 time' });
+
+const timezone = z
+	.string()
+	.refine(isValidTimezone, { message: 'Invalid timezone', params: { code: 'invalid_timezone' } });
+
+export const AttendeeSchema = z.object({
+	email: z
+		.string({ error: 'Attendee email is required' })
+		.min(1, { message: 'Attendee email is required', abort: true })
+		.refine(isValidEmail, {
+			message: 'Please enter a valid email address',
+			params: { code: 'invalid_email' }
+		}),
+	name: z
+		.string()
+		.max(MAX_NAME_LENGTH, `Name must be at most ${MAX_NAME_LENGTH} characters`)
+		.refine(isValidName, {
+			message: 'Name must not contain line breaks or control characters',
+			params: { code: 'invalid_name' }
+		})
+		.nullable()
+});
+
+/**
+ * The booker first, then guests, with no email listed twice
+ */
+const AttendeesSchema = z
+	.array(AttendeeSchema, { error: 'Attendees are required' })
+	.min(1, 'At least one attendee is required')
+	.max(MAX_GUESTS + 1, `A meeting can have at most ${MAX_GUESTS} guests`)
+	.superRefine((attendees, ctx) => {
+		const seen = new Set<string>();
+		attendees.forEach((attendee, index) => {
+			const email = attendee.email.trim().toLowerCase();
+			if (seen.has(email)) {
+				ctx.addIssue({
+					code: 'custom',
+					message: 'This email has already been added',
+					path: [index, 'email'],
+					params: { code: 'duplicate_email' }
+				});
+			}
+			seen.add(email);
+		});
+	});
+
+/**
+ * Campaign attribution: a few short `utm_*` strings
+ */
+const MetadataSchema = z
+	.record(z.string(), z.string().max(MAX_METADATA_VALUE_LENGTH))
+	.superRefine((metadata, ctx) => {
+		const keys = Object.keys(metadata);
+		if (keys.length > MAX_METADATA_KEYS) {
+			ctx.addIssue({
+				code: 'custom',
+				message: `Metadata can have at most ${MAX_METADATA_KEYS} entries`,
+				params: { code: 'too_big' }
+			});
+		}
+		for (const key of keys.filter((key) => !UTM_KEY_PATTERN.test(key))) {
+			ctx.addIssue({
+				code: 'custom',
+				message: `Unsupported metadata key: ${key}`,
+				path: [key],
+				params: { code: 'unsupported_key' }
+			});
+		}
+	});
+
+export const CreateBookingRequestSchema = z
+	.object({
+		/** ISO 8601 timestamp */
+		start: timestamp,
+		/** ISO 8601 timestamp */
+		end: timestamp,
+		/** Meeting length in minutes */
+		duration: z.number({ error: 'Duration is required' }).refine(isMeetingDuration, {
+			message: 'Unsupported meeting duration',
+			params: { code: 'unsupported_duration' }
+		}),
+		/** Meeting type slug */
+		meetingType: z.string().optional(),
+		/** Hold taken when the slot was selected */
+		reservationId: z.string().optional(),
+		attendees: AttendeesSchema,
+		/** Intake question answers keyed by question ID */
+		answers: z.record(z.string(), z.union([z.string(), z.boolean()])).optional(),
+		/** Booker's IANA timezone, used for times in emails */
+		timezone: timezone.optional(),
+		/** Campaign attribution (utm_* params from the booking page URL) */
+		metadata: MetadataSchema.optional()
+	})
+	.refine(
+		// Unsupported durations are already reported on the duration field
+		(data) =>
+			!isMeetingDuration(data.duration) ||
+			(Date.parse(data.end) - Date.parse(data.start)) / 60000 === data.duration,
+		{
+			message: 'Meeting start and end do not match the duration',
+			path: ['end'],
+			params: { code: 'duration_mismatch' }
+		}
+	);
+
+export const RescheduleBookingRequestSchema = z
+	.object({
+		/** ISO 8601 timestamp */
+		start: timestamp,
+		/** ISO 8601 timestamp */
+		end: timestamp
+	})
+	.refine((data) => Date.parse(data.end) > Date.parse(data.start), {
+		message: 'Meeting must end after it starts',
+		path: ['end'],
+		params: { code: 'invalid_range' }
+	});
+
+export const CreateReservationRequestSchema = z.object({
+	/** ISO 8601 timestamp */
+	start: timestamp,
+	/** ISO 8601 timestamp */
+	end: timestamp,
+	/** Meeting type slug, used to apply buffers */
+	meetingType: z.string().optional()
+});
+
+export const AvailabilitySlotSchema = z
+	.object({ start: timestamp, end: timestamp })
+	.refine((slot) => Date.parse(slot.end) > Date.parse(slot.start), {
+		message: 'Slot must end after it starts',
+		path: ['end'],
+		params: { code: 'invalid_range' }
+	});
+
+export const AvailabilityResponseSchema: z.ZodType<AvailabilityResponse> = z.object({
+	timezone,
+	slots: z.array(AvailabilitySlotSchema)
+});
+
+export type Attendee = z.infer<typeof AttendeeSchema>;
+export type CreateBookingRequest = z.infer<typeof CreateBookingRequestSchema>;
+export type RescheduleBookingRequest = z.infer<typeof RescheduleBookingRequestSchema>;
+export type CreateReservationRequest = z.infer<typeof CreateReservationRequestSchema>;
+
+/**
+ * Converts schema validation issues into field errors.
+ * Custom checks carry their own code in `params.code`.
+ *
+ * @example
+ * toFieldErrors(CreateBookingRequestSchema.safeParse({ ...request, timezone: 'Mars/Base' }).error!)
+ * // [{ field: 'timezone', code: 'invalid_timezone', message: 'Invalid timezone' }]
+ */
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+	return error.issues.map((issue) => ({
+		field: issue.path.join('.'),
+		code:
+			issue.code === 'custom' && typeof issue.params?.code === 'string'
+				? issue.params.code
+				: issue.code,
+		message: issue.message
+	}));
+}
+
+/**
+ * Checks whether a response body is a validation error from the proxies
+ */
+export function isValidationErrorResponse(value: unknown): value is ValidationErrorResponse {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		Array.isArray((value as ValidationErrorResponse).errors)
+	);
+}
@@ -1,7 +1,8 @@
-import { render, screen } from '@testing-library/svelte';
-import { describe, it, expect } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/svelte';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
 import '@testing-library/jest-dom';
 import CalendarDayButton from './CalendarDayButton.svelte';
+import Calendar from './Calendar.svelte';
 
 describe('CalendarDayButton', () => {
 	it('renders day number correctly', () => {
@@ -22,7 +23,7 @@ describe('CalendarDayButton', () => {
 		expect(screen.getByRole('button')).toHaveTextContent('18');
 	});
 
-	it('disables button when date is in the past', () => {
+	it('marks button as disabled when date is in the past', () => {
 		render(CalendarDayButton, {
 			props: {
 				dateStr: '2025-12-01',
@@ -37,7 +38,7 @@ describe('CalendarDayButton', () => {
 			}
 		});
 
-		expect(screen.getByRole('button')).toHaveAttribute('disabled');
+		expect(screen.getByRole('button')).toHaveAttribute('aria-disabled', 'true');
 	});
 
 	it('applies selected styles when isSelected is true', () => {
@@ -79,7 +80,7 @@ describe('CalendarDayButton', () => {
 		expect(button).toHaveClass('text-green-600');
 	});
 
-	it('disables button when date is booked', () => {
+	it('marks button as disabled when date is booked', () => {
 		render(CalendarDayButton, {
 			props: {
 				dateStr: '2025-12-18',
@@ -94,7 +95,7 @@ describe('CalendarDayButton', () => {
 			}
 		});
 
-		expect(screen.getByRole('button')).toHaveAttribute('disabled');
+		expect(screen.getByRole('button')).toHaveAttribute('aria-disabled', 'true');
 	});
 
 	it('booked state takes precedence over selected state', () => {
@@ -117,4 +118,177 @@ describe('CalendarDayButton', () => {
 		expect(button).toHaveClass('bg-green-50');
 		expect(button).not.toHaveClass('bg-primary');
 	});
+
+	it('keeps unavailable days focusable but ignores clicks on them', async () => {
+		const onSelect = vi.fn();
+		render(CalendarDayButton, {
+			props: {
+				dateStr: '2025-12-01',
+				label: 1,
+				isSelected: false,
+				hasAvailability: false,
+				isPast: true,
+				isToday: false,
+				onSelect,
+				variant: 'full'
+			}
+		});
+
+		const button = screen.getByRole('button');
+		expect(button).not.toHaveAttribute('disabled');
+		await fireEvent.click(button);
+		expect(onSelect).not.toHaveBeenCalled();
+	});
+
+	it('still disables unavailable days in the condensed variant', () => {
+		render(CalendarDayButton, {
+			props: {
+				dateStr: '2025-12-01',
+				label: 1,
+				secondaryLabel: 'Mon',
+				isSelected: false,
+				hasAvailability: false,
+				isPast: true,
+				isToday: false,
+				onSelect: () => {},
+				variant: 'condensed'
+			}
+		});
+
+		expect(screen.getByRole('button')).toBeDisabled();
+	});
+
+	it('renders a grid cell with the selected state and full date label', () => {
+		render(CalendarDayButton, {
+			props: {
+				dateStr: '2025-12-18',
+				label: 18,
+				isSelected: true,
+				hasAvailability: true,
+				isPast: false,
+				isToday: true,
+				onSelect: () => {},
+				variant: 'full'
+			}
+		});
+
+		expect(screen.getByRole('gridcell')).toHaveAttribute('aria-selected', 'true');
+		const button = screen.getByRole('button', { name: 'Thursday, December 18, 2025' });
+		expect(button).toHaveAttribute('aria-disabled', 'false');
+		expect(button).toHaveAttribute('aria-current', 'date');
+	});
+
+	it('is only tabbable when it is the grid tab stop', () => {
+		const props = {
+			dateStr: '2025-12-18',
+			label: 18,
+			isSelected: false,
+			hasAvailability: true,
+			isPast: false,
+			isToday: false,
+			onSelect: () => {},
+			variant: 'full' as const
+		};
+		const { unmount } = render(CalendarDayButton, { props: { ...props, isFocusTarget: true } });
+		expect(screen.getByRole('button')).toHaveAttribute('tabindex', '0');
+		unmount();
+
+		render(CalendarDayButton, { props });
+		expect(screen.getByRole('button')).toHaveAttribute('tabindex', '-1');
+	});
+});
+
+describe('Calendar keyboard navigation', () => {
+	const december = new Date(2025, 11, 1);
+
+	beforeEach(() => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		vi.setSystemTime(new Date(2025, 10, 20, 9));
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function renderCalendar(props: Partial<Record<string, unknown>> = {}) {
+		return render(Calendar, {
+			props: {
+				currentMonth: december,
+				datesWithAvailability: new Set(['2025-12-16', '2025-12-18']),
+				selectedDate: '2025-12-18',
+				onDateSelect: () => {},
+				...props
+			}
+		});
+	}
+
+	/** Returns the day button for a date */
+	function day(date: string): HTMLElement {
+		return document.querySelector<HTMLElement>(`[data-date="${date}"]`)!;
+	}
+
+	it('exposes the month as a grid of weeks with one tab stop', () => {
+		renderCalendar();
+
+		expect(screen.getByRole('grid', { name: 'December 2025' })).toBeInTheDocument();
+		expect(screen.getAllByRole('columnheader')).toHaveLength(7);
+		// Header row plus five weeks
+		expect(screen.getAllByRole('row')).toHaveLength(6);
+		expect(document.querySelectorAll('[tabindex="0"]')).toHaveLength(1);
+		expect(day('2025-12-18')).toHaveAttribute('tabindex', '0');
+	});
+
+	it('moves focus with the arrow, Home and End keys', async () => {
+		renderCalendar();
+		day('2025-12-18').focus();
+
+		await fireEvent.keyDown(day('2025-12-18'), { key: 'ArrowRight' });
+		expect(day('2025-12-19')).toHaveFocus();
+		expect(day('2025-12-19')).toHaveAttribute('tabindex', '0');
+		expect(day('2025-12-18')).toHaveAttribute('tabindex', '-1');
+
+		await fireEvent.keyDown(day('2025-12-19'), { key: 'ArrowUp' });
+		expect(day('2025-12-12')).toHaveFocus();
+
+		await fireEvent.keyDown(day('2025-12-12'), { key: 'Home' });
+		expect(day('2025-12-07')).toHaveFocus();
+
+		await fireEvent.keyDown(day('2025-12-07'), { key: 'End' });
+		expect(day('2025-12-13')).toHaveFocus();
+
+		await fireEvent.keyDown(day('2025-12-13'), { key: 'ArrowDown' });
+		expect(day('2025-12-20')).toHaveFocus();
+	});
+
+	it('changes month when moving past the displayed month', async () => {
+		const onChangeMonth = vi.fn();
+		const { rerender } = renderCalendar({ canGoNext: true, onChangeMonth });
+		day('2025-12-18').focus();
+
+		await fireEvent.keyDown(day('2025-12-18'), { key: 'PageDown' });
+		expect(onChangeMonth).toHaveBeenCalledWith('next');
+
+		await rerender({ currentMonth: new Date(2026, 0, 1), selectedDate: null });
+		expect(day('2026-01-18')).toHaveFocus();
+	});
+
+	it('stays in the month when the next one cannot be shown', async () => {
+		const onChangeMonth = vi.fn();
+		renderCalendar({ canGoNext: false, onChangeMonth });
+		day('2025-12-31').focus();
+
+		await fireEvent.keyDown(day('2025-12-31'), { key: 'ArrowRight' });
+		expect(onChangeMonth).not.toHaveBeenCalled();
+		expect(day('2025-12-31')).toHaveFocus();
+	});
+
+	it('selects days with availability only', async () => {
+		const onDateSelect = vi.fn();
+		renderCalendar({ onDateSelect });
+
+		await fireEvent.click(day('2025-12-17'));
+		await fireEvent.click(day('2025-12-16'));
+		expect(onDateSelect).toHaveBeenCalledOnce();
+		expect(onDateSelect).toHaveBeenCalledWith('2025-12-16');
+	});
 });
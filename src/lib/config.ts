@@ -33,7 +33,9 @@ export const config = {
 		baseUrl: getEnvVar(PUBLIC_API_BASE_URL, ''),
 		paths: {
 			availability: getEnvVar(PUBLIC_API_AVAILABILITY_PATH, '/api/availability'),
-			bookings: getEnvVar(PUBLIC_API_BOOKINGS_PATH, '/api/bookings')
+			bookings: getEnvVar(PUBLIC_API_BOOKINGS_PATH, '/api/bookings'),
+			meetingTypes: '/api/meeting-types',
+			reservations: '/api/reservations'
 		}
 	},
 
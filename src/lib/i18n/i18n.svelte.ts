@@ -0,0 +1,108 @@
+/**
+ * Locale state shared with components through Svelte context
+ * The root layout provides it; components read it with `getI18n()`.
+ */
+
+import { getContext, setContext } from 'svelte';
+import { format, type Day } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
+import en from './messages/en';
+import {
+	DEFAULT_LOCALE,
+	getDateFnsLocale,
+	getDirection,
+	getWeekStartsOn,
+	translate,
+	usesTwelveHourClock,
+	type Locale,
+	type MessageKey,
+	type MessageParams,
+	type Messages
+} from './locale';
+
+const I18N_CONTEXT = Symbol('i18n');
+
+/** Catalog keys holding date-fns format patterns */
+export type DateFormatKey = Extract<MessageKey, `format.${string}`>;
+
+/**
+ * The visitor's locale, its messages and formatting preferences
+ */
+export class I18n {
+	locale = $state<Locale>(DEFAULT_LOCALE);
+	messages = $state.raw<Messages>(en);
+
+	/**
+	 * Whether times use a 12-hour clock. Follows the locale until the visitor picks
+	 * a clock with the scheduler's time format switch.
+	 */
+	hour12 = $state(true);
+
+	/** Text direction of the locale */
+	dir = $derived(getDirection(this.locale));
+
+	/** date-fns locale for formatting dates */
+	dateLocale = $derived(getDateFnsLocale(this.locale));
+
+	/** First day of the week in the locale (0 = Sunday) */
+	weekStartsOn = $derived<Day>(getWeekStartsOn(this.locale));
+
+	constructor(locale: Locale, messages: Messages) {
+		this.locale = locale;
+		this.messages = messages;
+		this.hour12 = usesTwelveHourClock(locale);
+	}
+
+	/**
+	 * Switches to another locale, e.g. after navigating to a different `lang` param.
+	 * The clock returns to the new locale's convention.
+	 */
+	setLocale(locale: Locale, messages: Messages) {
+		if (locale !== this.locale) this.hour12 = usesTwelveHourClock(locale);
+		this.locale = locale;
+		this.messages = messages;
+	}
+
+	/**
+	 * Returns a message in the current locale
+	 */
+	t(key: MessageKey, params?: MessageParams): string {
+		return translate(this.messages, this.locale, key, params);
+	}
+
+	/**
+	 * Formats a date with one of the catalog's date formats, in a timezone when given
+	 */
+	formatDate(date: Date, key: DateFormatKey, timeZone?: string): string {
+		const pattern = this.t(key);
+		return timeZone
+			? formatInTimeZone(date, timeZone, pattern, { locale: this.dateLocale })
+			: format(date, pattern, { locale: this.dateLocale });
+	}
+
+	/**
+	 * Formats a time in a timezone with the visitor's clock (e.g., "9:00 am" or "09:00")
+	 */
+	formatTime(date: Date, timeZone: string): string {
+		return formatInTimeZone(date, timeZone, this.hour12 ? 'h:mm a' : 'HH:mm', {
+			locale: this.dateLocale
+		}).toLowerCase();
+	}
+}
+
+/** Used by components rendered without a layout, such as in component tests */
+let fallback: I18n | undefined;
+
+/**
+ * Provides the locale to the components below the caller
+ */
+export function setI18n(i18n: I18n) {
+	setContext(I18N_CONTEXT, i18n);
+}
+
+/**
+ * Returns the locale provided by the root layout, or English when there is none
+ */
+export function getI18n(): I18n {
+	return getContext<I18n | undefined>(I18N_CONTEXT) ?? (fallback ??= new I18n('en', en));
+}
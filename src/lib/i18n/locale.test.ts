@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+	getDirection,
+	getRequestLocale,
+	getWeekStartsOn,
+	loadMessages,
+	parseAcceptLanguage,
+	translate
+} from './locale';
+import en from './messages/en';
+import fr from './messages/fr';
+import ar from './messages/ar';
+
+function request(url: string, acceptLanguage?: string) {
+	const headers = new Headers(acceptLanguage ? { 'accept-language': acceptLanguage } : {});
+	return [new URL(url), headers] as const;
+}
+
+describe('parseAcceptLanguage', () => {
+	it('should order languages by quality, keeping header order for ties', () => {
+		expect(parseAcceptLanguage('en;q=0.5,fr-CA,ar;q=0.8,fr')).toEqual(['fr-CA', 'fr', 'ar', 'en']);
+	});
+
+	it('should leave out wildcards and languages with a quality of 0', () => {
+		expect(parseAcceptLanguage('fr;q=0, *;q=0.1, en')).toEqual(['en']);
+	});
+
+	it('should return nothing for a missing header', () => {
+		expect(parseAcceptLanguage(null)).toEqual([]);
+		expect(parseAcceptLanguage('')).toEqual([]);
+	});
+});
+
+describe('getRequestLocale', () => {
+	it('should prefer the lang param over the browser language', () => {
+		expect(getRequestLocale(...request('https://acme.test/bookings?lang=ar', 'fr'))).toBe('ar');
+	});
+
+	it('should ignore an unsupported lang param', () => {
+		expect(getRequestLocale(...request('https://acme.test/bookings?lang=de', 'fr'))).toBe('fr');
+	});
+
+	it('should use the first supported browser language, matching regional variants', () => {
+		expect(getRequestLocale(...request('https://acme.test/', 'de-DE,fr-CA;q=0.9,en;q=0.8'))).toBe(
+			'fr'
+		);
+	});
+
+	it('should fall back to English', () => {
+		expect(getRequestLocale(...request('https://acme.test/', 'de,es'))).toBe('en');
+		expect(getRequestLocale(...request('https://acme.test/'))).toBe('en');
+	});
+});
+
+describe('locale conventions', () => {
+	it('should write Arabic right to left', () => {
+		expect(getDirection('ar')).toBe('rtl');
+		expect(getDirection('en')).toBe('ltr');
+		expect(getDirection('fr')).toBe('ltr');
+	});
+
+	it("should start the week on the locale's first day", () => {
+		expect(getWeekStartsOn('en')).toBe(0);
+		expect(getWeekStartsOn('fr')).toBe(1);
+		expect(getWeekStartsOn('ar')).toBe(6);
+	});
+});
+
+describe('loadMessages', () => {
+	it('should load the catalog for each locale', async () => {
+		expect(await loadMessages('en')).toBe(en);
+		expect(await loadMessages('fr')).toEqual(fr);
+		expect(await loadMessages('ar')).toEqual(ar);
+	});
+
+	it('should translate every English key', () => {
+		expect(Object.keys(fr).sort()).toEqual(Object.keys(en).sort());
+		expect(Object.keys(ar).sort()).toEqual(Object.keys(en).sort());
+	});
+});
+
+describe('translate', () => {
+	it('should replace placeholders with params', () => {
+		expect(translate(en, 'en', 'drawer.guestLabel', { number: 2 })).toBe('Guest 2 email');
+	});
+
+	it('should leave placeholders without a param in place', () => {
+		expect(translate(en, 'en', 'drawer.sentTo')).toContain('{email}');
+	});
+
+	it('should pick the plural form for the count', () => {
+		const params = { date: 'Monday 1st' };
+
+		expect(translate(en, 'en', 'scheduler.slotsAnnouncement', { ...params, count: 1 })).toBe(
+			'1 time available on Monday 1st'
+		);
+		expect(translate(en, 'en', 'scheduler.slotsAnnouncement', { ...params, count: 3 })).toBe(
+			'3 times available on Monday 1st'
+		);
+	});
+
+	it("should use the locale's plural rules", () => {
+		const slots = (count: number) =>
+			translate(ar, 'ar', 'scheduler.slotsAnnouncement', { count, date: 'الاثنين' });
+
+		expect(slots(0)).toBe('لا توجد أوقات متاحة يوم الاثنين');
+		expect(slots(2)).toBe('وقتان متاحان يوم الاثنين');
+		expect(slots(5)).toBe('5 أوقات متاحة يوم الاثنين');
+		expect(slots(11)).toBe('11 وقتًا متاحًا يوم الاثنين');
+		expect(slots(100)).toBe('100 وقت متاح يوم الاثنين');
+
+		// French treats 0 as singular
+		expect(translate(fr, 'fr', 'drawer.guestsInvited', { count: 0 })).toBe(
+			'Votre invité a également été convié.'
+		);
+	});
+
+	it('should fall back to the other form when the locale has no form for the count', () => {
+		expect(translate(ar, 'ar', 'drawer.guestsInvited', { count: 5 })).toBe('تمت دعوة ضيوفك أيضًا.');
+	});
+});
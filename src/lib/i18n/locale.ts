@@ -0,0 +1,153 @@
+/**
+ * Locale detection and message formatting
+ * A visitor's locale comes from the `lang` URL param when it names a supported
+ * locale, otherwise from the browser's Accept-Language header.
+ */
+
+import type { Day } from 'date-fns';
+import { ar, enUS, fr, type Locale as DateFnsLocale } from 'date-fns/locale';
+import en, { type Message, type MessageKey, type Messages } from './messages/en';
+
+export const LOCALES = ['en', 'fr', 'ar'] as const;
+export type Locale = (typeof LOCALES)[number];
+
+/** Locale used when the visitor's languages aren't supported */
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** URL param that overrides the browser's language (e.g., `?lang=fr`) */
+export const LOCALE_PARAM = 'lang';
+
+/** Locales written right to left */
+const RTL_LOCALES: readonly Locale[] = ['ar'];
+
+/** date-fns locale objects, which also set the first day of the week */
+const DATE_FNS_LOCALES: Record<Locale, DateFnsLocale> = { en: enUS, fr, ar };
+
+/** Catalogs other than English, loaded when first needed */
+const CATALOGS: Record<Exclude<Locale, 'en'>, () => Promise<{ default: Messages }>> = {
+	fr: () => import('./messages/fr'),
+	ar: () => import('./messages/ar')
+};
+
+export type { MessageKey, Messages };
+
+/** Values substituted into a message's `{name}` placeholders */
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Checks whether a value is a supported locale
+ */
+export function isLocale(value: unknown): value is Locale {
+	return (LOCALES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Finds the supported locale for a language tag, matching on the language
+ * subtag so regional variants like `fr-CA` use their language's catalog
+ * @returns The locale, or undefined when the language isn't supported
+ */
+function matchLocale(tag: string): Locale | undefined {
+	const language = tag.trim().toLowerCase().split('-')[0];
+	return isLocale(language) ? language : undefined;
+}
+
+/**
+ * Reads the languages in an Accept-Language header, most preferred first.
+ * Languages with a quality of 0 are left out.
+ *
+ * @example
+ * parseAcceptLanguage('fr-CA,fr;q=0.9,en;q=0.8') // ['fr-CA', 'fr', 'en']
+ */
+export function parseAcceptLanguage(header: string | null): string[] {
+	if (!header) return [];
+
+	return header
+		.split(',')
+		.map((entry, index) => {
+			const [tag, ...params] = entry.trim().split(';');
+			const quality = params.find((param) => param.trim().startsWith('q='));
+			return { tag: tag.trim(), q: quality ? Number(quality.trim().slice(2)) : 1, index };
+		})
+		.filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+		.sort((a, b) => b.q - a.q || a.index - b.index)
+		.map(({ tag }) => tag);
+}
+
+/**
+ * Picks the locale for a request: the `lang` URL param when it names a supported
+ * locale, then the first supported language in the Accept-Language header
+ */
+export function getRequestLocale(url: URL, headers: Headers): Locale {
+	const override = matchLocale(url.searchParams.get(LOCALE_PARAM) ?? '');
+	if (override) return override;
+
+	for (const tag of parseAcceptLanguage(headers.get('accept-language'))) {
+		const locale = matchLocale(tag);
+		if (locale) return locale;
+	}
+
+	return DEFAULT_LOCALE;
+}
+
+/**
+ * Returns the text direction of a locale
+ */
+export function getDirection(locale: Locale): 'ltr' | 'rtl' {
+	return RTL_LOCALES.includes(locale) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Returns the date-fns locale used to format dates
+ */
+export function getDateFnsLocale(locale: Locale): DateFnsLocale {
+	return DATE_FNS_LOCALES[locale];
+}
+
+/**
+ * Returns the first day of the week in a locale (0 = Sunday)
+ */
+export function getWeekStartsOn(locale: Locale): Day {
+	return DATE_FNS_LOCALES[locale].options?.weekStartsOn ?? 0;
+}
+
+/**
+ * Checks whether a locale writes times with a 12-hour clock by default
+ */
+export function usesTwelveHourClock(locale: Locale): boolean {
+	return new Intl.DateTimeFormat(locale, { hour: 'numeric' }).resolvedOptions().hour12 ?? false;
+}
+
+/**
+ * Loads a locale's message catalog
+ */
+export async function loadMessages(locale: Locale): Promise<Messages> {
+	if (locale === 'en') return en;
+	return (await CATALOGS[locale]()).default;
+}
+
+/**
+ * Formats a message from a catalog, falling back to English for a missing key.
+ * Plural messages pick their form for the `count` param using the locale's plural
+ * rules, and `{name}` placeholders are replaced by params of the same name.
+ * Placeholders without a param are left in place.
+ *
+ * @example
+ * translate(en, 'en', 'scheduler.slotsAnnouncement', { count: 2, date: 'Monday 1st' })
+ * // '2 times available on Monday 1st'
+ */
+export function translate(
+	messages: Messages,
+	locale: Locale,
+	key: MessageKey,
+	params: MessageParams = {}
+): string {
+	const message: Message = messages[key] ?? en[key];
+	const text =
+		typeof message === 'string'
+			? message
+			: (message[new Intl.PluralRules(locale).select(Number(params.count ?? 0))] ?? message.other);
+
+	return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+		name in params ? String(params[name]) : placeholder
+	);
+}
@@ -0,0 +1,148 @@
+/**
+ * Arabic messages, shown right to left
+ */
+
+import type { Messages } from './en';
+
+const ar: Messages = {
+	'format.fullDate': 'EEEE d MMMM yyyy',
+	'format.weekdayMonthDay': 'EEEE d MMMM',
+	'format.weekdayDay': 'EEEE d',
+	'format.monthYear': 'MMMM yyyy',
+	'format.dayMonth': 'd MMM',
+	'format.dayMonthYear': 'd MMM yyyy',
+
+	'bookings.title': 'احجز موعدًا مع فريق ACME',
+	'bookings.description':
+		'اختر الوقت الذي يناسبك واحجز فورًا. لا رسائل بريد إلكتروني ولا انتظار. سنستخدم المكالمة للتعرّف على أهدافك والإجابة عن أسئلتك وتحديد الخطوات التالية.',
+
+	'scheduler.minutes': '{count} دقيقة',
+	'scheduler.meetingLength': 'مدة الاجتماع',
+	'scheduler.meetingScheduled': 'تم تحديد موعد الاجتماع',
+	'scheduler.withHosts': 'مع {hosts}',
+	'scheduler.defaultHost': 'ممثل ACME',
+	'scheduler.guests': 'الضيوف',
+	'scheduler.cancelOrReschedule': 'إلغاء أو إعادة جدولة',
+	'scheduler.errorTitle': 'تعذّر تحميل المواعيد المتاحة',
+	'scheduler.empty': 'لا توجد مواعيد متاحة',
+	'scheduler.emptyHint': 'يُرجى المحاولة لاحقًا',
+	'scheduler.selectedDate': '{date} ({duration} دقيقة)',
+	'scheduler.slotsAnnouncement': {
+		zero: 'لا توجد أوقات متاحة يوم {date}',
+		one: 'وقت واحد متاح يوم {date}',
+		two: 'وقتان متاحان يوم {date}',
+		few: '{count} أوقات متاحة يوم {date}',
+		many: '{count} وقتًا متاحًا يوم {date}',
+		other: '{count} وقت متاح يوم {date}'
+	},
+	'scheduler.calendarView': 'عرض التقويم',
+	'scheduler.view.month': 'شهر',
+	'scheduler.view.week': 'أسبوع',
+	'scheduler.clock': 'تنسيق الوقت',
+	'scheduler.clock.12': '12 ساعة',
+	'scheduler.clock.24': '24 ساعة',
+	'scheduler.nextAvailable': 'أقرب تاريخ متاح',
+	'scheduler.noLaterAvailability': 'لا توجد تواريخ متاحة أخرى',
+
+	'event.title': 'اجتماع مع ACME Industries Ltd',
+	'event.manageDescription': 'هل تحتاج إلى تغيير؟ ألغِ الموعد أو أعد جدولته: {url}',
+
+	'calendar.previousMonth': 'الشهر السابق',
+	'calendar.nextMonth': 'الشهر التالي',
+	'calendar.previousWeek': 'الأسبوع السابق',
+	'calendar.nextWeek': 'الأسبوع التالي',
+	'calendar.yourBooking': '{date}، حجزك',
+	'calendar.noTimes': 'لا توجد أوقات',
+
+	'slots.empty': 'لا توجد مواعيد مدتها {duration} دقيقة في هذا التاريخ',
+
+	'soonest.title': 'أقرب الأوقات',
+	'soonest.hint': 'احجز أقرب وقت متاح بنقرة واحدة.',
+
+	'duration.label': 'مدة الاجتماع',
+	'duration.option': '{count} دقيقة',
+
+	'timezone.label': 'المنطقة الزمنية',
+	'timezone.placeholder': 'ابحث عن مدينة أو دولة أو اختصار',
+	'timezone.list': 'المناطق الزمنية',
+	'timezone.results': 'النتائج',
+	'timezone.suggested': 'مقترحة',
+	'timezone.local': 'توقيتي المحلي',
+	'timezone.org': 'توقيت ACME المحلي',
+	'timezone.noMatch': 'لا توجد منطقة زمنية تطابق "{query}"',
+
+	'drawer.close': 'إغلاق',
+	'drawer.title': 'تأكيد الاجتماع',
+	'drawer.selectedTime': 'الوقت المحدد',
+	'drawer.durationAndOffset': '{duration} دقيقة · {offset}',
+	'drawer.localTime': 'بتوقيتك المحلي',
+	'drawer.changeTime': 'تغيير الوقت',
+	'drawer.conflictTitle': 'لم يعد هذا الوقت متاحًا',
+	'drawer.conflictBody': 'حجزه شخص آخر للتو. يُرجى اختيار وقت آخر.',
+	'drawer.name': 'الاسم',
+	'drawer.namePlaceholder': 'أدخل اسمك الكامل',
+	'drawer.email': 'البريد الإلكتروني',
+	'drawer.emailPlaceholder': 'أدخل عنوان بريدك الإلكتروني',
+	'drawer.emailInvalid': 'يُرجى إدخال عنوان بريد إلكتروني صالح',
+	'drawer.guests': 'الضيوف',
+	'drawer.guestLabel': 'البريد الإلكتروني للضيف {number}',
+	'drawer.guestPlaceholder': 'عنوان البريد الإلكتروني للضيف',
+	'drawer.removeGuest': 'إزالة الضيف {number}',
+	'drawer.addGuest': '+ إضافة ضيف',
+	'drawer.maxGuests': 'يمكنك دعوة {count} ضيوف كحد أقصى.',
+	'drawer.genericError': 'حدث خطأ أثناء حجز اجتماعك. يُرجى المحاولة مرة أخرى.',
+	'drawer.inviteNotice': 'بتأكيد هذا الاجتماع، ستتلقى دعوة تقويم ورسالة تأكيد بالبريد الإلكتروني.',
+	'drawer.confirmedTitle': 'تم تأكيد الاجتماع!',
+	'drawer.sentTo': 'تم إرسال دعوة التقويم والتأكيد إلى {email}.',
+	'drawer.guestsInvited': {
+		one: 'تمت دعوة ضيفك أيضًا.',
+		two: 'تمت دعوة ضيفيك أيضًا.',
+		other: 'تمت دعوة ضيوفك أيضًا.'
+	},
+	'drawer.confirming': 'جارٍ التأكيد...',
+	'drawer.confirm': 'تأكيد الاجتماع',
+	'drawer.pickAnother': 'اختر وقتًا آخر',
+	'drawer.done': 'تم',
+
+	'guestError.invalid_email': 'يُرجى إدخال عنوان بريد إلكتروني صالح',
+	'guestError.own_email': 'هذا بريدك الإلكتروني بالفعل',
+	'guestError.duplicate_email': 'تمت إضافة هذا الضيف بالفعل',
+
+	'question.optional': '(اختياري)',
+	'question.selectOption': 'اختر خيارًا',
+	'answerError.required': 'هذا الحقل مطلوب',
+	'answerError.unchecked': 'يجب تحديد هذا المربع',
+	'answerError.invalid_option': 'يُرجى اختيار أحد الخيارات',
+	'answerError.invalid_phone': 'يُرجى إدخال رقم هاتف صالح',
+	'answerError.too_long': 'يُرجى ألا يتجاوز النص {max} حرفًا',
+	'answerError.invalid_answer': 'إجابة غير صالحة',
+
+	'addToCalendar.title': 'إضافة إلى التقويم',
+
+	'manage.pageTitle': 'إدارة حجزك | ACME Industries Ltd',
+	'manage.title': 'إدارة حجزك',
+	'manage.meetingWith': '{meeting} مع ممثل ACME',
+	'manage.defaultMeeting': 'اجتماع',
+	'manage.cancelled': 'تم إلغاء هذا الاجتماع.',
+	'manage.cancelledSuccess': 'تم إلغاء اجتماعك.',
+	'manage.rescheduledSuccess': 'تمت إعادة جدولة اجتماعك.',
+	'manage.genericError': 'حدث خطأ ما',
+	'manage.reschedule': 'إعادة الجدولة',
+	'manage.cancelMeeting': 'إلغاء الاجتماع',
+	'manage.confirmCancel': 'هل أنت متأكد من رغبتك في إلغاء هذا الاجتماع؟',
+	'manage.cancelling': 'جارٍ الإلغاء...',
+	'manage.yesCancel': 'نعم، ألغِ',
+	'manage.keepMeeting': 'الإبقاء على الاجتماع',
+	'manage.pickNewTime': 'اختر وقتًا جديدًا',
+	'manage.back': 'رجوع',
+	'manage.moveTo': 'نقل اجتماعك إلى {time} يوم {date}؟',
+	'manage.rescheduling': 'جارٍ إعادة الجدولة...',
+	'manage.confirmNewTime': 'تأكيد الوقت الجديد',
+	'manage.chooseAnother': 'اختر وقتًا آخر',
+
+	'footer.tagline': 'نمكّن الشركات بحلول مبتكرة.',
+	'footer.contact': 'تواصل معنا',
+	'footer.rights': '© {year} ACME Team. جميع الحقوق محفوظة.'
+};
+
+export default ar;
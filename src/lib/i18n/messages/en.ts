@@ -0,0 +1,154 @@
+/**
+ * English messages, the source catalog
+ * Other catalogs translate the same keys. Keys under `format.` are date-fns format
+ * patterns, so each language can order the parts of a date its own way.
+ */
+
+/**
+ * A message, or its plural forms chosen by the `count` param
+ */
+export type Message = string | ({ other: string } & Partial<Record<Intl.LDMLPluralRule, string>>);
+
+const en = {
+	'format.fullDate': 'EEEE, MMMM d, yyyy',
+	'format.weekdayMonthDay': 'EEEE, MMMM d',
+	'format.weekdayDay': 'EEEE do',
+	'format.monthYear': 'MMMM yyyy',
+	'format.dayMonth': 'MMM d',
+	'format.dayMonthYear': 'MMM d, yyyy',
+
+	'bookings.title': 'Book time with the ACME team',
+	'bookings.description':
+		'Choose a time that works for you and book instantly. No emails, no waiting. We’ll use the call to learn about your goals, answer questions and decide what happens next.',
+
+	'scheduler.minutes': '{count} minutes',
+	'scheduler.meetingLength': 'Meeting length',
+	'scheduler.meetingScheduled': 'Meeting scheduled',
+	'scheduler.withHosts': 'with {hosts}',
+	'scheduler.defaultHost': 'ACME representative',
+	'scheduler.guests': 'Guests',
+	'scheduler.cancelOrReschedule': 'Cancel or reschedule',
+	'scheduler.errorTitle': 'Error Loading Availability',
+	'scheduler.empty': 'No availability found',
+	'scheduler.emptyHint': 'Please check back later',
+	'scheduler.selectedDate': '{date} ({duration} mins)',
+	'scheduler.slotsAnnouncement': {
+		one: '1 time available on {date}',
+		other: '{count} times available on {date}'
+	},
+	'scheduler.calendarView': 'Calendar view',
+	'scheduler.view.month': 'Month',
+	'scheduler.view.week': 'Week',
+	'scheduler.clock': 'Time format',
+	'scheduler.clock.12': '12h',
+	'scheduler.clock.24': '24h',
+	'scheduler.nextAvailable': 'Next available date',
+	'scheduler.noLaterAvailability': 'No more available dates',
+
+	'event.title': 'Meeting with ACME Industries Ltd',
+	'event.manageDescription': 'Need to make a change? Cancel or reschedule: {url}',
+
+	'calendar.previousMonth': 'Previous month',
+	'calendar.nextMonth': 'Next month',
+	'calendar.previousWeek': 'Previous week',
+	'calendar.nextWeek': 'Next week',
+	'calendar.yourBooking': '{date}, your booking',
+	'calendar.noTimes': 'No times',
+
+	'slots.empty': 'No {duration}-minute slots available for this date',
+
+	'soonest.title': 'Soonest times',
+	'soonest.hint': 'Book the next free time in one click.',
+
+	'duration.label': 'Meeting length',
+	'duration.option': '{count} min',
+
+	'timezone.label': 'Timezone',
+	'timezone.placeholder': 'Search city, country or abbreviation',
+	'timezone.list': 'Timezones',
+	'timezone.results': 'Results',
+	'timezone.suggested': 'Suggested',
+	'timezone.local': 'My local time',
+	'timezone.org': 'ACME local time',
+	'timezone.noMatch': 'No timezones match "{query}"',
+
+	'drawer.close': 'Close',
+	'drawer.title': 'Confirm meeting',
+	'drawer.selectedTime': 'Selected Time',
+	'drawer.durationAndOffset': '{duration} min · {offset}',
+	'drawer.localTime': 'In your local time',
+	'drawer.changeTime': 'Change time',
+	'drawer.conflictTitle': 'This time is no longer available',
+	'drawer.conflictBody': 'Someone else has just booked it. Please pick another time.',
+	'drawer.name': 'Name',
+	'drawer.namePlaceholder': 'Enter your full name',
+	'drawer.email': 'Email',
+	'drawer.emailPlaceholder': 'Enter your email address',
+	'drawer.emailInvalid': 'Please enter a valid email address',
+	'drawer.guests': 'Guests',
+	'drawer.guestLabel': 'Guest {number} email',
+	'drawer.guestPlaceholder': 'Guest email address',
+	'drawer.removeGuest': 'Remove guest {number}',
+	'drawer.addGuest': '+ Add guest',
+	'drawer.maxGuests': 'You can invite up to {count} guests.',
+	'drawer.genericError': 'Something went wrong booking your meeting. Please try again.',
+	'drawer.inviteNotice':
+		"By confirming this meeting, you'll receive a calendar invite and confirmation email.",
+	'drawer.confirmedTitle': 'Meeting confirmed!',
+	'drawer.sentTo': 'A calendar invite and confirmation have been sent to {email}.',
+	'drawer.guestsInvited': {
+		one: 'Your guest has been invited too.',
+		other: 'Your guests have been invited too.'
+	},
+	'drawer.confirming': 'Confirming...',
+	'drawer.confirm': 'Confirm meeting',
+	'drawer.pickAnother': 'Pick another time',
+	'drawer.done': 'Done',
+
+	'guestError.invalid_email': 'Please enter a valid email address',
+	'guestError.own_email': 'This is already your email',
+	'guestError.duplicate_email': 'This guest has already been added',
+
+	'question.optional': '(optional)',
+	'question.selectOption': 'Select an option',
+	'answerError.required': 'This field is required',
+	'answerError.unchecked': 'This box must be checked',
+	'answerError.invalid_option': 'Please choose one of the options',
+	'answerError.invalid_phone': 'Please enter a valid phone number',
+	'answerError.too_long': 'Please keep this under {max} characters',
+	'answerError.invalid_answer': 'Invalid answer',
+
+	'addToCalendar.title': 'Add to calendar',
+
+	'manage.pageTitle': 'Manage your booking | ACME Industries Ltd',
+	'manage.title': 'Manage your booking',
+	'manage.meetingWith': '{meeting} with ACME representative',
+	'manage.defaultMeeting': 'Meeting',
+	'manage.cancelled': 'This meeting has been cancelled.',
+	'manage.cancelledSuccess': 'Your meeting has been cancelled.',
+	'manage.rescheduledSuccess': 'Your meeting has been rescheduled.',
+	'manage.genericError': 'Something went wrong',
+	'manage.reschedule': 'Reschedule',
+	'manage.cancelMeeting': 'Cancel meeting',
+	'manage.confirmCancel': 'Are you sure you want to cancel this meeting?',
+	'manage.cancelling': 'Cancelling...',
+	'manage.yesCancel': 'Yes, cancel',
+	'manage.keepMeeting': 'Keep meeting',
+	'manage.pickNewTime': 'Pick a new time',
+	'manage.back': 'Back',
+	'manage.moveTo': 'Move your meeting to {time} on {date}?',
+	'manage.rescheduling': 'Rescheduling...',
+	'manage.confirmNewTime': 'Confirm new time',
+	'manage.chooseAnother': 'Choose another',
+
+	'footer.tagline': 'Empowering businesses with innovative solutions.',
+	'footer.contact': 'Contact',
+	'footer.rights': '© {year} ACME Team. All rights reserved.'
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+/** A complete catalog */
+export type Messages = Record<MessageKey, Message>;
+
+export default en as Messages;
@@ -0,0 +1,145 @@
+/**
+ * French messages
+ */
+
+import type { Messages } from './en';
+
+const fr: Messages = {
+	'format.fullDate': 'EEEE d MMMM yyyy',
+	'format.weekdayMonthDay': 'EEEE d MMMM',
+	'format.weekdayDay': 'EEEE d',
+	'format.monthYear': 'MMMM yyyy',
+	'format.dayMonth': 'd MMM',
+	'format.dayMonthYear': 'd MMM yyyy',
+
+	'bookings.title': 'Réservez un créneau avec l’équipe ACME',
+	'bookings.description':
+		'Choisissez un horaire qui vous convient et réservez immédiatement. Pas d’e-mails, pas d’attente. Cet appel nous permettra de comprendre vos objectifs, de répondre à vos questions et de décider de la suite.',
+
+	'scheduler.minutes': '{count} minutes',
+	'scheduler.meetingLength': 'Durée de la réunion',
+	'scheduler.meetingScheduled': 'Réunion planifiée',
+	'scheduler.withHosts': 'avec {hosts}',
+	'scheduler.defaultHost': 'un représentant ACME',
+	'scheduler.guests': 'Invités',
+	'scheduler.cancelOrReschedule': 'Annuler ou reprogrammer',
+	'scheduler.errorTitle': 'Erreur de chargement des disponibilités',
+	'scheduler.empty': 'Aucune disponibilité',
+	'scheduler.emptyHint': 'Merci de réessayer plus tard',
+	'scheduler.selectedDate': '{date} ({duration} min)',
+	'scheduler.slotsAnnouncement': {
+		one: '{count} horaire disponible le {date}',
+		other: '{count} horaires disponibles le {date}'
+	},
+	'scheduler.calendarView': 'Affichage du calendrier',
+	'scheduler.view.month': 'Mois',
+	'scheduler.view.week': 'Semaine',
+	'scheduler.clock': 'Format de l’heure',
+	'scheduler.clock.12': '12 h',
+	'scheduler.clock.24': '24 h',
+	'scheduler.nextAvailable': 'Prochaine date disponible',
+	'scheduler.noLaterAvailability': 'Plus aucune date disponible',
+
+	'event.title': 'Réunion avec ACME Industries Ltd',
+	'event.manageDescription': 'Un changement ? Annulez ou reprogrammez : {url}',
+
+	'calendar.previousMonth': 'Mois précédent',
+	'calendar.nextMonth': 'Mois suivant',
+	'calendar.previousWeek': 'Semaine précédente',
+	'calendar.nextWeek': 'Semaine suivante',
+	'calendar.yourBooking': '{date}, votre réservation',
+	'calendar.noTimes': 'Aucun horaire',
+
+	'slots.empty': 'Aucun créneau de {duration} minutes disponible à cette date',
+
+	'soonest.title': 'Premiers horaires disponibles',
+	'soonest.hint': 'Réservez le prochain créneau libre en un clic.',
+
+	'duration.label': 'Durée de la réunion',
+	'duration.option': '{count} min',
+
+	'timezone.label': 'Fuseau horaire',
+	'timezone.placeholder': 'Rechercher une ville, un pays ou une abréviation',
+	'timezone.list': 'Fuseaux horaires',
+	'timezone.results': 'Résultats',
+	'timezone.suggested': 'Suggestions',
+	'timezone.local': 'Mon heure locale',
+	'timezone.org': 'Heure locale d’ACME',
+	'timezone.noMatch': 'Aucun fuseau horaire ne correspond à « {query} »',
+
+	'drawer.close': 'Fermer',
+	'drawer.title': 'Confirmer la réunion',
+	'drawer.selectedTime': 'Horaire choisi',
+	'drawer.durationAndOffset': '{duration} min · {offset}',
+	'drawer.localTime': 'Dans votre heure locale',
+	'drawer.changeTime': 'Changer d’horaire',
+	'drawer.conflictTitle': 'Cet horaire n’est plus disponible',
+	'drawer.conflictBody': 'Quelqu’un vient de le réserver. Merci de choisir un autre horaire.',
+	'drawer.name': 'Nom',
+	'drawer.namePlaceholder': 'Saisissez votre nom complet',
+	'drawer.email': 'E-mail',
+	'drawer.emailPlaceholder': 'Saisissez votre adresse e-mail',
+	'drawer.emailInvalid': 'Merci de saisir une adresse e-mail valide',
+	'drawer.guests': 'Invités',
+	'drawer.guestLabel': 'E-mail de l’invité {number}',
+	'drawer.guestPlaceholder': 'Adresse e-mail de l’invité',
+	'drawer.removeGuest': 'Retirer l’invité {number}',
+	'drawer.addGuest': '+ Ajouter un invité',
+	'drawer.maxGuests': 'Vous pouvez inviter jusqu’à {count} personnes.',
+	'drawer.genericError':
+		'Une erreur est survenue lors de la réservation de votre réunion. Merci de réessayer.',
+	'drawer.inviteNotice':
+		'En confirmant cette réunion, vous recevrez une invitation d’agenda et un e-mail de confirmation.',
+	'drawer.confirmedTitle': 'Réunion confirmée !',
+	'drawer.sentTo': 'Une invitation d’agenda et une confirmation ont été envoyées à {email}.',
+	'drawer.guestsInvited': {
+		one: 'Votre invité a également été convié.',
+		other: 'Vos invités ont également été conviés.'
+	},
+	'drawer.confirming': 'Confirmation…',
+	'drawer.confirm': 'Confirmer la réunion',
+	'drawer.pickAnother': 'Choisir un autre horaire',
+	'drawer.done': 'Terminé',
+
+	'guestError.invalid_email': 'Merci de saisir une adresse e-mail valide',
+	'guestError.own_email': 'C’est déjà votre adresse e-mail',
+	'guestError.duplicate_email': 'Cet invité a déjà été ajouté',
+
+	'question.optional': '(facultatif)',
+	'question.selectOption': 'Choisissez une option',
+	'answerError.required': 'Ce champ est obligatoire',
+	'answerError.unchecked': 'Cette case doit être cochée',
+	'answerError.invalid_option': 'Merci de choisir l’une des options',
+	'answerError.invalid_phone': 'Merci de saisir un numéro de téléphone valide',
+	'answerError.too_long': 'Merci de ne pas dépasser {max} caractères',
+	'answerError.invalid_answer': 'Réponse non valide',
+
+	'addToCalendar.title': 'Ajouter à l’agenda',
+
+	'manage.pageTitle': 'Gérer votre réservation | ACME Industries Ltd',
+	'manage.title': 'Gérer votre réservation',
+	'manage.meetingWith': '{meeting} avec un représentant ACME',
+	'manage.defaultMeeting': 'Réunion',
+	'manage.cancelled': 'Cette réunion a été annulée.',
+	'manage.cancelledSuccess': 'Votre réunion a été annulée.',
+	'manage.rescheduledSuccess': 'Votre réunion a été reprogrammée.',
+	'manage.genericError': 'Une erreur est survenue',
+	'manage.reschedule': 'Reprogrammer',
+	'manage.cancelMeeting': 'Annuler la réunion',
+	'manage.confirmCancel': 'Voulez-vous vraiment annuler cette réunion ?',
+	'manage.cancelling': 'Annulation…',
+	'manage.yesCancel': 'Oui, annuler',
+	'manage.keepMeeting': 'Conserver la réunion',
+	'manage.pickNewTime': 'Choisir un nouvel horaire',
+	'manage.back': 'Retour',
+	'manage.moveTo': 'Déplacer votre réunion à {time} le {date} ?',
+	'manage.rescheduling': 'Reprogrammation…',
+	'manage.confirmNewTime': 'Confirmer le nouvel horaire',
+	'manage.chooseAnother': 'Choisir un autre',
+
+	'footer.tagline': 'Des solutions innovantes au service des entreprises.',
+	'footer.contact': 'Contact',
+	'footer.rights': '© {year} ACME Team. Tous droits réservés.'
+};
+
+export default fr;
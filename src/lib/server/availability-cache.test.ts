@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	createAvailabilityCache,
+	getAvailabilityCacheKey,
+	getAvailabilityCacheOptionsFromEnv,
+	normaliseAvailabilityQuery
+} from './availability-cache';
+import type { AvailabilityResponse } from '$lib/utils/availability';
+
+/**
+ * Creates a cache with a controllable clock and a loader returning numbered responses
+ */
+function setup(ttlMs = 1000, staleMs = 1000, maxEntries = 10) {
+	let time = 0;
+	let calls = 0;
+	const load = vi.fn(
+		async (): Promise<AvailabilityResponse> => ({ timezone: `load-${++calls}`, slots: [] })
+	);
+	const cache = createAvailabilityCache({ ttlMs, staleMs, maxEntries, now: () => time });
+
+	return {
+		cache,
+		load,
+		advance: (ms: number) => {
+			time += ms;
+		}
+	};
+}
+
+describe('getAvailabilityCacheOptionsFromEnv', () => {
+	it('should use defaults and reject negative values', () => {
+		expect(getAvailabilityCacheOptionsFromEnv({})).toEqual({
+			ttlMs: 30_000,
+			staleMs: 60_000,
+			maxEntries: 500
+		});
+		expect(() => getAvailabilityCacheOptionsFromEnv({ AVAILABILITY_CACHE_TTL_MS: '-1' })).toThrow();
+		expect(() =>
+			getAvailabilityCacheOptionsFromEnv({ AVAILABILITY_CACHE_STALE_MS: 'x' })
+		).toThrow();
+	});
+});
+
+describe('getAvailabilityCacheKey', () => {
+	it('should share a key between equivalent ranges', () => {
+		const a = normaliseAvailabilityQuery({ start: '2025-12-01', end: '2025-12-31' });
+		const b = normaliseAvailabilityQuery({ start: ' 2025-12-01T00:00 ', end: '2025-12-31' });
+		expect(getAvailabilityCacheKey(a, 'demo')).toBe(getAvailabilityCacheKey(b, 'demo'));
+		expect(getAvailabilityCacheKey(a, 'demo')).not.toBe(getAvailabilityCacheKey(a));
+		expect(getAvailabilityCacheKey(a, 'demo', 'globex')).not.toBe(
+			getAvailabilityCacheKey(a, 'demo')
+		);
+	});
+
+	it('should keep values that are not dates', () => {
+		expect(normaliseAvailabilityQuery({ start: 'soon', end: '' })).toEqual({
+			start: 'soon',
+			end: undefined
+		});
+	});
+});
+
+describe('createAvailabilityCache', () => {
+	it('should serve fresh responses from the cache', async () => {
+		const { cache, load, advance } = setup();
+
+		expect(await cache.get('dec', load)).toEqual({
+			value: { timezone: 'load-1', slots: [] },
+			status: 'miss'
+		});
+		advance(999);
+		expect((await cache.get('dec', load)).status).toBe('hit');
+		expect(load).toHaveBeenCalledTimes(1);
+	});
+
+	it('should serve stale responses while refreshing in the background', async () => {
+		const { cache, load, advance } = setup();
+
+		await cache.get('dec', load);
+		advance(1500);
+		expect(await cache.get('dec', load)).toEqual({
+			value: { timezone: 'load-1', slots: [] },
+			status: 'stale'
+		});
+		await cache.settle();
+		expect(await cache.get('dec', load)).toEqual({
+			value: { timezone: 'load-2', slots: [] },
+			status: 'hit'
+		});
+	});
+
+	it('should reload responses past the stale window', async () => {
+		const { cache, load, advance } = setup();
+
+		await cache.get('dec', load);
+		advance(2000);
+		expect(await cache.get('dec', load)).toEqual({
+			value: { timezone: 'load-2', slots: [] },
+			status: 'miss'
+		});
+	});
+
+	it('should share one load between concurrent requests', async () => {
+		const { cache, load } = setup();
+
+		const results = await Promise.all([cache.get('dec', load), cache.get('dec', load)]);
+		expect(results[0].value).toBe(results[1].value);
+		expect(load).toHaveBeenCalledTimes(1);
+	});
+
+	it('should not cache failed loads', async () => {
+		const { cache, load } = setup();
+		load.mockRejectedValueOnce(new Error('Provider down'));
+
+		await expect(cache.get('dec', load)).rejects.toThrow('Provider down');
+		expect((await cache.get('dec', load)).status).toBe('miss');
+	});
+
+	it('should keep stale responses when a refresh fails', async () => {
+		const { cache, load, advance } = setup();
+		const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+		await cache.get('dec', load);
+		advance(1500);
+		load.mockRejectedValueOnce(new Error('Provider down'));
+		await cache.get('dec', load);
+		await cache.settle();
+
+		expect(await cache.get('dec', load)).toEqual({
+			value: { timezone: 'load-1', slots: [] },
+			status: 'stale'
+		});
+		consoleError.mockRestore();
+	});
+
+	it('should drop responses and in-progress loads on invalidation', async () => {
+		const { cache, load } = setup();
+
+		await cache.get('dec', load);
+		const pending = cache.get('jan', load);
+		cache.invalidate();
+		await pending;
+
+		expect((await cache.get('dec', load)).status).toBe('miss');
+		expect((await cache.get('jan', load)).status).toBe('miss');
+		expect(load).toHaveBeenCalledTimes(4);
+	});
+
+	it('should drop the oldest entry when full', async () => {
+		const { cache, load } = setup(1000, 1000, 2);
+
+		await cache.get('dec', load);
+		await cache.get('jan', load);
+		await cache.get('feb', load);
+
+		expect((await cache.get('jan', load)).status).toBe('hit');
+		expect((await cache.get('dec', load)).status).toBe('miss');
+	});
+
+	it('should not store responses when the TTL is 0', async () => {
+		const { cache, load } = setup(0, 0);
+
+		await cache.get('dec', load);
+		expect((await cache.get('dec', load)).status).toBe('miss');
+		expect(load).toHaveBeenCalledTimes(2);
+	});
+});
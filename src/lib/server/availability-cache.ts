@@ -0,0 +1,188 @@
+/**
+ * Availability response cache
+ * Keeps recent availability responses in server memory so month navigation does
+ * not hit the booking provider every time. Fresh entries are served as they are;
+ * stale ones are served while a background refresh runs, and concurrent loads of
+ * the same range share one provider request.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import type { AvailabilityResponse } from '$lib/utils/availability';
+import type { AvailabilityQuery } from './provider';
+
+/**
+ * How a cached response was served
+ * - hit: fresh from the cache
+ * - stale: from the cache while it is refreshed in the background
+ * - miss: loaded from the provider, or from a load already in progress
+ */
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface AvailabilityCacheOptions {
+	/** How long a response is served without refreshing */
+	ttlMs: number;
+	/** How long after going stale a response is still served while it refreshes */
+	staleMs: number;
+	/** Most ranges kept; the least recently stored are dropped first */
+	maxEntries: number;
+	/** Clock in epoch milliseconds, replaceable in tests */
+	now?: () => number;
+}
+
+/**
+ * Cache of availability responses keyed by range
+ */
+export interface AvailabilityCache {
+	/**
+	 * Returns the cached response for a key, loading it when missing or expired
+	 * @throws Whatever `load` throws when there is no usable cached response
+	 */
+	get(
+		key: string,
+		load: () => Promise<AvailabilityResponse>
+	): Promise<{ value: AvailabilityResponse; status: CacheStatus }>;
+	/** Drops every cached response and ignores loads already in progress */
+	invalidate(): void;
+	/** Resolves once every load in progress has finished, for tests */
+	settle(): Promise<void>;
+}
+
+interface CacheEntry {
+	value: AvailabilityResponse;
+	/** Epoch milliseconds the response was loaded at */
+	loadedAt: number;
+}
+
+/**
+ * Reads availability cache options from environment variables
+ *
+ * - AVAILABILITY_CACHE_TTL_MS: how long responses are fresh (default 30000, 0 disables caching)
+ * - AVAILABILITY_CACHE_STALE_MS: how long stale responses are served while refreshing (default 60000)
+ *
+ * @throws Error when a variable is not a non-negative number
+ */
+export function getAvailabilityCacheOptionsFromEnv(
+	env: Record<string, string | undefined>
+): AvailabilityCacheOptions {
+	const ttlMs = Number(env.AVAILABILITY_CACHE_TTL_MS || 30_000);
+	const staleMs = Number(env.AVAILABILITY_CACHE_STALE_MS || 60_000);
+	if (!(ttlMs >= 0) || !(staleMs >= 0)) {
+		throw new Error('AVAILABILITY_CACHE_TTL_MS and AVAILABILITY_CACHE_STALE_MS must be >= 0');
+	}
+
+	return { ttlMs, staleMs, maxEntries: 500 };
+}
+
+/**
+ * Normalises a date param to YYYY-MM-DD so equivalent ranges share a cache entry.
+ * Values that are not dates are kept as they are for the provider to reject.
+ */
+function normaliseDate(value: string | undefined): string | undefined {
+	const trimmed = value?.trim();
+	if (!trimmed) return undefined;
+
+	const date = parseISO(trimmed);
+	return isValid(date) ? format(date, 'yyyy-MM-dd') : trimmed;
+}
+
+/**
+ * Normalises an availability query's dates
+ *
+ * @example
+ * normaliseAvailabilityQuery({ start: '2025-12-01T00:00', end: ' 2025-12-31 ' })
+ * // { start: '2025-12-01', end: '2025-12-31' }
+ */
+export function normaliseAvailabilityQuery(query: AvailabilityQuery): AvailabilityQuery {
+	return {
+		...query,
+		start: normaliseDate(query.start),
+		end: normaliseDate(query.end)
+	};
+}
+
+/**
+ * Builds the cache key for a normalised query, the meeting type whose rules apply
+ * and the tenant it was loaded for
+ *
+ * @example
+ * getAvailabilityCacheKey({ start: '2025-12-01', end: '2025-12-31' }, 'demo')
+ * // '|demo|2025-12-01|2025-12-31|'
+ */
+export function getAvailabilityCacheKey(
+	query: AvailabilityQuery,
+	meetingType = '',
+	tenant = ''
+): string {
+	return [tenant, meetingType, query.start ?? '', query.end ?? '', query.host ?? ''].join('|');
+}
+
+/**
+ * Creates an availability cache
+ */
+export function createAvailabilityCache(options: AvailabilityCacheOptions): AvailabilityCache {
+	const { ttlMs, staleMs, maxEntries, now = Date.now } = options;
+	const entries = new Map<string, CacheEntry>();
+	const loading = new Map<string, Promise<AvailabilityResponse>>();
+	// Bumped on invalidation so loads started before it are not stored
+	let generation = 0;
+
+	function store(key: string, value: AvailabilityResponse) {
+		entries.delete(key);
+		entries.set(key, { value, loadedAt: now() });
+
+		if (entries.size > maxEntries) {
+			const oldest = entries.keys().next().value;
+			if (oldest !== undefined) entries.delete(oldest);
+		}
+	}
+
+	/**
+	 * Loads a key, joining the load already in progress for it if there is one
+	 */
+	function load(key: string, loader: () => Promise<AvailabilityResponse>) {
+		const pending = loading.get(key);
+		if (pending) return pending;
+
+		const startedGeneration = generation;
+		const promise = loader()
+			.then((value) => {
+				if (ttlMs > 0 && generation === startedGeneration) store(key, value);
+				return value;
+			})
+			.finally(() => {
+				if (loading.get(key) === promise) loading.delete(key);
+			});
+		loading.set(key, promise);
+		return promise;
+	}
+
+	return {
+		async get(key, loader) {
+			const entry = entries.get(key);
+			const age = entry ? now() - entry.loadedAt : Infinity;
+
+			if (entry && age < ttlMs) {
+				return { value: entry.value, status: 'hit' };
+			}
+
+			if (entry && age < ttlMs + staleMs) {
+				load(key, loader).catch((error) => {
+					console.error('Availability refresh failed:', error);
+				});
+				return { value: entry.value, status: 'stale' };
+			}
+
+			return { value: await load(key, loader), status: 'miss' };
+		},
+
+		invalidate() {
+			generation++;
+			entries.clear();
+			loading.clear();
+		},
+
+		async settle() {
+			await Promise.allSettled(loading.values());
+		}
+	};
+}
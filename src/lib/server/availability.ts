@@ -0,0 +1,295 @@
+/**
+ * Server-side availability checks
+ * Applies scheduling rules to provider availability, combines team hosts' availability,
+ * caches it for booking pages, revalidates requested slots against the booking provider's
+ * current availability and assigns team hosts
+ */
+
+import { env } from '$env/dynamic/private';
+import { formatInTimeZone } from 'date-fns-tz';
+import { addDays } from 'date-fns';
+import type { MeetingTeam, MeetingType } from '$lib/api/meeting-types';
+import { formatDateKey, isSlotAvailable, type AvailabilityResponse } from '$lib/utils/availability';
+import {
+	applySchedulingRules,
+	countMeetingsPerDay,
+	DEFAULT_SCHEDULING_RULES,
+	getSchedulingRuleError,
+	type SchedulingRules
+} from '$lib/utils/scheduling-rules';
+import { combineAvailability } from '$lib/utils/team-availability';
+import { getProvider, type AvailabilityQuery } from '$lib/server/provider';
+import { pickHost } from '$lib/server/host-assignment';
+import { getCurrentTenant } from '$lib/server/tenant';
+import {
+	createAvailabilityCache,
+	getAvailabilityCacheKey,
+	getAvailabilityCacheOptionsFromEnv,
+	normaliseAvailabilityQuery,
+	type AvailabilityCache,
+	type CacheStatus
+} from '$lib/server/availability-cache';
+
+/** Days either side of a meeting whose meetings count towards host load */
+const ASSIGNMENT_WINDOW_DAYS = 30;
+
+/**
+ * Loads availability for a date range with scheduling rules applied.
+ * For a team, each host's availability is loaded and limited separately, then
+ * combined by the team's mode. Meetings are only fetched when the rules limit
+ * meetings per day.
+ *
+ * @param query - Date range to load
+ * @param rules - Scheduling rules to apply
+ * @param team - Hosts sharing the booking link, if any
+ * @param now - Current time
+ * @throws AvailabilityApiError when availability cannot be loaded
+ * @throws MeetingsApiError when meetings cannot be listed
+ */
+export async function getBookableAvailability(
+	query: AvailabilityQuery,
+	rules: SchedulingRules,
+	team?: MeetingTeam,
+	now = new Date()
+): Promise<AvailabilityResponse> {
+	if (team) {
+		const hostAvailability = await Promise.all(
+			team.hosts.map((host) => getBookableAvailability({ ...query, host }, rules, undefined, now))
+		);
+
+		return {
+			timezone: hostAvailability[0]?.timezone ?? 'UTC',
+			slots: combineAvailability(
+				team.mode,
+				hostAvailability.map((availability) => availability.slots)
+			)
+		};
+	}
+
+	const provider = getProvider();
+	const availability = await provider.getAvailability(query);
+
+	const meetingsPerDay =
+		rules.maxPerDay !== null
+			? countMeetingsPerDay(await provider.listMeetings(query), availability.timezone)
+			: undefined;
+
+	return {
+		...availability,
+		slots: applySchedulingRules(availability.slots, rules, {
+			now,
+			timeZone: availability.timezone,
+			meetingsPerDay
+		})
+	};
+}
+
+let availabilityCache: AvailabilityCache | undefined;
+
+/**
+ * Returns the availability cache, creating it on first use
+ *
+ * @throws Error when the cache env variables are malformed
+ */
+function getAvailabilityCache(): AvailabilityCache {
+	availabilityCache ??= createAvailabilityCache(getAvailabilityCacheOptionsFromEnv(env));
+	return availabilityCache;
+}
+
+/**
+ * Loads a meeting type's bookable availability through the availability cache.
+ * Cached responses can be up to the cache TTL out of date, so bookings must still
+ * be revalidated with revalidateMeeting before they are made.
+ *
+ * @param query - Date range to load
+ * @param meetingType - Meeting type whose scheduling rules and team apply, if any
+ * @returns The availability and how it was served
+ * @throws AvailabilityApiError when availability cannot be loaded
+ * @throws MeetingsApiError when meetings cannot be listed
+ */
+export async function getCachedAvailability(
+	query: AvailabilityQuery,
+	meetingType?: MeetingType
+): Promise<{ availability: AvailabilityResponse; status: CacheStatus }> {
+	const normalised = normaliseAvailabilityQuery(query);
+	const { value, status } = await getAvailabilityCache().get(
+		// Tenants have their own upstream accounts, so they never share cached availability
+		getAvailabilityCacheKey(normalised, meetingType?.slug, getCurrentTenant()),
+		() =>
+			getBookableAvailability(
+				normalised,
+				meetingType?.rules ?? DEFAULT_SCHEDULING_RULES,
+				meetingType?.team
+			)
+	);
+
+	return { availability: value, status };
+}
+
+/**
+ * Drops cached availability after a meeting is booked, rescheduled or cancelled
+ */
+export function invalidateAvailability() {
+	availabilityCache?.invalidate();
+}
+
+/**
+ * Options for revalidating a requested meeting
+ */
+export interface SlotCheckOptions {
+	/** Minutes that must also be free before and after the meeting */
+	buffer?: { before?: number; after?: number };
+	/** Scheduling rules the meeting must satisfy */
+	rules: SchedulingRules;
+	/** Team host to check; the organisation's availability is checked when omitted */
+	host?: string;
+	/** Meeting being rescheduled, left out of the daily count */
+	excludeMeetingId?: string;
+	/** Current time */
+	now?: Date;
+}
+
+/**
+ * Revalidates a requested meeting against the scheduling rules and fresh availability
+ * from the provider. Fetches the days either side so slots near midnight are covered
+ * in any timezone.
+ *
+ * @param start - Meeting start
+ * @param end - Meeting end
+ * @param options - Buffers, scheduling rules and the meeting being rescheduled
+ * @returns A message explaining why the slot cannot be booked, or null when it can
+ * @throws AvailabilityApiError when availability cannot be loaded
+ * @throws MeetingsApiError when meetings cannot be listed
+ */
+export async function getSlotConflict(
+	start: Date,
+	end: Date,
+	options: SlotCheckOptions
+): Promise<string | null> {
+	const { buffer = {}, rules, host, excludeMeetingId, now = new Date() } = options;
+	const provider = getProvider();
+
+	const { timezone, slots } = await provider.getAvailability({
+		start: formatInTimeZone(addDays(start, -1), 'UTC', 'yyyy-MM-dd'),
+		end: formatInTimeZone(addDays(end, 1), 'UTC', 'yyyy-MM-dd'),
+		host
+	});
+
+	// Count the host's, or the organisation's, meetings on the meeting's day for the daily limit
+	let meetingsOnDay = 0;
+	if (rules.maxPerDay !== null) {
+		const day = formatDateKey(start, timezone);
+		const meetings = await provider.listMeetings({ start: day, end: day, host });
+		meetingsOnDay =
+			countMeetingsPerDay(
+				meetings.filter((meeting) => meeting.id !== excludeMeetingId),
+				timezone
+			)[day] ?? 0;
+	}
+
+	const ruleError = getSchedulingRuleError(start, rules, {
+		now,
+		timeZone: timezone,
+		meetingsOnDay
+	});
+	if (ruleError) return ruleError;
+
+	return isSlotAvailable(slots, start, end, buffer) ? null : 'This time is no longer available';
+}
+
+/**
+ * Outcome of assigning team hosts to a meeting
+ */
+export type HostAssignmentResult = { hostIds: string[] } | { conflict: string };
+
+/**
+ * Revalidates a requested meeting for each team host and assigns hosts to it.
+ * Collective meetings need every host free. Round-robin meetings go to one free
+ * host, chosen by the team's assignment strategy.
+ *
+ * @param start - Meeting start
+ * @param end - Meeting end
+ * @param team - Hosts sharing the booking link
+ * @param options - Buffers, scheduling rules, the meeting being rescheduled, the
+ *   hosts to keep when they are still free and the hosts not held by other visitors
+ * @throws AvailabilityApiError when availability cannot be loaded
+ * @throws MeetingsApiError when meetings cannot be listed
+ */
+export async function assignHosts(
+	start: Date,
+	end: Date,
+	team: MeetingTeam,
+	options: Omit<SlotCheckOptions, 'host'> & {
+		preferredHostIds?: string[];
+		availableHostIds?: string[];
+	}
+): Promise<HostAssignmentResult> {
+	const conflicts = await Promise.all(
+		team.hosts.map((host) =>
+			options.availableHostIds && !options.availableHostIds.includes(host)
+				? 'Someone else is booking this time'
+				: getSlotConflict(start, end, { ...options, host })
+		)
+	);
+	const freeHosts = team.hosts.filter((_, index) => conflicts[index] === null);
+	const conflict = conflicts.find((message) => message !== null) ?? 'No hosts are available';
+
+	if (team.mode === 'collective') {
+		return freeHosts.length === team.hosts.length ? { hostIds: freeHosts } : { conflict };
+	}
+
+	if (freeHosts.length === 0) return { conflict };
+
+	// A rescheduled meeting stays with its host while they are free
+	const preferred = options.preferredHostIds?.find((host) => freeHosts.includes(host));
+	if (preferred) return { hostIds: [preferred] };
+
+	const meetings = await getProvider().listMeetings({
+		start: formatInTimeZone(addDays(start, -ASSIGNMENT_WINDOW_DAYS), 'UTC', 'yyyy-MM-dd'),
+		end: formatInTimeZone(addDays(start, ASSIGNMENT_WINDOW_DAYS), 'UTC', 'yyyy-MM-dd')
+	});
+	const host = pickHost(
+		freeHosts,
+		meetings.filter((meeting) => meeting.id !== options.excludeMeetingId),
+		team.assignment
+	);
+
+	return host ? { hostIds: [host] } : { conflict };
+}
+
+/**
+ * Revalidates a requested meeting with its meeting type's buffers and scheduling rules,
+ * assigning hosts when the meeting type has a team
+ *
+ * @param start - Meeting start
+ * @param end - Meeting end
+ * @param meetingType - Meeting type being booked, if any
+ * @param options - The meeting being rescheduled, the hosts to keep when still free
+ *   and the hosts not held by other visitors
+ * @returns The conflict, or the assigned host IDs (empty without a team)
+ * @throws AvailabilityApiError when availability cannot be loaded
+ * @throws MeetingsApiError when meetings cannot be listed
+ */
+export async function revalidateMeeting(
+	start: Date,
+	end: Date,
+	meetingType: MeetingType | undefined,
+	options: {
+		excludeMeetingId?: string;
+		preferredHostIds?: string[];
+		availableHostIds?: string[];
+	} = {}
+): Promise<HostAssignmentResult> {
+	const slotOptions = {
+		buffer: meetingType?.buffer,
+		rules: meetingType?.rules ?? DEFAULT_SCHEDULING_RULES,
+		...options
+	};
+
+	if (meetingType?.team) {
+		return assignHosts(start, end, meetingType.team, slotOptions);
+	}
+
+	const conflict = await getSlotConflict(start, end, slotOptions);
+	return conflict ? { conflict } : { hostIds: [] };
+}
@@ -0,0 +1,47 @@
+/**
+ * Calendar events for booked meetings
+ * Shared by the .ics download and the emails that attach it, so both describe
+ * the same event and calendar apps update one entry.
+ */
+
+import { env } from '$env/dynamic/private';
+import type { Booking } from '$lib/api/bookings';
+import type { CalendarEvent, CalendarParticipant } from '$lib/utils/ics';
+import { getManagePath } from '$lib/server/manage-token';
+import { getMeetingType } from '$lib/server/meeting-types';
+
+/**
+ * Returns the organizer shown in invites and used as the email sender
+ */
+export function getOrganizer(): CalendarParticipant {
+	return {
+		name: env.ORGANIZER_NAME || 'ACME Industries Ltd',
+		email: env.ORGANIZER_EMAIL || 'bookings@acme.example'
+	};
+}
+
+/**
+ * Builds the calendar event for a booking
+ *
+ * @param booking - Booking to describe
+ * @param origin - Site origin, used for the UID host and the manage link
+ * @param timezone - IANA timezone the event times are written in
+ */
+export function toCalendarEvent(booking: Booking, origin: string, timezone: string): CalendarEvent {
+	const meetingType = booking.meetingType ? getMeetingType(booking.meetingType) : undefined;
+
+	return {
+		uid: `${booking.id}@${new URL(origin).hostname}`,
+		title: meetingType?.title ?? 'Meeting with ACME Industries Ltd',
+		start: new Date(booking.start),
+		end: new Date(booking.end),
+		timezone,
+		description: `Need to make a change? Cancel or reschedule: ${origin}${getManagePath(booking.id)}`,
+		location: meetingType?.location.details,
+		organizer: getOrganizer(),
+		attendees: booking.attendees,
+		status: booking.status,
+		// Seconds since the epoch always increase, so each change supersedes the last
+		sequence: booking.updatedAt ? Math.floor(new Date(booking.updatedAt).getTime() / 1000) : 0
+	};
+}
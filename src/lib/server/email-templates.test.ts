@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { renderBookingEmail, type BookingEmailDetails } from './email-templates';
+
+const details: BookingEmailDetails = {
+	kind: 'confirmation',
+	title: 'Product demo',
+	start: new Date('2025-12-16T15:00:00Z'),
+	end: new Date('2025-12-16T16:00:00Z'),
+	timezone: 'America/New_York',
+	recipientName: 'Ada',
+	location: 'Google Meet link sent with the calendar invite',
+	hosts: ['Sam Okafor'],
+	manageUrl: 'https://book.acme.example/bookings/manage/abc.def',
+	organizerName: 'ACME Industries Ltd'
+};
+
+describe('renderBookingEmail', () => {
+	it('should render a confirmation in the recipient timezone', () => {
+		const email = renderBookingEmail(details);
+		expect(email.subject).toBe('Confirmed: Product demo on Tuesday, December 16, 2025');
+		expect(email.text).toContain('Hi Ada,');
+		expect(email.text).toContain('When: Tuesday, December 16, 2025, 10:00 am - 11:00 am');
+		expect(email.text).toContain('Timezone: America/New_York (UTC-5)');
+		expect(email.text).toContain('With: Sam Okafor');
+		expect(email.text).toContain(`Cancel or reschedule: ${details.manageUrl}`);
+		expect(email.html).toContain(`href="${details.manageUrl}"`);
+	});
+
+	it('should use a headline for each kind', () => {
+		expect(renderBookingEmail({ ...details, kind: 'reschedule' }).subject).toMatch(/^Rescheduled:/);
+		expect(renderBookingEmail({ ...details, kind: 'cancellation' }).subject).toMatch(/^Cancelled:/);
+
+		const reminder = renderBookingEmail({ ...details, kind: 'reminder', reminderLead: '1 hour' });
+		expect(reminder.subject).toMatch(/^Reminder:/);
+		expect(reminder.text).toContain('Your meeting starts in 1 hour');
+	});
+
+	it('should leave the manage link out of cancellations', () => {
+		const email = renderBookingEmail({ ...details, kind: 'cancellation' });
+		expect(email.text).not.toContain(details.manageUrl);
+		expect(email.html).not.toContain(details.manageUrl);
+	});
+
+	it('should escape HTML in attendee-provided text', () => {
+		const email = renderBookingEmail({ ...details, recipientName: '<script>alert(1)</script>' });
+		expect(email.html).not.toContain('<script>');
+		expect(email.html).toContain('&lt;script&gt;');
+	});
+
+	it('should greet without a name when it is unknown', () => {
+		expect(renderBookingEmail({ ...details, recipientName: null }).text).toMatch(/^Hi,/);
+	});
+});
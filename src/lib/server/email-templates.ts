@@ -0,0 +1,150 @@
+/**
+ * Booking email templates
+ * Renders the subject, plain text and HTML bodies of the emails sent to attendees
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { getTimezoneOffsetLabel } from '$lib/utils/timezone';
+
+/**
+ * Emails sent over a booking's life
+ */
+export type NotificationKind = 'confirmation' | 'reschedule' | 'cancellation' | 'reminder';
+
+/**
+ * Meeting details shown in a booking email
+ */
+export interface BookingEmailDetails {
+	kind: NotificationKind;
+	/** Meeting title (e.g. the meeting type's title) */
+	title: string;
+	start: Date;
+	end: Date;
+	/** IANA timezone times are shown in */
+	timezone: string;
+	/** Name used in the greeting; omitted when unknown */
+	recipientName: string | null;
+	location?: string;
+	/** Names of the team hosts taking the meeting */
+	hosts: string[];
+	/** Signed link for cancelling or rescheduling; not shown for cancellations */
+	manageUrl?: string;
+	/** How long until the meeting, for reminders (e.g. "1 hour") */
+	reminderLead?: string;
+	/** Sender shown in the sign-off */
+	organizerName: string;
+}
+
+/**
+ * A rendered email
+ */
+export interface RenderedEmail {
+	subject: string;
+	text: string;
+	html: string;
+}
+
+/**
+ * Escapes text for use in HTML
+ */
+function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
+
+/**
+ * Returns the subject prefix and the headline for an email kind
+ */
+function getHeadline(details: BookingEmailDetails): { prefix: string; headline: string } {
+	switch (details.kind) {
+		case 'confirmation':
+			return { prefix: 'Confirmed', headline: 'Your meeting is confirmed' };
+		case 'reschedule':
+			return { prefix: 'Rescheduled', headline: 'Your meeting has moved to a new time' };
+		case 'cancellation':
+			return { prefix: 'Cancelled', headline: 'Your meeting has been cancelled' };
+		case 'reminder':
+			return {
+				prefix: 'Reminder',
+				headline: `Your meeting starts in ${details.reminderLead ?? 'a little while'}`
+			};
+	}
+}
+
+/**
+ * Renders a booking email as plain text and HTML
+ *
+ * @param details - Meeting details and the kind of email
+ * @returns Subject and bodies; the calendar invite is attached by the caller
+ *
+ * @example
+ * renderBookingEmail({ kind: 'confirmation', title: 'Product demo', ... }).subject
+ * // 'Confirmed: Product demo on Tuesday, December 16, 2025'
+ */
+export function renderBookingEmail(details: BookingEmailDetails): RenderedEmail {
+	const { prefix, headline } = getHeadline(details);
+	const { timezone } = details;
+
+	const date = formatInTimeZone(details.start, timezone, 'EEEE, MMMM d, yyyy');
+	const startTime = formatInTimeZone(details.start, timezone, 'h:mm a').toLowerCase();
+	const endTime = formatInTimeZone(details.end, timezone, 'h:mm a').toLowerCase();
+	const zone = `${timezone} (${getTimezoneOffsetLabel(timezone, details.start)})`;
+
+	const rows: [string, string][] = [
+		['When', `${date}, ${startTime} - ${endTime}`],
+		['Timezone', zone],
+		...(details.location ? [['Where', details.location] as [string, string]] : []),
+		...(details.hosts.length > 0 ? [['With', details.hosts.join(', ')] as [string, string]] : [])
+	];
+	const manageUrl = details.kind === 'cancellation' ? undefined : details.manageUrl;
+	const greeting = details.recipientName ? `Hi ${details.recipientName},` : 'Hi,';
+	const closing =
+		details.kind === 'cancellation'
+			? 'If this was a mistake, you can book a new time from our booking page.'
+			: 'The calendar invite is attached.';
+
+	const text = [
+		greeting,
+		'',
+		`${headline}: ${details.title}`,
+		'',
+		...rows.map(([label, value]) => `${label}: ${value}`),
+		'',
+		closing,
+		...(manageUrl ? ['', `Need to make a change? Cancel or reschedule: ${manageUrl}`] : []),
+		'',
+		details.organizerName
+	].join('\n');
+
+	const html = `<!doctype html>
+<html>
+	<body style="margin:0;padding:24px;background:#f5f5f5;font-family:Arial,Helvetica,sans-serif;color:#111">
+		<div style="max-width:560px;margin:0 auto;background:#fff;border-radius:8px;padding:24px">
+			<p>${escapeHtml(greeting)}</p>
+			<h1 style="font-size:20px;margin:16px 0">${escapeHtml(headline)}</h1>
+			<p style="font-size:16px;font-weight:bold;margin:0 0 16px">${escapeHtml(details.title)}</p>
+			<table style="border-collapse:collapse;font-size:14px">
+${rows
+	.map(
+		([label, value]) =>
+			`				<tr><td style="padding:4px 16px 4px 0;color:#666">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`
+	)
+	.join('\n')}
+			</table>
+			<p style="font-size:14px">${escapeHtml(closing)}</p>
+${
+	manageUrl
+		? `			<p style="font-size:14px"><a href="${escapeHtml(manageUrl)}">Cancel or reschedule</a></p>\n`
+		: ''
+}			<p style="font-size:14px;color:#666">${escapeHtml(details.organizerName)}</p>
+		</div>
+	</body>
+</html>
+`;
+
+	return { subject: `${prefix}: ${details.title} on ${date}`, text, html };
+}
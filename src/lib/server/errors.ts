@@ -0,0 +1,62 @@
+/**
+ * Errors raised by booking providers
+ * Routes map these to JSON error responses with the same status, a friendly
+ * message and the error code.
+ */
+
+import { json } from '@sveltejs/kit';
+import {
+	getFriendlyErrorMessage,
+	getUpstreamErrorCode,
+	type UpstreamErrorCode
+} from '$lib/api/errors';
+
+/**
+ * Error raised when the booking provider fails, times out or cannot be reached
+ */
+export class UpstreamError extends Error {
+	constructor(
+		public status: number,
+		public code: UpstreamErrorCode,
+		message: string
+	) {
+		super(message);
+		this.name = 'UpstreamError';
+	}
+}
+
+/**
+ * Error raised when a meetings request fails with a non-2xx status
+ */
+export class MeetingsApiError extends UpstreamError {
+	constructor(
+		status: number,
+		public body: string,
+		code = getUpstreamErrorCode(status)
+	) {
+		super(status, code, `External API error: ${status}`);
+		this.name = 'MeetingsApiError';
+	}
+}
+
+/**
+ * Error raised when availability cannot be loaded
+ */
+export class AvailabilityApiError extends UpstreamError {
+	constructor(status: number, message: string, code = getUpstreamErrorCode(status)) {
+		super(status, code, message);
+		this.name = 'AvailabilityApiError';
+	}
+}
+
+/**
+ * Builds the JSON response for a provider failure: `{ success: false, error, code }`
+ * with the friendly message for the code. The detailed message stays in the server logs.
+ */
+export function upstreamErrorResponse(error: UpstreamError): Response {
+	console.error(`${error.name} (${error.code}):`, error.message);
+	return json(
+		{ success: false, error: getFriendlyErrorMessage(error.code), code: error.code },
+		{ status: error.status }
+	);
+}
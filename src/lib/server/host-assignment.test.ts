@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { pickHost } from './host-assignment';
+
+const meetings = [
+	{
+		start: '2025-12-16T15:00:00Z',
+		createdAt: '2025-12-01T09:00:00Z',
+		status: 'confirmed' as const,
+		hostIds: ['sam']
+	},
+	{
+		start: '2025-12-17T15:00:00Z',
+		createdAt: '2025-12-02T09:00:00Z',
+		status: 'confirmed' as const,
+		hostIds: ['sam']
+	},
+	{
+		start: '2025-12-18T15:00:00Z',
+		createdAt: '2025-12-03T09:00:00Z',
+		status: 'confirmed' as const,
+		hostIds: ['priya']
+	}
+];
+
+describe('pickHost', () => {
+	it('should prefer hosts who have never been assigned', () => {
+		expect(pickHost(['sam', 'priya', 'alex'], meetings, 'least-recent')).toBe('alex');
+		expect(pickHost(['sam', 'priya', 'alex'], meetings, 'least-loaded')).toBe('alex');
+	});
+
+	it('should pick the host assigned longest ago for least-recent', () => {
+		expect(pickHost(['sam', 'priya'], meetings, 'least-recent')).toBe('sam');
+	});
+
+	it('should pick the host with the fewest meetings for least-loaded', () => {
+		expect(pickHost(['sam', 'priya'], meetings, 'least-loaded')).toBe('priya');
+	});
+
+	it('should not count cancelled meetings towards load', () => {
+		const cancelled = meetings.map((meeting) =>
+			meeting.hostIds.includes('sam') ? { ...meeting, status: 'cancelled' as const } : meeting
+		);
+		expect(pickHost(['sam', 'priya'], cancelled, 'least-loaded')).toBe('sam');
+	});
+
+	it('should fall back to team order and handle no candidates', () => {
+		expect(pickHost(['priya', 'alex', 'jordan'], [], 'least-loaded')).toBe('priya');
+		expect(pickHost([], meetings, 'least-recent')).toBeUndefined();
+	});
+});
@@ -0,0 +1,45 @@
+/**
+ * Fair assignment of round-robin meetings to team hosts
+ */
+
+import type { Booking } from '$lib/api/bookings';
+import type { HostAssignment } from '$lib/api/meeting-types';
+
+/**
+ * Picks the host to assign a round-robin meeting to.
+ * Ties are broken by the other measure, then by the order of the candidates.
+ *
+ * @param candidates - IDs of hosts free at the booked time, in team order
+ * @param meetings - The team's meetings around the booked time
+ * @param strategy - Least-recent favours the host assigned longest ago (never assigned first);
+ *   least-loaded favours the host with the fewest confirmed meetings
+ * @returns The chosen host ID, or undefined when there are no candidates
+ */
+export function pickHost(
+	candidates: string[],
+	meetings: Pick<Booking, 'start' | 'status' | 'hostIds' | 'createdAt'>[],
+	strategy: HostAssignment
+): string | undefined {
+	const stats = candidates.map((host, order) => {
+		const hostMeetings = meetings.filter((meeting) => meeting.hostIds?.includes(host));
+		return {
+			host,
+			order,
+			load: hostMeetings.filter((meeting) => meeting.status === 'confirmed').length,
+			// Cancelled meetings still count as an assignment
+			lastAssigned: Math.max(
+				-Infinity,
+				...hostMeetings.map((meeting) => new Date(meeting.createdAt ?? meeting.start).getTime())
+			)
+		};
+	});
+
+	stats.sort((a, b) => {
+		const byLoad = a.load - b.load;
+		const byRecency = a.lastAssigned - b.lastAssigned;
+		const [first, second] = strategy === 'least-loaded' ? [byLoad, byRecency] : [byRecency, byLoad];
+		return first || second || a.order - b.order;
+	});
+
+	return stats[0]?.host;
+}
@@ -0,0 +1,33 @@
+/**
+ * Host catalog
+ * Server-side source of truth for the team members who take meetings
+ */
+
+/**
+ * A team member who takes meetings
+ */
+export interface Host {
+	/** Stable identifier referenced by meeting type teams and stored on meetings */
+	id: string;
+	name: string;
+	email: string;
+}
+
+/**
+ * Hosts available to meeting type teams
+ */
+const HOSTS: Host[] = [
+	{ id: 'sam', name: 'Sam Okafor', email: 'sam.okafor@acme.example' },
+	{ id: 'priya', name: 'Priya Shah', email: 'priya.shah@acme.example' },
+	{ id: 'alex', name: 'Alex Moreno', email: 'alex.moreno@acme.example' },
+	{ id: 'jordan', name: 'Jordan Lee', email: 'jordan.lee@acme.example' }
+];
+
+/**
+ * Looks up a host by ID
+ * @param id - Host ID
+ * @returns The host, or undefined if none matches
+ */
+export function getHost(id: string): Host | undefined {
+	return HOSTS.find((host) => host.id === id);
+}
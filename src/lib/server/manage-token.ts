@@ -0,0 +1,70 @@
+/**
+ * Signed booking management tokens
+ * A token identifies one booking and proves the holder received its confirmation,
+ * so attendees can cancel or reschedule without an account. Tokens don't expire:
+ * a manage link stays valid for as long as its booking exists, and cancelled
+ * bookings can't be changed. Rotating BOOKING_MANAGE_SECRET invalidates every
+ * link sent so far.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+
+/**
+ * Reads the secret manage tokens are signed with
+ *
+ * @throws Error if BOOKING_MANAGE_SECRET is not set
+ */
+export function getManageSecret(): string {
+	const secret = env.BOOKING_MANAGE_SECRET;
+	if (!secret) {
+		throw new Error(
+			'Missing required environment variable: BOOKING_MANAGE_SECRET. Please check your .env file.'
+		);
+	}
+	return secret;
+}
+
+/**
+ * Computes the HMAC-SHA256 signature for a token payload
+ */
+function sign(payload: string): string {
+	return createHmac('sha256', getManageSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Creates a manage token for a booking
+ *
+ * @param bookingId - External booking ID
+ * @returns URL-safe token in the form `<payload>.<signature>`
+ */
+export function createManageToken(bookingId: string): string {
+	const payload = Buffer.from(bookingId).toString('base64url');
+	return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Verifies a manage token and extracts its booking ID
+ *
+ * @param token - Token from a manage link or request header
+ * @returns The booking ID, or null if the token is malformed or the signature does not match
+ */
+export function verifyManageToken(token: string): string | null {
+	const [payload, signature] = token.split('.');
+	if (!payload || !signature) return null;
+
+	const expected = Buffer.from(sign(payload));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		return null;
+	}
+
+	return Buffer.from(payload, 'base64url').toString();
+}
+
+/**
+ * Builds the path of the manage page for a booking
+ */
+export function getManagePath(bookingId: string): string {
+	return `/bookings/manage/${createManageToken(bookingId)}`;
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { getMeetingType, getMeetingTypes } from './meeting-types';
+
+describe('getMeetingTypes', () => {
+	it('should list published meeting types with unique slugs', () => {
+		const slugs = getMeetingTypes().map((meetingType) => meetingType.slug);
+		expect(slugs).toEqual(['intro', 'demo', 'support', 'onboarding']);
+		expect(new Set(slugs).size).toBe(slugs.length);
+	});
+});
+
+describe('getMeetingType', () => {
+	it('should find a meeting type by slug', () => {
+		const demo = getMeetingType('demo');
+		expect(demo?.title).toBe('Product demo');
+		expect(demo?.duration).toBe(60);
+	});
+
+	it('should return undefined for an unknown slug', () => {
+		expect(getMeetingType('nope')).toBeUndefined();
+		expect(getMeetingType('')).toBeUndefined();
+	});
+
+	it('should match slugs exactly', () => {
+		expect(getMeetingType('Demo')).toBeUndefined();
+		expect(getMeetingType(' demo')).toBeUndefined();
+	});
+});
@@ -0,0 +1,117 @@
+/**
+ * Meeting type catalog
+ * Server-side source of truth for the meeting types published at /bookings/[slug]
+ */
+
+import type { MeetingType } from '$lib/api/meeting-types';
+
+/**
+ * Published meeting types, in the order they should be listed
+ */
+const MEETING_TYPES: MeetingType[] = [
+	{
+		slug: 'intro',
+		title: 'Intro call with ACME',
+		description:
+			'A quick 15 minute call to introduce ACME, hear what you are working on and see if we are a good fit.',
+		duration: 15,
+		buffer: { before: 0, after: 5 },
+		rules: { minimumNotice: 4 * 60, horizonDays: 60, maxPerDay: null },
+		team: { mode: 'round-robin', hosts: ['sam', 'priya', 'alex'], assignment: 'least-loaded' },
+		location: { type: 'video', details: 'Google Meet link sent with the calendar invite' },
+		questions: []
+	},
+	{
+		slug: 'demo',
+		title: 'Product demo',
+		description:
+			'A guided walkthrough of the ACME platform tailored to your team, with plenty of time for questions.',
+		duration: 60,
+		buffer: { before: 10, after: 10 },
+		rules: { minimumNotice: 24 * 60, horizonDays: 60, maxPerDay: 4 },
+		location: { type: 'video', details: 'Google Meet link sent with the calendar invite' },
+		questions: [
+			{
+				id: 'company_size',
+				label: 'Company size',
+				type: 'select',
+				required: true,
+				options: ['1-10', '11-50', '51-200', '201-1000', '1000+']
+			},
+			{
+				id: 'agenda',
+				label: 'What would you like to cover?',
+				type: 'textarea',
+				required: false,
+				placeholder: 'Share any goals or questions for the call'
+			}
+		]
+	},
+	{
+		slug: 'support',
+		title: 'Support call',
+		description:
+			'Talk through an issue with one of our support engineers. Please have any error messages to hand.',
+		duration: 30,
+		buffer: { before: 0, after: 10 },
+		rules: { minimumNotice: 2 * 60, horizonDays: 14, maxPerDay: null },
+		location: { type: 'phone', details: 'We will call the number you provide' },
+		questions: [
+			{
+				id: 'phone',
+				label: 'Phone number',
+				type: 'phone',
+				required: true,
+				placeholder: '+44 20 7946 0000'
+			},
+			{
+				id: 'issue',
+				label: 'Describe the issue',
+				type: 'textarea',
+				required: true
+			}
+		]
+	},
+	{
+		slug: 'onboarding',
+		title: 'Onboarding session',
+		description:
+			'Get your workspace set up with an onboarding specialist, from importing data to inviting your team.',
+		duration: 90,
+		buffer: { before: 15, after: 15 },
+		rules: { minimumNotice: 2 * 24 * 60, horizonDays: 90, maxPerDay: 2 },
+		team: { mode: 'collective', hosts: ['jordan', 'priya'], assignment: 'least-recent' },
+		location: { type: 'video', details: 'Zoom link sent with the calendar invite' },
+		questions: [
+			{
+				id: 'workspace',
+				label: 'Workspace name',
+				type: 'text',
+				required: true,
+				placeholder: 'e.g. acme-corp'
+			},
+			{
+				id: 'admin_access',
+				label: 'I have admin access to our ACME workspace',
+				type: 'checkbox',
+				required: false
+			}
+		]
+	}
+];
+
+/**
+ * Returns all published meeting types
+ */
+export function getMeetingTypes(): MeetingType[] {
+	return MEETING_TYPES;
+}
+
+/**
+ * Looks up a meeting type by slug
+ * @param slug - Meeting type slug
+ * @returns The meeting type, or undefined if none matches
+ */
+export function getMeetingType(slug: string): MeetingType | undefined {
+	return MEETING_TYPES.find((meetingType) => meetingType.slug === slug);
+}
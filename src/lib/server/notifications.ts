@@ -0,0 +1,226 @@
+/**
+ * Booking notifications
+ * Emails attendees when a meeting is booked, rescheduled or cancelled, and before
+ * it starts, with the calendar invite attached. A transport delivers the email:
+ * SMTP in production, or the console or a local directory for testing. Select one
+ * with the EMAIL_TRANSPORT env variable.
+ */
+
+import { env } from '$env/dynamic/private';
+import type { Booking } from '$lib/api/bookings';
+import { buildIcs } from '$lib/utils/ics';
+import { isValidTimezone } from '$lib/utils/timezone';
+import { toCalendarEvent, getOrganizer } from '$lib/server/calendar-event';
+import { renderBookingEmail, type NotificationKind } from '$lib/server/email-templates';
+import { getHost } from '$lib/server/hosts';
+import { getManagePath } from '$lib/server/manage-token';
+import { getProvider } from '$lib/server/provider';
+import { cancelReminders, scheduleReminders, takeDueReminders } from '$lib/server/reminders';
+import { getCurrentTenant, runWithTenant } from '$lib/server/tenant';
+import { createConsoleTransport } from './transports/console';
+import { createFileTransport, DEFAULT_OUTBOX_DIR } from './transports/file';
+import { createSmtpTransport, getSmtpOptionsFromEnv } from './transports/smtp';
+
+export type { NotificationKind } from '$lib/server/email-templates';
+
+/**
+ * File attached to an email
+ */
+export interface EmailAttachment {
+	filename: string;
+	content: string;
+	contentType: string;
+}
+
+/**
+ * Email ready for a transport to deliver
+ */
+export interface EmailMessage {
+	/** Sender, as "Name <address>" */
+	from: string;
+	to: string[];
+	subject: string;
+	text: string;
+	html: string;
+	attachments: EmailAttachment[];
+}
+
+/**
+ * Delivers email
+ */
+export interface EmailTransport {
+	/** Transport name, for logging */
+	name: string;
+	/** @throws Error when the email cannot be delivered */
+	send(message: EmailMessage): Promise<void>;
+}
+
+/** How often pending reminders are checked */
+const REMINDER_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const TRANSPORT_NAMES = ['smtp', 'file', 'console'] as const;
+export type TransportName = (typeof TRANSPORT_NAMES)[number];
+
+let transport: EmailTransport | undefined;
+
+/**
+ * Returns the configured transport, creating it on first use.
+ * Defaults to the console when EMAIL_TRANSPORT is unset.
+ *
+ * @throws Error when EMAIL_TRANSPORT names an unknown transport or SMTP is misconfigured
+ */
+export function getTransport(): EmailTransport {
+	if (transport) return transport;
+
+	const name = (env.EMAIL_TRANSPORT || 'console') as TransportName;
+
+	switch (name) {
+		case 'smtp':
+			transport = createSmtpTransport(getSmtpOptionsFromEnv(env));
+			break;
+		case 'file':
+			transport = createFileTransport(env.EMAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR);
+			break;
+		case 'console':
+			transport = createConsoleTransport();
+			break;
+		default:
+			throw new Error(
+				`Unknown EMAIL_TRANSPORT "${name}". Expected one of: ${TRANSPORT_NAMES.join(', ')}.`
+			);
+	}
+
+	console.log(`Using ${transport.name} email transport`);
+	return transport;
+}
+
+/**
+ * Renders and sends a booking email to every attendee, with the calendar invite
+ * attached. Times are shown in the booker's timezone, or UTC when it is unknown.
+ *
+ * @param kind - Which email to send
+ * @param booking - Booking the email is about
+ * @param origin - Site origin, used for the manage link
+ * @param reminderLead - How long until the meeting, for reminders (e.g. "1 hour")
+ * @throws Error when the transport cannot deliver the email
+ */
+export async function sendBookingEmail(
+	kind: NotificationKind,
+	booking: Booking,
+	origin: string,
+	reminderLead?: string
+): Promise<void> {
+	const timezone = booking.timezone && isValidTimezone(booking.timezone) ? booking.timezone : 'UTC';
+	const event = toCalendarEvent(booking, origin, timezone);
+	const organizer = getOrganizer();
+
+	const email = renderBookingEmail({
+		kind,
+		title: event.title,
+		start: event.start,
+		end: event.end,
+		timezone,
+		recipientName: booking.attendees[0]?.name ?? null,
+		location: event.location,
+		hosts: (booking.hostIds ?? []).flatMap((id) => getHost(id)?.name ?? []),
+		manageUrl: `${origin}${getManagePath(booking.id)}`,
+		reminderLead,
+		organizerName: organizer.name ?? organizer.email
+	});
+
+	const method = booking.status === 'cancelled' ? 'CANCEL' : 'PUBLISH';
+
+	await getTransport().send({
+		from: organizer.name ? `${organizer.name} <${organizer.email}>` : organizer.email,
+		to: booking.attendees.map((attendee) => attendee.email),
+		...email,
+		attachments: [
+			{
+				filename: 'meeting.ics',
+				content: buildIcs(event),
+				contentType: `text/calendar; charset=utf-8; method=${method}`
+			}
+		]
+	});
+}
+
+/**
+ * Loads a booking and emails its attendees. Failures are logged rather than
+ * thrown, so routes can notify without waiting and without failing the request.
+ *
+ * @param kind - Which email to send
+ * @param bookingId - Booking the email is about
+ * @param origin - Site origin, used for the manage link
+ */
+export async function notifyBooking(
+	kind: NotificationKind,
+	bookingId: string,
+	origin: string
+): Promise<void> {
+	try {
+		const booking = await getProvider().getMeeting(bookingId);
+		await sendBookingEmail(kind, booking, origin);
+	} catch (error) {
+		console.error(`Failed to send ${kind} email for booking ${bookingId}:`, error);
+	}
+}
+
+/**
+ * Sends the reminders that are due. A reminder is only sent while its meeting is
+ * still confirmed at the time it was scheduled for. Each reminder is sent as the
+ * tenant its meeting was booked for.
+ *
+ * @param now - Current time in epoch milliseconds
+ */
+export async function sendDueReminders(now = Date.now()): Promise<void> {
+	for (const reminder of takeDueReminders(now)) {
+		await runWithTenant(reminder.tenant, async () => {
+			try {
+				const booking = await getProvider().getMeeting(reminder.bookingId);
+				if (
+					booking.status !== 'confirmed' ||
+					new Date(booking.start).getTime() !== reminder.start.getTime()
+				) {
+					return;
+				}
+
+				await sendBookingEmail('reminder', booking, reminder.origin, reminder.lead);
+			} catch (error) {
+				console.error(`Failed to send reminder for booking ${reminder.bookingId}:`, error);
+			}
+		});
+	}
+}
+
+let sweep: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Starts checking for due reminders. Called when the server starts, outside any
+ * request, so the check doesn't run as the tenant of whichever request came first.
+ * The check does not keep the process alive.
+ */
+export function startReminderSweep(): void {
+	if (sweep) return;
+	sweep = setInterval(() => void sendDueReminders(), REMINDER_SWEEP_INTERVAL_MS);
+	sweep.unref();
+}
+
+/**
+ * Schedules a meeting's reminders for the tenant of the current request
+ *
+ * @param bookingId - Booking to remind attendees of
+ * @param start - Meeting start
+ * @param origin - Site origin, used for the manage link
+ */
+export function scheduleBookingReminders(bookingId: string, start: Date, origin: string): void {
+	scheduleReminders(bookingId, start, origin, getCurrentTenant());
+}
+
+/**
+ * Cancels a meeting's pending reminders for the tenant of the current request
+ *
+ * @param bookingId - Cancelled booking
+ */
+export function cancelBookingReminders(bookingId: string): void {
+	cancelReminders(bookingId, getCurrentTenant());
+}
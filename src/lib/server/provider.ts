@@ -0,0 +1,129 @@
+/**
+ * Booking provider selection
+ * A provider supplies availability and stores meetings. The external provider
+ * proxies the external API; the mock provider runs locally for offline
+ * development and e2e runs. Select one with the BOOKING_PROVIDER env variable.
+ */
+
+import { env } from '$env/dynamic/private';
+import type { Booking, CreateBookingRequest } from '$lib/api/bookings';
+import type { AvailabilityResponse } from '$lib/utils/availability';
+import type { BookingAnswer } from '$lib/utils/questions';
+import { createExternalProvider } from './providers/external';
+import { createMockProvider, getMockOptionsFromEnv } from './providers/mock';
+import { getUpstreamAuthOptionsFromEnv } from './upstream-auth';
+import { getUpstreamOptionsFromEnv } from './upstream-client';
+
+/**
+ * Date range for availability and meeting requests, as YYYY-MM-DD strings,
+ * optionally narrowed to one team host
+ */
+export interface AvailabilityQuery {
+	start?: string;
+	end?: string;
+	/** Host ID; meetings without hosts involve every host */
+	host?: string;
+}
+
+/**
+ * Meeting creation request as forwarded to a provider, with intake answers
+ * validated and labelled
+ */
+export type CreateMeetingRequest = Omit<CreateBookingRequest, 'reservationId' | 'answers'> & {
+	answers?: BookingAnswer[];
+	/** Team hosts assigned to the meeting */
+	hostIds?: string[];
+};
+
+/**
+ * Changes to a rescheduled meeting
+ */
+export interface UpdateMeetingRequest {
+	start: string;
+	end: string;
+	/** Team hosts, when the meeting has been reassigned */
+	hostIds?: string[];
+}
+
+/**
+ * Options for creating a meeting
+ */
+export interface CreateMeetingOptions {
+	/**
+	 * Key identifying this booking attempt. A provider that receives the same key
+	 * again, e.g. when a timed-out request is retried, creates the meeting only once.
+	 */
+	idempotencyKey?: string;
+}
+
+/**
+ * Source of availability and store of meetings. Besides the errors listed, every
+ * method throws UpstreamError when the provider times out, can't be reached or
+ * its circuit breaker is open.
+ */
+export interface BookingProvider {
+	/** Provider name, for logging */
+	name: string;
+	/** @throws AvailabilityApiError */
+	getAvailability(query: AvailabilityQuery): Promise<AvailabilityResponse>;
+	/**
+	 * @returns The raw provider response and the new meeting's ID, if one was returned
+	 * @throws MeetingsApiError
+	 */
+	createMeeting(
+		data: CreateMeetingRequest,
+		options?: CreateMeetingOptions
+	): Promise<{ result: Record<string, unknown>; bookingId?: string }>;
+	/**
+	 * Lists meetings, including cancelled ones, starting within a date range
+	 * @throws MeetingsApiError
+	 */
+	listMeetings(query: AvailabilityQuery): Promise<Booking[]>;
+	/** @throws MeetingsApiError */
+	getMeeting(id: string): Promise<Booking>;
+	/** @throws MeetingsApiError */
+	updateMeeting(id: string, changes: UpdateMeetingRequest): Promise<Booking>;
+	/** @throws MeetingsApiError */
+	cancelMeeting(id: string): Promise<void>;
+}
+
+export const PROVIDER_NAMES = ['external', 'mock'] as const;
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+let provider: BookingProvider | undefined;
+
+/**
+ * Returns the configured provider, creating it on first use.
+ * Defaults to the external API when BOOKING_PROVIDER is unset.
+ *
+ * @throws Error when BOOKING_PROVIDER names an unknown provider, or the provider's
+ *   env variables are missing or malformed
+ */
+export function getProvider(): BookingProvider {
+	if (provider) return provider;
+
+	const name = (env.BOOKING_PROVIDER || 'external') as ProviderName;
+
+	switch (name) {
+		case 'external':
+			provider = createExternalProvider({
+				baseUrl: env.EXTERNAL_API_BASE_URL,
+				availabilityPath: env.EXTERNAL_API_AVAILABILITY_PATH,
+				meetingsPath: env.EXTERNAL_API_MEETINGS_PATH,
+				fallbackTimezone: env.ORG_TIMEZONE,
+				upstream: getUpstreamOptionsFromEnv(env),
+				auth: getUpstreamAuthOptionsFromEnv(env)
+			});
+			break;
+		case 'mock':
+			provider = createMockProvider(getMockOptionsFromEnv(env));
+			break;
+		default:
+			throw new Error(
+				`Unknown BOOKING_PROVIDER "${name}". Expected one of: ${PROVIDER_NAMES.join(', ')}.`
+			);
+	}
+
+	console.log(`Using ${provider.name} booking provider`);
+	return provider;
+}
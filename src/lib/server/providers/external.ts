@@ -0,0 +1,234 @@
+/**
+ * External API booking provider
+ * Proxies availability and meetings requests to the external API through the
+ * upstream client, which adds credentials, timeouts, retries and a circuit breaker
+ */
+
+import { z } from 'zod';
+import type { Booking } from '$lib/api/bookings';
+import { AvailabilitySlotSchema } from '$lib/api/schemas';
+import { isValidTimezone } from '$lib/utils/timezone';
+import type { AvailabilityResponse } from '$lib/utils/availability';
+import { AvailabilityApiError, MeetingsApiError } from '$lib/server/errors';
+import type { BookingProvider } from '$lib/server/provider';
+import { getCurrentTenant } from '$lib/server/tenant';
+import { createUpstreamAuth, type UpstreamAuthOptions } from '$lib/server/upstream-auth';
+import {
+	createUpstreamClient,
+	getUpstreamOptionsFromEnv,
+	type UpstreamClientOptions,
+	type UpstreamRequestInit
+} from '$lib/server/upstream-client';
+
+export interface ExternalProviderOptions {
+	baseUrl?: string;
+	availabilityPath?: string;
+	meetingsPath?: string;
+	/** IANA timezone used when the availability API omits one */
+	fallbackTimezone?: string;
+	/** Timeout, retry and circuit breaker settings (default: the EXTERNAL_API_* defaults) */
+	upstream?: UpstreamClientOptions;
+	/** Credentials sent with each request (default: none) */
+	auth?: UpstreamAuthOptions;
+}
+
+/**
+ * Availability payloads the external API returns: `{ timezone, slots }`, or a bare
+ * slot array from older API versions
+ */
+const ExternalAvailabilitySchema = z.union([
+	z.array(AvailabilitySlotSchema),
+	z.object({ timezone: z.string().optional(), slots: z.array(AvailabilitySlotSchema) })
+]);
+
+/**
+ * Validates the external API payload and normalises it into an AvailabilityResponse.
+ * For a bare slot array, or a payload without a timezone, the organisation timezone
+ * comes from the fallback timezone.
+ *
+ * @throws AvailabilityApiError (502) when the payload is malformed or no valid IANA
+ *   timezone is available
+ */
+function normaliseAvailability(data: unknown, fallbackTimezone?: string): AvailabilityResponse {
+	const parsed = ExternalAvailabilitySchema.safeParse(data);
+
+	if (!parsed.success) {
+		console.error('External API returned malformed availability:', parsed.error.issues);
+		throw new AvailabilityApiError(
+			502,
+			'External API returned malformed availability',
+			'malformed_response'
+		);
+	}
+
+	const slots = Array.isArray(parsed.data) ? parsed.data : parsed.data.slots;
+	const timezone = Array.isArray(parsed.data)
+		? fallbackTimezone
+		: (parsed.data.timezone ?? fallbackTimezone);
+
+	if (!timezone || !isValidTimezone(timezone)) {
+		console.error('External API availability is missing a valid IANA timezone');
+		throw new AvailabilityApiError(
+			502,
+			'External API returned availability without a valid timezone',
+			'malformed_response'
+		);
+	}
+
+	return { timezone, slots };
+}
+
+/**
+ * Normalises a meeting returned by the external API into a Booking
+ */
+function toBooking(meeting: Record<string, unknown>, fallbackId?: string): Booking {
+	const start = String(meeting.start);
+	const end = String(meeting.end);
+
+	return {
+		id: String(meeting.id ?? meeting.bookingId ?? fallbackId),
+		start,
+		end,
+		duration:
+			typeof meeting.duration === 'number'
+				? meeting.duration
+				: (new Date(end).getTime() - new Date(start).getTime()) / 60000,
+		meetingType: typeof meeting.meetingType === 'string' ? meeting.meetingType : undefined,
+		attendees: Array.isArray(meeting.attendees) ? meeting.attendees : [],
+		answers: Array.isArray(meeting.answers) ? meeting.answers : undefined,
+		hostIds: Array.isArray(meeting.hostIds) ? meeting.hostIds.map(String) : undefined,
+		timezone: typeof meeting.timezone === 'string' ? meeting.timezone : undefined,
+		metadata:
+			typeof meeting.metadata === 'object' && meeting.metadata !== null
+				? (meeting.metadata as Record<string, string>)
+				: undefined,
+		createdAt: typeof meeting.createdAt === 'string' ? meeting.createdAt : undefined,
+		updatedAt: typeof meeting.updatedAt === 'string' ? meeting.updatedAt : undefined,
+		status: meeting.status === 'cancelled' ? 'cancelled' : 'confirmed'
+	};
+}
+
+/**
+ * Creates a provider backed by the external API
+ * @throws Error when the base URL or endpoint paths are not configured
+ */
+export function createExternalProvider(options: ExternalProviderOptions): BookingProvider {
+	const { baseUrl, availabilityPath, meetingsPath, fallbackTimezone } = options;
+	const upstream = options.upstream ?? getUpstreamOptionsFromEnv({});
+	const client = createUpstreamClient({
+		...upstream,
+		...(options.auth && {
+			auth: createUpstreamAuth({ timeoutMs: upstream.timeoutMs, ...options.auth }),
+			getTenant: getCurrentTenant
+		})
+	});
+
+	// Runtime validation of required environment variables
+	if (!baseUrl || !availabilityPath || !meetingsPath) {
+		throw new Error(
+			'Missing required environment variables: EXTERNAL_API_BASE_URL, EXTERNAL_API_AVAILABILITY_PATH ' +
+				'and/or EXTERNAL_API_MEETINGS_PATH. Please check your .env file, or set BOOKING_PROVIDER=mock ' +
+				'to develop without the external API.'
+		);
+	}
+
+	/**
+	 * Builds the external URL for the meetings collection or a single meeting
+	 */
+	function meetingsUrl(id?: string): string {
+		const base = `${baseUrl}${meetingsPath}`;
+		return id ? `${base}/${encodeURIComponent(id)}` : base;
+	}
+
+	/**
+	 * Sends a request to the external meetings API and parses the JSON response
+	 * @throws MeetingsApiError when the response is not ok
+	 * @throws UpstreamError when the API times out, can't be reached or the circuit is open
+	 */
+	async function request<T>(url: string, init: UpstreamRequestInit): Promise<T> {
+		console.log(`Forwarding ${init.method} to external API:`, url);
+
+		const response = await client.request(url, init);
+
+		if (!response.ok) {
+			const errorText = await response.text();
+			console.error('External API error:', response.status, errorText);
+			throw new MeetingsApiError(response.status, errorText);
+		}
+
+		// DELETE may respond with no content
+		if (response.status === 204) {
+			return undefined as T;
+		}
+
+		return response.json().catch(() => {
+			throw new MeetingsApiError(502, 'Response was not valid JSON', 'malformed_response');
+		});
+	}
+
+	const provider: BookingProvider = {
+		name: 'external',
+
+		async getAvailability(query) {
+			const queryParams = new URLSearchParams(
+				Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+			).toString();
+			const externalApiUrl = `${baseUrl}${availabilityPath}${queryParams ? `?${queryParams}` : ''}`;
+
+			console.log('Forwarding availability request to external API:', externalApiUrl);
+
+			const response = await client.request(externalApiUrl, { method: 'GET' });
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				console.error('External API error:', response.status, errorText);
+				throw new AvailabilityApiError(response.status, `External API error: ${response.status}`);
+			}
+
+			return normaliseAvailability(await response.json().catch(() => null), fallbackTimezone);
+		},
+
+		async createMeeting(data, { idempotencyKey } = {}) {
+			const result = await request<Record<string, unknown>>(meetingsUrl(), {
+				method: 'POST',
+				body: JSON.stringify(data),
+				idempotencyKey
+			});
+
+			const id = result.id ?? result.bookingId;
+			return { result, bookingId: id === undefined ? undefined : String(id) };
+		},
+
+		async listMeetings(query) {
+			const queryParams = new URLSearchParams(
+				Object.entries(query).filter((entry): entry is [string, string] => !!entry[1])
+			).toString();
+			const result = await request<unknown[] | { meetings?: unknown[] }>(
+				`${meetingsUrl()}${queryParams ? `?${queryParams}` : ''}`,
+				{ method: 'GET' }
+			);
+
+			const meetings = Array.isArray(result) ? result : (result.meetings ?? []);
+			return meetings.map((meeting) => toBooking(meeting as Record<string, unknown>));
+		},
+
+		async getMeeting(id) {
+			const meeting = await request<Record<string, unknown>>(meetingsUrl(id), { method: 'GET' });
+			return toBooking(meeting, id);
+		},
+
+		async updateMeeting(id, changes) {
+			const meeting = await request<Record<string, unknown> | undefined>(meetingsUrl(id), {
+				method: 'PATCH',
+				body: JSON.stringify(changes)
+			});
+			return meeting ? toBooking(meeting, id) : provider.getMeeting(id);
+		},
+
+		async cancelMeeting(id) {
+			await request<void>(meetingsUrl(id), { method: 'DELETE' });
+		}
+	};
+
+	return provider;
+}
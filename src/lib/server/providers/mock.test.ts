@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createMockProvider,
+	generateWorkingHours,
+	getMockOptionsFromEnv,
+	subtractBookings,
+	type MockProviderOptions
+} from './mock';
+import { MeetingsApiError } from '$lib/server/errors';
+
+const options: MockProviderOptions = {
+	timezone: 'America/New_York',
+	workingHours: { start: '09:00', end: '17:00' },
+	workingDays: [1, 2, 3, 4, 5],
+	latencyMs: 0,
+	errorRate: 0,
+	now: () => new Date('2025-12-01T00:00:00Z')
+};
+
+const meeting = {
+	start: '2025-12-16T15:00:00.000Z',
+	end: '2025-12-16T15:30:00.000Z',
+	duration: 30,
+	attendees: [{ name: 'Ada', email: 'ada@example.com' }]
+};
+
+describe('getMockOptionsFromEnv', () => {
+	it('should default to weekday office hours', () => {
+		const parsed = getMockOptionsFromEnv({});
+		expect(parsed.workingHours).toEqual({ start: '09:00', end: '17:00' });
+		expect(parsed.workingDays).toEqual([1, 2, 3, 4, 5]);
+		expect(parsed.bookingsFile).toBeUndefined();
+	});
+
+	it('should reject malformed values', () => {
+		expect(() => getMockOptionsFromEnv({ MOCK_WORKING_HOURS: '9am-5pm' })).toThrow();
+		expect(() => getMockOptionsFromEnv({ MOCK_WORKING_DAYS: '1,8' })).toThrow();
+		expect(() => getMockOptionsFromEnv({ MOCK_ERROR_RATE: '2' })).toThrow();
+	});
+});
+
+describe('generateWorkingHours', () => {
+	it('should create one block per working day in the organisation timezone', () => {
+		// 2025-12-13 and 2025-12-14 are a weekend
+		const blocks = generateWorkingHours('2025-12-12', '2025-12-15', options, options.now!());
+		expect(blocks.map((block) => block.start.toISOString())).toEqual([
+			'2025-12-12T14:00:00.000Z',
+			'2025-12-15T14:00:00.000Z'
+		]);
+		expect(blocks[0].end.toISOString()).toBe('2025-12-12T22:00:00.000Z');
+	});
+
+	it('should not offer time in the past', () => {
+		const now = new Date('2025-12-12T18:00:00Z');
+		const blocks = generateWorkingHours('2025-12-11', '2025-12-12', options, now);
+		expect(blocks).toEqual([{ start: now, end: new Date('2025-12-12T22:00:00Z') }]);
+	});
+});
+
+describe('subtractBookings', () => {
+	const block = { start: new Date('2025-12-16T14:00:00Z'), end: new Date('2025-12-16T22:00:00Z') };
+
+	it('should split blocks around confirmed meetings', () => {
+		const free = subtractBookings([block], [{ ...meeting, status: 'confirmed' }]);
+		expect(free).toEqual([
+			{ start: block.start, end: new Date(meeting.start) },
+			{ start: new Date(meeting.end), end: block.end }
+		]);
+	});
+
+	it('should ignore cancelled meetings', () => {
+		expect(subtractBookings([block], [{ ...meeting, status: 'cancelled' }])).toEqual([block]);
+	});
+});
+
+describe('createMockProvider', () => {
+	it('should remove booked time from availability', async () => {
+		const provider = createMockProvider(options);
+		await provider.createMeeting(meeting);
+
+		const { timezone, slots } = await provider.getAvailability({
+			start: '2025-12-16',
+			end: '2025-12-16'
+		});
+		expect(timezone).toBe('America/New_York');
+		expect(slots).toEqual([
+			{ start: '2025-12-16T09:00:00-05:00', end: '2025-12-16T10:00:00-05:00' },
+			{ start: '2025-12-16T10:30:00-05:00', end: '2025-12-16T17:00:00-05:00' }
+		]);
+	});
+
+	it('should reject overlapping meetings', async () => {
+		const provider = createMockProvider(options);
+		await provider.createMeeting(meeting);
+		await expect(provider.createMeeting(meeting)).rejects.toMatchObject({ status: 409 });
+	});
+
+	it('should reschedule and cancel meetings', async () => {
+		const provider = createMockProvider(options);
+		const { bookingId } = await provider.createMeeting(meeting);
+
+		const moved = await provider.updateMeeting(bookingId!, {
+			start: '2025-12-17T15:00:00.000Z',
+			end: '2025-12-17T15:30:00.000Z'
+		});
+		expect(moved.start).toBe('2025-12-17T15:00:00.000Z');
+
+		await provider.cancelMeeting(bookingId!);
+		expect((await provider.getMeeting(bookingId!)).status).toBe('cancelled');
+	});
+
+	it('should track availability and clashes per host', async () => {
+		const provider = createMockProvider(options);
+		await provider.createMeeting({ ...meeting, hostIds: ['sam'] });
+
+		// Another host can take the same time; the booked host cannot
+		await expect(provider.createMeeting({ ...meeting, hostIds: ['priya'] })).resolves.toBeDefined();
+		await expect(provider.createMeeting({ ...meeting, hostIds: ['sam'] })).rejects.toMatchObject({
+			status: 409
+		});
+
+		const { slots } = await provider.getAvailability({
+			start: '2025-12-16',
+			end: '2025-12-16',
+			host: 'alex'
+		});
+		expect(slots).toEqual([
+			{ start: '2025-12-16T09:00:00-05:00', end: '2025-12-16T17:00:00-05:00' }
+		]);
+		expect(await provider.listMeetings({ host: 'sam' })).toHaveLength(1);
+	});
+
+	it('should list meetings starting within a date range', async () => {
+		const provider = createMockProvider(options);
+		await provider.createMeeting(meeting);
+
+		expect(await provider.listMeetings({ start: '2025-12-16', end: '2025-12-16' })).toHaveLength(1);
+		expect(await provider.listMeetings({ start: '2025-12-17', end: '2025-12-31' })).toEqual([]);
+	});
+
+	it('should respond with 404 for unknown meetings', async () => {
+		const provider = createMockProvider(options);
+		await expect(provider.getMeeting('missing')).rejects.toBeInstanceOf(MeetingsApiError);
+	});
+
+	it('should simulate failures', async () => {
+		const provider = createMockProvider({ ...options, errorRate: 0.5, random: () => 0.1 });
+		await expect(provider.getAvailability({})).rejects.toMatchObject({ status: 503 });
+	});
+});
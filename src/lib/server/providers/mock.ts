@@ -0,0 +1,359 @@
+/**
+ * Mock booking provider
+ * Generates availability from working hours and stores meetings in memory or a
+ * local JSON file, so the app runs without the external API. Booked time is
+ * removed from later availability, and errors and latency can be simulated.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { addDays, format, getDay, lastDayOfMonth, parseISO } from 'date-fns';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { Booking } from '$lib/api/bookings';
+import type { AvailabilitySlot } from '$lib/utils/availability';
+import { isValidTimezone } from '$lib/utils/timezone';
+import { AvailabilityApiError, MeetingsApiError } from '$lib/server/errors';
+import type { AvailabilityQuery, BookingProvider } from '$lib/server/provider';
+
+export interface MockProviderOptions {
+	/** Organisation IANA timezone that working hours are in */
+	timezone: string;
+	/** Daily working hours in HH:mm (e.g. { start: '09:00', end: '17:00' }) */
+	workingHours: { start: string; end: string };
+	/** Working days of the week, 0 = Sunday */
+	workingDays: number[];
+	/** JSON file to persist meetings in; meetings are kept in memory when omitted */
+	bookingsFile?: string;
+	/** Delay added to every request in milliseconds */
+	latencyMs: number;
+	/** Probability (0-1) that a request fails with a 503 */
+	errorRate: number;
+	/** Random number source, replaceable in tests */
+	random?: () => number;
+	/** Clock, replaceable in tests */
+	now?: () => Date;
+}
+
+/**
+ * Persistence for mock meetings
+ */
+interface MeetingStore {
+	load(): Promise<Booking[]>;
+	save(meetings: Booking[]): Promise<void>;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Reads mock provider options from environment variables
+ *
+ * - MOCK_WORKING_HOURS: e.g. "09:00-17:00" (default)
+ * - MOCK_WORKING_DAYS: comma-separated days, 0 = Sunday (default "1,2,3,4,5")
+ * - MOCK_BOOKINGS_FILE: JSON file to persist meetings (default: in memory)
+ * - MOCK_LATENCY_MS: delay per request (default 0)
+ * - MOCK_ERROR_RATE: failure probability between 0 and 1 (default 0)
+ * - ORG_TIMEZONE: timezone of the working hours (default "America/New_York")
+ *
+ * @throws Error when a variable is malformed
+ */
+export function getMockOptionsFromEnv(
+	env: Record<string, string | undefined>
+): MockProviderOptions {
+	const [start, end] = (env.MOCK_WORKING_HOURS || '09:00-17:00').split('-');
+	if (!TIME_PATTERN.test(start ?? '') || !TIME_PATTERN.test(end ?? '') || start >= end) {
+		throw new Error('MOCK_WORKING_HOURS must look like "09:00-17:00"');
+	}
+
+	const workingDays = (env.MOCK_WORKING_DAYS || '1,2,3,4,5').split(',').map(Number);
+	if (workingDays.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+		throw new Error('MOCK_WORKING_DAYS must be comma-separated days from 0 (Sunday) to 6');
+	}
+
+	const timezone = env.ORG_TIMEZONE || 'America/New_York';
+	if (!isValidTimezone(timezone)) {
+		throw new Error(`ORG_TIMEZONE "${timezone}" is not a valid IANA timezone`);
+	}
+
+	const latencyMs = Number(env.MOCK_LATENCY_MS || 0);
+	const errorRate = Number(env.MOCK_ERROR_RATE || 0);
+	if (!(latencyMs >= 0) || !(errorRate >= 0 && errorRate <= 1)) {
+		throw new Error('MOCK_LATENCY_MS must be >= 0 and MOCK_ERROR_RATE between 0 and 1');
+	}
+
+	return {
+		timezone,
+		workingHours: { start, end },
+		workingDays,
+		bookingsFile: env.MOCK_BOOKINGS_FILE || undefined,
+		latencyMs,
+		errorRate
+	};
+}
+
+/**
+ * Generates working-hours blocks for each working day in a date range,
+ * trimmed so nothing before `now` is offered
+ *
+ * @param start - First date (YYYY-MM-DD)
+ * @param end - Last date (YYYY-MM-DD), inclusive
+ */
+export function generateWorkingHours(
+	start: string,
+	end: string,
+	options: Pick<MockProviderOptions, 'timezone' | 'workingHours' | 'workingDays'>,
+	now: Date
+): { start: Date; end: Date }[] {
+	const blocks: { start: Date; end: Date }[] = [];
+
+	for (let day = parseISO(start); day <= parseISO(end); day = addDays(day, 1)) {
+		if (!options.workingDays.includes(getDay(day))) continue;
+
+		const dateKey = format(day, 'yyyy-MM-dd');
+		const blockStart = fromZonedTime(
+			`${dateKey}T${options.workingHours.start}:00`,
+			options.timezone
+		);
+		const blockEnd = fromZonedTime(`${dateKey}T${options.workingHours.end}:00`, options.timezone);
+
+		const from = blockStart < now ? now : blockStart;
+		if (from < blockEnd) {
+			blocks.push({ start: from, end: blockEnd });
+		}
+	}
+
+	return blocks;
+}
+
+/**
+ * Checks whether a meeting involves a host. Meetings without hosts involve everyone.
+ */
+function involvesHost(meeting: Pick<Booking, 'hostIds'>, host: string | undefined): boolean {
+	return !host || !meeting.hostIds?.length || meeting.hostIds.includes(host);
+}
+
+/**
+ * Removes confirmed meetings from availability blocks, splitting blocks around them
+ */
+export function subtractBookings(
+	blocks: { start: Date; end: Date }[],
+	bookings: Pick<Booking, 'start' | 'end' | 'status'>[]
+): { start: Date; end: Date }[] {
+	const busy = bookings
+		.filter((booking) => booking.status === 'confirmed')
+		.map((booking) => ({ start: new Date(booking.start), end: new Date(booking.end) }))
+		.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+	return blocks.flatMap((block) => {
+		const free: { start: Date; end: Date }[] = [];
+		let cursor = block.start;
+
+		for (const meeting of busy) {
+			if (meeting.end <= cursor || meeting.start >= block.end) continue;
+			if (meeting.start > cursor) {
+				free.push({ start: cursor, end: meeting.start });
+			}
+			if (meeting.end > cursor) {
+				cursor = meeting.end;
+			}
+		}
+
+		if (cursor < block.end) {
+			free.push({ start: cursor, end: block.end });
+		}
+
+		return free;
+	});
+}
+
+/**
+ * Stores meetings in server memory; they are lost on restart
+ */
+function createMemoryStore(): MeetingStore {
+	let meetings: Booking[] = [];
+	return {
+		async load() {
+			return meetings;
+		},
+		async save(next) {
+			meetings = next;
+		}
+	};
+}
+
+/**
+ * Stores meetings in a JSON file so they survive restarts
+ */
+function createFileStore(path: string): MeetingStore {
+	return {
+		async load() {
+			try {
+				return JSON.parse(await readFile(path, 'utf-8'));
+			} catch (error) {
+				if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+				throw error;
+			}
+		},
+		async save(meetings) {
+			await mkdir(dirname(path), { recursive: true });
+			await writeFile(path, JSON.stringify(meetings, null, '\t'));
+		}
+	};
+}
+
+/**
+ * Creates the mock provider
+ */
+export function createMockProvider(options: MockProviderOptions): BookingProvider {
+	const random = options.random ?? Math.random;
+	const now = options.now ?? (() => new Date());
+	const store = options.bookingsFile ? createFileStore(options.bookingsFile) : createMemoryStore();
+
+	/** Serialises store access so concurrent writes are not lost */
+	let queue: Promise<unknown> = Promise.resolve();
+
+	/**
+	 * Runs a read-modify-write against the stored meetings
+	 */
+	function withMeetings<T>(fn: (meetings: Booking[]) => T): Promise<T> {
+		const next = queue.then(async () => {
+			const meetings = await store.load();
+			const result = fn(meetings);
+			await store.save(meetings);
+			return result;
+		});
+		queue = next.catch(() => undefined);
+		return next;
+	}
+
+	/**
+	 * Applies the configured latency and randomly fails with a 503
+	 */
+	async function simulate(kind: 'availability' | 'meetings') {
+		if (options.latencyMs > 0) {
+			await new Promise((resolve) => setTimeout(resolve, options.latencyMs));
+		}
+
+		if (random() < options.errorRate) {
+			console.error(`Mock provider: simulated ${kind} failure`);
+			throw kind === 'availability'
+				? new AvailabilityApiError(503, 'Mock provider: simulated failure')
+				: new MeetingsApiError(503, 'Mock provider: simulated failure');
+		}
+	}
+
+	/**
+	 * Finds a meeting or fails with a 404
+	 */
+	function findMeeting(meetings: Booking[], id: string): Booking {
+		const meeting = meetings.find((m) => m.id === id);
+		if (!meeting) throw new MeetingsApiError(404, `Meeting ${id} not found`);
+		return meeting;
+	}
+
+	/**
+	 * Fails with a 409 if a confirmed meeting sharing a host overlaps the range.
+	 * Meetings without hosts clash with every meeting.
+	 */
+	function assertFree(
+		meetings: Booking[],
+		meeting: { start: string; end: string; hostIds?: string[] },
+		excludeId?: string
+	) {
+		const from = new Date(meeting.start);
+		const to = new Date(meeting.end);
+		const hosts = meeting.hostIds?.length ? meeting.hostIds : [undefined];
+		const clash = meetings.some(
+			(m) =>
+				m.id !== excludeId &&
+				m.status === 'confirmed' &&
+				new Date(m.start) < to &&
+				from < new Date(m.end) &&
+				hosts.some((host) => involvesHost(m, host))
+		);
+		if (clash) throw new MeetingsApiError(409, 'Slot is already booked');
+	}
+
+	return {
+		name: 'mock',
+
+		async getAvailability(query: AvailabilityQuery) {
+			await simulate('availability');
+
+			const today = now();
+			const start = query.start || formatInTimeZone(today, options.timezone, 'yyyy-MM-dd');
+			const end = query.end || format(lastDayOfMonth(parseISO(start)), 'yyyy-MM-dd');
+
+			const meetings = (await store.load()).filter((meeting) => involvesHost(meeting, query.host));
+			const blocks = subtractBookings(generateWorkingHours(start, end, options, today), meetings);
+
+			const toSlot = (block: { start: Date; end: Date }): AvailabilitySlot => ({
+				start: formatInTimeZone(block.start, options.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX"),
+				end: formatInTimeZone(block.end, options.timezone, "yyyy-MM-dd'T'HH:mm:ssXXX")
+			});
+
+			return { timezone: options.timezone, slots: blocks.map(toSlot) };
+		},
+
+		async createMeeting(data) {
+			await simulate('meetings');
+
+			const booking = await withMeetings((meetings) => {
+				assertFree(meetings, data);
+				const meeting: Booking = {
+					...data,
+					id: randomUUID(),
+					createdAt: now().toISOString(),
+					status: 'confirmed'
+				};
+				meetings.push(meeting);
+				return meeting;
+			});
+
+			console.log('Mock provider: created meeting', booking.id);
+			return { result: { success: true, ...booking }, bookingId: booking.id };
+		},
+
+		async listMeetings(query) {
+			await simulate('meetings');
+
+			return (await store.load()).filter((meeting) => {
+				const date = formatInTimeZone(new Date(meeting.start), options.timezone, 'yyyy-MM-dd');
+				return (
+					(!query.start || date >= query.start) &&
+					(!query.end || date <= query.end) &&
+					involvesHost(meeting, query.host)
+				);
+			});
+		},
+
+		async getMeeting(id) {
+			await simulate('meetings');
+			return findMeeting(await store.load(), id);
+		},
+
+		async updateMeeting(id, changes) {
+			await simulate('meetings');
+
+			return withMeetings((meetings) => {
+				const meeting = findMeeting(meetings, id);
+				assertFree(meetings, { hostIds: meeting.hostIds, ...changes }, id);
+				meeting.start = changes.start;
+				meeting.end = changes.end;
+				if (changes.hostIds) meeting.hostIds = changes.hostIds;
+				meeting.updatedAt = now().toISOString();
+				return meeting;
+			});
+		},
+
+		async cancelMeeting(id) {
+			await simulate('meetings');
+
+			await withMeetings((meetings) => {
+				const meeting = findMeeting(meetings, id);
+				meeting.status = 'cancelled';
+				meeting.updatedAt = now().toISOString();
+			});
+		}
+	};
+}
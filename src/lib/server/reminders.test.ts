@@ -0,0 +1,86 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { cancelReminders, scheduleReminders, takeDueReminders } from './reminders';
+
+const start = new Date('2025-12-16T15:00:00Z');
+const origin = 'https://book.acme.example';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('reminders', () => {
+	afterEach(() => {
+		cancelReminders('booking-1', undefined);
+		cancelReminders('booking-2', undefined);
+		cancelReminders('booking-1', 'globex');
+	});
+
+	it('should schedule reminders 24 hours and 1 hour before the meeting', () => {
+		const reminders = scheduleReminders(
+			'booking-1',
+			start,
+			origin,
+			undefined,
+			start.getTime() - 48 * HOUR_MS
+		);
+		expect(reminders.map((reminder) => [reminder.lead, reminder.dueAt])).toEqual([
+			['24 hours', start.getTime() - 24 * HOUR_MS],
+			['1 hour', start.getTime() - HOUR_MS]
+		]);
+	});
+
+	it('should skip reminders whose time has passed', () => {
+		const reminders = scheduleReminders(
+			'booking-1',
+			start,
+			origin,
+			undefined,
+			start.getTime() - 3 * HOUR_MS
+		);
+		expect(reminders.map((reminder) => reminder.lead)).toEqual(['1 hour']);
+	});
+
+	it('should hand out each reminder once when it is due', () => {
+		scheduleReminders('booking-1', start, origin, undefined, start.getTime() - 48 * HOUR_MS);
+
+		expect(takeDueReminders(start.getTime() - 30 * HOUR_MS)).toEqual([]);
+		expect(takeDueReminders(start.getTime() - 24 * HOUR_MS).map((r) => r.lead)).toEqual([
+			'24 hours'
+		]);
+		expect(takeDueReminders(start.getTime() - 12 * HOUR_MS)).toEqual([]);
+		expect(takeDueReminders(start.getTime()).map((r) => r.lead)).toEqual(['1 hour']);
+		expect(takeDueReminders(start.getTime())).toEqual([]);
+	});
+
+	it('should replace reminders when a meeting is rescheduled', () => {
+		const now = start.getTime() - 48 * HOUR_MS;
+		scheduleReminders('booking-1', start, origin, undefined, now);
+
+		const later = new Date(start.getTime() + 24 * HOUR_MS);
+		scheduleReminders('booking-1', later, origin, undefined, now);
+
+		const due = takeDueReminders(later.getTime());
+		expect(due).toHaveLength(2);
+		expect(due.every((reminder) => reminder.start === later)).toBe(true);
+	});
+
+	it('should drop reminders for cancelled meetings', () => {
+		scheduleReminders('booking-1', start, origin, undefined, start.getTime() - 48 * HOUR_MS);
+		scheduleReminders('booking-2', start, origin, undefined, start.getTime() - 48 * HOUR_MS);
+
+		expect(cancelReminders('booking-1', undefined)).toBe(true);
+		expect(takeDueReminders(start.getTime()).map((r) => r.bookingId)).toEqual([
+			'booking-2',
+			'booking-2'
+		]);
+	});
+
+	it('should keep tenants with the same booking ID apart', () => {
+		const now = start.getTime() - 48 * HOUR_MS;
+		scheduleReminders('booking-1', start, origin, undefined, now);
+		scheduleReminders('booking-1', start, origin, 'globex', now);
+
+		expect(cancelReminders('booking-1', 'globex')).toBe(true);
+		expect(takeDueReminders(start.getTime()).map((r) => r.tenant)).toEqual([undefined, undefined]);
+
+		scheduleReminders('booking-1', start, origin, 'globex', now);
+		expect(takeDueReminders(start.getTime()).map((r) => r.tenant)).toEqual(['globex', 'globex']);
+	});
+});
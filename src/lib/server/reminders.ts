@@ -0,0 +1,111 @@
+/**
+ * Meeting reminder schedule
+ * Tracks the reminder emails due before each booked meeting. Reminders live in
+ * server memory, so they are lost on restart. Tenants' bookings are tracked
+ * separately, since their booking IDs come from different upstream accounts.
+ */
+
+/**
+ * How long before a meeting each reminder is sent
+ */
+export const REMINDER_OFFSETS = [
+	{ ms: 24 * 60 * 60 * 1000, label: '24 hours' },
+	{ ms: 60 * 60 * 1000, label: '1 hour' }
+] as const;
+
+export interface Reminder {
+	bookingId: string;
+	/** Meeting start the reminder was scheduled for */
+	start: Date;
+	/** Site origin, used for the manage link */
+	origin: string;
+	/** Tenant the meeting was booked for, or undefined for the default credentials */
+	tenant: string | undefined;
+	/** How long before the meeting the reminder is sent (e.g. "1 hour") */
+	lead: string;
+	/** Epoch milliseconds at which the reminder is due */
+	dueAt: number;
+}
+
+/** Pending reminders, keyed by tenant and booking ID */
+const reminders = new Map<string, Reminder[]>();
+
+/**
+ * Builds the key a booking's reminders are kept under
+ */
+function getReminderKey(bookingId: string, tenant = ''): string {
+	return `${tenant}|${bookingId}`;
+}
+
+/**
+ * Schedules the reminders for a meeting, replacing any it already has.
+ * Reminders whose time has passed are skipped, so a meeting booked 3 hours
+ * ahead only gets the 1 hour reminder.
+ *
+ * @param bookingId - Booking to remind attendees of
+ * @param start - Meeting start
+ * @param origin - Site origin, used for the manage link
+ * @param tenant - Tenant the meeting was booked for
+ * @param now - Current time in epoch milliseconds
+ * @returns The scheduled reminders
+ */
+export function scheduleReminders(
+	bookingId: string,
+	start: Date,
+	origin: string,
+	tenant: string | undefined,
+	now = Date.now()
+): Reminder[] {
+	const key = getReminderKey(bookingId, tenant);
+	const scheduled = REMINDER_OFFSETS.map((offset) => ({
+		bookingId,
+		start,
+		origin,
+		tenant,
+		lead: offset.label,
+		dueAt: start.getTime() - offset.ms
+	})).filter((reminder) => reminder.dueAt > now);
+
+	if (scheduled.length > 0) {
+		reminders.set(key, scheduled);
+	} else {
+		reminders.delete(key);
+	}
+
+	return scheduled;
+}
+
+/**
+ * Cancels a meeting's pending reminders
+ * @param bookingId - Cancelled booking
+ * @param tenant - Tenant the meeting was booked for
+ * @returns Whether any reminders were cancelled
+ */
+export function cancelReminders(bookingId: string, tenant: string | undefined): boolean {
+	return reminders.delete(getReminderKey(bookingId, tenant));
+}
+
+/**
+ * Removes and returns the reminders that are due
+ *
+ * @param now - Current time in epoch milliseconds
+ */
+export function takeDueReminders(now = Date.now()): Reminder[] {
+	const due: Reminder[] = [];
+
+	for (const [key, pending] of reminders) {
+		const remaining = pending.filter((reminder) => {
+			if (reminder.dueAt > now) return true;
+			due.push(reminder);
+			return false;
+		});
+
+		if (remaining.length > 0) {
+			reminders.set(key, remaining);
+		} else {
+			reminders.delete(key);
+		}
+	}
+
+	return due.sort((a, b) => a.dueAt - b.dueAt);
+}
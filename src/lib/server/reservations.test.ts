@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { getMeetingType } from './meeting-types';
+import {
+	assignReservationHosts,
+	findConflictingReservation,
+	getHoldOptions,
+	getReservation,
+	releaseReservation,
+	reserveSlot,
+	RESERVATION_TTL_MS,
+	type HoldOptions,
+	type Reservation
+} from './reservations';
+
+const start = new Date('2025-12-16T10:00:00Z');
+const end = new Date('2025-12-16T10:30:00Z');
+const roundRobin: HoldOptions = { hostIds: ['alice', 'bob'], anyHost: true };
+
+describe('reservations', () => {
+	const held: Reservation[] = [];
+
+	function hold(from: Date, to: Date, options?: HoldOptions) {
+		const reservation = reserveSlot(from, to, undefined, options);
+		if (reservation) held.push(reservation);
+		return reservation;
+	}
+
+	afterEach(() => {
+		held.splice(0).forEach((reservation) => releaseReservation(reservation.id, undefined));
+	});
+
+	it('should hold a free slot', () => {
+		const reservation = hold(start, end);
+		expect(reservation).not.toBeNull();
+		expect(getReservation(reservation!.id, undefined)).toEqual(reservation);
+	});
+
+	it('should refuse overlapping holds', () => {
+		hold(start, end);
+		expect(hold(new Date('2025-12-16T10:15:00Z'), new Date('2025-12-16T10:45:00Z'))).toBeNull();
+	});
+
+	it('should allow adjacent holds', () => {
+		hold(start, end);
+		expect(hold(end, new Date('2025-12-16T11:00:00Z'))).not.toBeNull();
+	});
+
+	it("should refuse holds that fall inside another meeting's buffers", () => {
+		const buffer = { before: 0, after: 15 };
+		hold(start, end, { buffer });
+
+		// The next slot starts inside the first meeting's 15 minute buffer
+		expect(hold(end, new Date('2025-12-16T11:00:00Z'), { buffer })).toBeNull();
+		expect(hold(end, new Date('2025-12-16T11:00:00Z'))).toBeNull();
+		// Buffers may overlap each other while both meetings stay clear of them
+		expect(
+			hold(new Date('2025-12-16T10:45:00Z'), new Date('2025-12-16T11:15:00Z'), {
+				buffer: { before: 15, after: 0 }
+			})
+		).not.toBeNull();
+	});
+
+	it('should let a second visitor hold a round-robin time while another host is free', () => {
+		const first = hold(start, end, roundRobin)!;
+		expect(first.hostIds).toEqual(['alice', 'bob']);
+		assignReservationHosts(first.id, undefined, ['alice']);
+
+		const second = hold(start, end, roundRobin);
+		expect(second?.hostIds).toEqual(['bob']);
+		assignReservationHosts(second!.id, undefined, ['bob']);
+
+		expect(hold(start, end, roundRobin)).toBeNull();
+	});
+
+	it('should hold round-robin times until a host is assigned', () => {
+		hold(start, end, roundRobin);
+		expect(hold(start, end, roundRobin)).toBeNull();
+	});
+
+	it("should only refuse holds that need another hold's hosts", () => {
+		hold(start, end, { hostIds: ['alice'] });
+
+		expect(hold(start, end, { hostIds: ['bob'] })).not.toBeNull();
+		expect(hold(start, end, { hostIds: ['alice', 'carol'] })).toBeNull();
+		// Meetings with the organisation involve every host
+		expect(hold(start, end)).toBeNull();
+	});
+
+	it('should refuse host holds during a hold with the organisation', () => {
+		hold(start, end);
+		expect(hold(start, end, roundRobin)).toBeNull();
+	});
+
+	it("should take hold options from the meeting type's buffers and team", () => {
+		expect(getHoldOptions(undefined)).toEqual({
+			buffer: undefined,
+			hostIds: undefined,
+			anyHost: false
+		});
+		expect(getHoldOptions(getMeetingType('intro'))).toEqual({
+			buffer: { before: 0, after: 5 },
+			hostIds: ['sam', 'priya', 'alex'],
+			anyHost: true
+		});
+		expect(getHoldOptions(getMeetingType('onboarding'))).toMatchObject({
+			hostIds: ['jordan', 'priya'],
+			anyHost: false
+		});
+	});
+
+	it("should ignore the caller's own hold when checking conflicts", () => {
+		const reservation = hold(start, end)!;
+		expect(
+			findConflictingReservation(start, end, undefined, { excludeId: reservation.id })
+		).toBeUndefined();
+		expect(findConflictingReservation(start, end, undefined)).toEqual(reservation);
+	});
+
+	it('should free the slot once the hold expires', () => {
+		const now = Date.now();
+		hold(start, end, { now });
+		expect(hold(start, end, { now: now + RESERVATION_TTL_MS })).not.toBeNull();
+	});
+
+	it('should free the slot when released', () => {
+		const reservation = hold(start, end)!;
+		expect(releaseReservation(reservation.id, undefined)).toBe(true);
+		expect(hold(start, end)).not.toBeNull();
+	});
+
+	it("should keep each tenant's holds apart", () => {
+		const reservation = hold(start, end)!;
+		const globex = reserveSlot(start, end, 'globex');
+
+		expect(globex).not.toBeNull();
+		expect(getReservation(reservation.id, 'globex')).toBeUndefined();
+		expect(releaseReservation(reservation.id, 'globex')).toBe(false);
+		expect(findConflictingReservation(start, end, undefined)).toEqual(reservation);
+		expect(releaseReservation(globex!.id, 'globex')).toBe(true);
+	});
+});
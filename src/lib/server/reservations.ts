@@ -0,0 +1,227 @@
+/**
+ * Short-lived slot reservations
+ * Holds a slot while a visitor fills in the booking form so two visitors
+ * cannot book the same time. Reservations live in server memory. Each tenant
+ * books against its own upstream account, so tenants' holds are kept apart.
+ * Holds for team meeting types only block the hosts they hold, so a round-robin
+ * time stays open while a host is left.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { MeetingBuffer, MeetingType } from '$lib/api/meeting-types';
+
+/** How long a reservation holds a slot */
+export const RESERVATION_TTL_MS = 5 * 60 * 1000;
+
+export interface Reservation {
+	id: string;
+	start: Date;
+	end: Date;
+	/** Minutes kept free before and after the meeting */
+	buffer: MeetingBuffer;
+	/** Team hosts held; meetings with the organisation hold every host */
+	hostIds?: string[];
+	/** Epoch milliseconds after which the hold lapses */
+	expiresAt: number;
+}
+
+/**
+ * Options for checking and taking holds
+ */
+export interface HoldOptions {
+	/** Minutes that must also be free before and after the meeting */
+	buffer?: Partial<MeetingBuffer>;
+	/** Team hosts the meeting needs; meetings with the organisation involve every host */
+	hostIds?: string[];
+	/** Whether one free host is enough, as for round-robin teams, rather than every host */
+	anyHost?: boolean;
+	/** Current time in epoch milliseconds */
+	now?: number;
+}
+
+/**
+ * Returns the options for holding a slot of a meeting type: its buffers, and its
+ * team's hosts, one of whom is enough for a round-robin team
+ */
+export function getHoldOptions(meetingType: MeetingType | undefined): HoldOptions {
+	return {
+		buffer: meetingType?.buffer,
+		hostIds: meetingType?.team?.hosts,
+		anyHost: meetingType?.team?.mode === 'round-robin'
+	};
+}
+
+/**
+ * Fills in missing buffers with zero minutes
+ */
+function toBuffer(buffer: Partial<MeetingBuffer> = {}): MeetingBuffer {
+	return { before: buffer.before ?? 0, after: buffer.after ?? 0 };
+}
+
+/** Active reservations by ID, keyed by tenant ('' for the default credentials) */
+const reservations = new Map<string, Map<string, Reservation>>();
+
+/**
+ * Returns a tenant's reservations, creating the map on first use
+ */
+function getTenantReservations(tenant = ''): Map<string, Reservation> {
+	let held = reservations.get(tenant);
+	if (!held) {
+		held = new Map();
+		reservations.set(tenant, held);
+	}
+	return held;
+}
+
+/**
+ * Checks whether two meetings clash. Buffers may overlap each other, but neither
+ * meeting may fall inside the other's buffers, matching how availability keeps
+ * a meeting type's buffers free around booked meetings.
+ */
+function overlaps(
+	a: { start: Date; end: Date; buffer: MeetingBuffer },
+	b: { start: Date; end: Date; buffer: MeetingBuffer }
+): boolean {
+	const minute = 60 * 1000;
+	const clashes = (
+		meeting: { start: Date; end: Date },
+		buffered: { start: Date; end: Date; buffer: MeetingBuffer }
+	) =>
+		meeting.start.getTime() < buffered.end.getTime() + buffered.buffer.after * minute &&
+		buffered.start.getTime() - buffered.buffer.before * minute < meeting.end.getTime();
+
+	return clashes(a, b) || clashes(b, a);
+}
+
+/**
+ * Checks whether two meetings need a host in common. Meetings without hosts
+ * involve every host.
+ */
+function sharesHost(a: string[] | undefined, b: string[] | undefined): boolean {
+	return !a || !b || a.some((host) => b.includes(host));
+}
+
+/**
+ * Drops reservations whose hold has lapsed
+ */
+function pruneExpired(now: number) {
+	for (const [tenant, held] of reservations) {
+		for (const [id, reservation] of held) {
+			if (reservation.expiresAt <= now) {
+				held.delete(id);
+			}
+		}
+		if (held.size === 0) reservations.delete(tenant);
+	}
+}
+
+/**
+ * Finds an active reservation clashing with a meeting: one holding a host the
+ * meeting needs, at a time overlapping the meeting or either meeting's buffers
+ *
+ * @param start - Meeting start
+ * @param end - Meeting end
+ * @param tenant - Tenant whose holds are checked
+ * @param options - The meeting's buffers and hosts, a reservation to ignore (the
+ *   caller's own hold) and the current time
+ */
+export function findConflictingReservation(
+	start: Date,
+	end: Date,
+	tenant: string | undefined,
+	options: HoldOptions & { excludeId?: string } = {}
+): Reservation | undefined {
+	const { excludeId, now = Date.now() } = options;
+	const meeting = { start, end, buffer: toBuffer(options.buffer) };
+	pruneExpired(now);
+
+	for (const reservation of reservations.get(tenant ?? '')?.values() ?? []) {
+		if (reservation.id === excludeId) continue;
+		if (sharesHost(options.hostIds, reservation.hostIds) && overlaps(meeting, reservation)) {
+			return reservation;
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Holds a slot for RESERVATION_TTL_MS.
+ * The check and insert run synchronously, so concurrent requests cannot both succeed.
+ * With `anyHost`, every host that isn't held elsewhere is held until the meeting
+ * is assigned one with assignReservationHosts.
+ *
+ * @param start - Slot start
+ * @param end - Slot end
+ * @param tenant - Tenant the slot is held for
+ * @param options - The meeting type's buffers and hosts, and the current time
+ * @returns The reservation, or null if the slot clashes with another of the tenant's
+ *   active holds (for `anyHost`, when every host is held)
+ */
+export function reserveSlot(
+	start: Date,
+	end: Date,
+	tenant: string | undefined,
+	options: HoldOptions = {}
+): Reservation | null {
+	const { now = Date.now(), anyHost = false } = options;
+	let hostIds = options.hostIds;
+
+	if (anyHost && hostIds) {
+		hostIds = hostIds.filter(
+			(host) => !findConflictingReservation(start, end, tenant, { ...options, hostIds: [host] })
+		);
+		if (hostIds.length === 0) return null;
+	} else if (findConflictingReservation(start, end, tenant, options)) {
+		return null;
+	}
+
+	const reservation: Reservation = {
+		id: randomUUID(),
+		start,
+		end,
+		buffer: toBuffer(options.buffer),
+		...(hostIds && { hostIds }),
+		expiresAt: now + RESERVATION_TTL_MS
+	};
+	getTenantReservations(tenant).set(reservation.id, reservation);
+
+	return reservation;
+}
+
+/**
+ * Returns one of a tenant's active reservations by ID
+ */
+export function getReservation(
+	id: string,
+	tenant: string | undefined,
+	now = Date.now()
+): Reservation | undefined {
+	pruneExpired(now);
+	return reservations.get(tenant ?? '')?.get(id);
+}
+
+/**
+ * Releases one of a tenant's reservations
+ * @returns Whether a reservation was released
+ */
+export function releaseReservation(id: string, tenant: string | undefined): boolean {
+	return reservations.get(tenant ?? '')?.delete(id) ?? false;
+}
+
+/**
+ * Narrows a hold to the hosts the meeting was assigned, freeing the others.
+ * The hosts must be among those already held.
+ *
+ * @returns Whether the reservation was found
+ */
+export function assignReservationHosts(
+	id: string,
+	tenant: string | undefined,
+	hostIds: string[]
+): boolean {
+	const reservation = reservations.get(tenant ?? '')?.get(id);
+	if (!reservation) return false;
+	reservation.hostIds = hostIds;
+	return true;
+}
@@ -0,0 +1,25 @@
+/**
+ * Current tenant
+ * The server hook runs each request inside its tenant's context, so upstream
+ * calls made anywhere while handling it use that tenant's credentials without
+ * the tenant being passed through every function.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const storage = new AsyncLocalStorage<string | undefined>();
+
+/**
+ * Runs a function, and everything it starts, as a tenant
+ * @param tenant - Tenant ID, or undefined for the default credentials
+ */
+export function runWithTenant<T>(tenant: string | undefined, fn: () => T): T {
+	return storage.run(tenant, fn);
+}
+
+/**
+ * Returns the tenant of the request being handled, if any
+ */
+export function getCurrentTenant(): string | undefined {
+	return storage.getStore();
+}
@@ -0,0 +1,32 @@
+/**
+ * Console email transport
+ * Logs each email's recipients, subject and text body instead of sending it.
+ * The default, so local development never sends real email.
+ */
+
+import type { EmailTransport } from '$lib/server/notifications';
+
+/**
+ * Creates a transport that logs emails to the console
+ */
+export function createConsoleTransport(): EmailTransport {
+	return {
+		name: 'console',
+
+		async send(message) {
+			const attachments = message.attachments.map((attachment) => attachment.filename).join(', ');
+
+			console.log(
+				[
+					'--- Email ---',
+					`To: ${message.to.join(', ')}`,
+					`Subject: ${message.subject}`,
+					...(attachments ? [`Attachments: ${attachments}`] : []),
+					'',
+					message.text,
+					'-------------'
+				].join('\n')
+			);
+		}
+	};
+}
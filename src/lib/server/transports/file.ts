@@ -0,0 +1,80 @@
+/**
+ * File email transport
+ * Writes each email to a local directory instead of sending it, for local
+ * testing. Every message is saved as a .eml file that mail clients can open,
+ * with its attachments alongside.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { EmailMessage, EmailTransport } from '$lib/server/notifications';
+
+/** Directory used when EMAIL_OUTBOX_DIR is unset */
+export const DEFAULT_OUTBOX_DIR = '.outbox';
+
+/**
+ * Builds a multipart MIME message with text and HTML alternatives and attachments
+ */
+function toMime(message: EmailMessage): string {
+	const boundary = `acme-${randomUUID()}`;
+	const alternative = `${boundary}-alt`;
+	const encode = (content: string) =>
+		Buffer.from(content).toString('base64').replace(/.{76}/g, '$&\r\n');
+
+	return [
+		`From: ${message.from}`,
+		`To: ${message.to.join(', ')}`,
+		`Subject: ${message.subject}`,
+		'MIME-Version: 1.0',
+		`Content-Type: multipart/mixed; boundary="${boundary}"`,
+		'',
+		`--${boundary}`,
+		`Content-Type: multipart/alternative; boundary="${alternative}"`,
+		'',
+		`--${alternative}`,
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		encode(message.text),
+		`--${alternative}`,
+		'Content-Type: text/html; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		encode(message.html),
+		`--${alternative}--`,
+		...message.attachments.flatMap((attachment) => [
+			`--${boundary}`,
+			`Content-Type: ${attachment.contentType}`,
+			`Content-Disposition: attachment; filename="${attachment.filename}"`,
+			'Content-Transfer-Encoding: base64',
+			'',
+			encode(attachment.content)
+		]),
+		`--${boundary}--`,
+		''
+	].join('\r\n');
+}
+
+/**
+ * Creates a transport that saves emails to a directory
+ *
+ * @param dir - Directory to write to; created on first send
+ */
+export function createFileTransport(dir: string): EmailTransport {
+	return {
+		name: 'file',
+
+		async send(message) {
+			await mkdir(dir, { recursive: true });
+
+			const file = join(
+				dir,
+				`${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.eml`
+			);
+			await writeFile(file, toMime(message));
+
+			console.log(`Email "${message.subject}" written to ${file}`);
+		}
+	};
+}
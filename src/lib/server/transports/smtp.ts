@@ -0,0 +1,73 @@
+/**
+ * SMTP email transport
+ * Delivers email through an SMTP server using nodemailer.
+ */
+
+import nodemailer from 'nodemailer';
+import type { EmailTransport } from '$lib/server/notifications';
+
+export interface SmtpTransportOptions {
+	host: string;
+	port: number;
+	/** Use TLS from the start of the connection (port 465); STARTTLS is used otherwise */
+	secure: boolean;
+	/** Credentials; the server is used without authentication when omitted */
+	auth?: { user: string; pass: string };
+}
+
+/**
+ * Reads SMTP options from environment variables
+ *
+ * - SMTP_HOST: server hostname (required)
+ * - SMTP_PORT: server port (default 587, or 465 when SMTP_SECURE is "true")
+ * - SMTP_SECURE: "true" for implicit TLS (default "false")
+ * - SMTP_USER / SMTP_PASS: credentials (optional)
+ *
+ * @throws Error when SMTP_HOST is missing or SMTP_PORT is malformed
+ */
+export function getSmtpOptionsFromEnv(
+	env: Record<string, string | undefined>
+): SmtpTransportOptions {
+	if (!env.SMTP_HOST) {
+		throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT is "smtp".');
+	}
+
+	const secure = env.SMTP_SECURE === 'true';
+	const port = env.SMTP_PORT ? Number(env.SMTP_PORT) : secure ? 465 : 587;
+	if (!Number.isInteger(port) || port <= 0) {
+		throw new Error(`Invalid SMTP_PORT "${env.SMTP_PORT}". Expected a port number.`);
+	}
+
+	return {
+		host: env.SMTP_HOST,
+		port,
+		secure,
+		...(env.SMTP_USER && { auth: { user: env.SMTP_USER, pass: env.SMTP_PASS ?? '' } })
+	};
+}
+
+/**
+ * Creates a transport that sends email through an SMTP server
+ */
+export function createSmtpTransport(options: SmtpTransportOptions): EmailTransport {
+	const transporter = nodemailer.createTransport(options);
+
+	return {
+		name: 'smtp',
+
+		async send(message) {
+			await transporter.sendMail({
+				from: message.from,
+				to: message.to,
+				subject: message.subject,
+				text: message.text,
+				html: message.html,
+				attachments: message.attachments.map((attachment) => ({
+					filename: attachment.filename,
+					content: attachment.content,
+					contentType: attachment.contentType
+				}))
+			});
+		}
+	};
+}
@@ -0,0 +1,201 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	createUpstreamAuth,
+	getTenantForHost,
+	getUpstreamAuthOptionsFromEnv,
+	type UpstreamAuthOptions
+} from './upstream-auth';
+
+const oauth = {
+	type: 'oauth2',
+	tokenUrl: 'https://auth.example/token',
+	clientId: 'booking-app',
+	clientSecret: 'shh',
+	scope: 'meetings'
+} as const;
+
+/**
+ * Creates an auth layer whose token requests get the given responses in turn
+ */
+function setup(responses: Response[], overrides: Partial<UpstreamAuthOptions> = {}) {
+	let time = 0;
+	let issued = 0;
+	const fetch = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => {
+		return (
+			responses.shift() ??
+			Response.json({ access_token: `token-${++issued}`, token_type: 'Bearer', expires_in: 3600 })
+		);
+	});
+
+	const auth = createUpstreamAuth({
+		credentials: oauth,
+		tenants: {},
+		fetch: fetch as typeof globalThis.fetch,
+		now: () => time,
+		...overrides
+	});
+
+	return { auth, fetch, advance: (ms: number) => (time += ms) };
+}
+
+describe('getUpstreamAuthOptionsFromEnv', () => {
+	it('should send no credentials by default', () => {
+		expect(getUpstreamAuthOptionsFromEnv({})).toEqual({
+			credentials: { type: 'none' },
+			tenants: {}
+		});
+	});
+
+	it('should read API key and OAuth2 credentials', () => {
+		expect(
+			getUpstreamAuthOptionsFromEnv({ EXTERNAL_API_AUTH: 'api_key', EXTERNAL_API_KEY: 'k' })
+				.credentials
+		).toEqual({ type: 'api_key', key: 'k', header: 'Authorization' });
+		expect(
+			getUpstreamAuthOptionsFromEnv({
+				EXTERNAL_API_AUTH: 'oauth2',
+				EXTERNAL_API_OAUTH_TOKEN_URL: oauth.tokenUrl,
+				EXTERNAL_API_OAUTH_CLIENT_ID: oauth.clientId,
+				EXTERNAL_API_OAUTH_CLIENT_SECRET: oauth.clientSecret,
+				EXTERNAL_API_OAUTH_SCOPE: oauth.scope
+			}).credentials
+		).toEqual(oauth);
+	});
+
+	it('should read tenant credentials and hosts', () => {
+		const options = getUpstreamAuthOptionsFromEnv({
+			EXTERNAL_API_TENANTS: 'globex',
+			EXTERNAL_API_TENANT_GLOBEX_HOSTS: 'book.globex.example, Globex.localhost',
+			EXTERNAL_API_TENANT_GLOBEX_AUTH: 'api_key',
+			EXTERNAL_API_TENANT_GLOBEX_KEY: 'g',
+			EXTERNAL_API_TENANT_GLOBEX_KEY_HEADER: 'X-Api-Key'
+		});
+
+		expect(options.tenants).toEqual({
+			globex: {
+				hosts: ['book.globex.example', 'globex.localhost'],
+				credentials: { type: 'api_key', key: 'g', header: 'X-Api-Key' }
+			}
+		});
+		expect(getTenantForHost(options.tenants, 'GLOBEX.localhost')).toBe('globex');
+		expect(getTenantForHost(options.tenants, 'book.acme.example')).toBeUndefined();
+	});
+
+	it('should reject incomplete or malformed settings', () => {
+		expect(() => getUpstreamAuthOptionsFromEnv({ EXTERNAL_API_AUTH: 'basic' })).toThrow(
+			/Unknown EXTERNAL_API_AUTH/
+		);
+		expect(() => getUpstreamAuthOptionsFromEnv({ EXTERNAL_API_AUTH: 'api_key' })).toThrow(
+			'EXTERNAL_API_KEY is required when EXTERNAL_API_AUTH=api_key'
+		);
+		expect(() =>
+			getUpstreamAuthOptionsFromEnv({
+				EXTERNAL_API_AUTH: 'oauth2',
+				EXTERNAL_API_OAUTH_TOKEN_URL: 'not a url',
+				EXTERNAL_API_OAUTH_CLIENT_ID: 'id',
+				EXTERNAL_API_OAUTH_CLIENT_SECRET: 'secret'
+			})
+		).toThrow(/not a valid URL/);
+		expect(() => getUpstreamAuthOptionsFromEnv({ EXTERNAL_API_TENANTS: 'globex' })).toThrow(
+			'EXTERNAL_API_TENANT_GLOBEX_HOSTS is required'
+		);
+		expect(() =>
+			getUpstreamAuthOptionsFromEnv({
+				EXTERNAL_API_TENANTS: 'a,b',
+				EXTERNAL_API_TENANT_A_HOSTS: 'same.example',
+				EXTERNAL_API_TENANT_B_HOSTS: 'same.example'
+			})
+		).toThrow(/assigned to two tenants/);
+		expect(() => getUpstreamAuthOptionsFromEnv({ EXTERNAL_API_TENANTS: 'glo-bex' })).toThrow(
+			/invalid tenant ID/
+		);
+	});
+});
+
+describe('createUpstreamAuth', () => {
+	it('should send API keys as bearer tokens or in their own header', async () => {
+		const bearer = createUpstreamAuth({
+			credentials: { type: 'api_key', key: 'k', header: 'Authorization' },
+			tenants: {}
+		});
+		const custom = createUpstreamAuth({
+			credentials: { type: 'api_key', key: 'k', header: 'X-Api-Key' },
+			tenants: {}
+		});
+
+		expect(await bearer.getHeaders()).toEqual({ Authorization: 'Bearer k' });
+		expect(await custom.getHeaders()).toEqual({ 'X-Api-Key': 'k' });
+		expect(custom.invalidate()).toBe(false);
+	});
+
+	it('should request a token with the client-credentials grant', async () => {
+		const { auth, fetch } = setup([]);
+
+		expect(await auth.getHeaders()).toEqual({ Authorization: 'Bearer token-1' });
+
+		const [url, init] = fetch.mock.calls[0];
+		expect(url).toBe(oauth.tokenUrl);
+		expect(String(init?.body)).toBe('grant_type=client_credentials&scope=meetings');
+		expect((init?.headers as Record<string, string>).Authorization).toBe(
+			`Basic ${Buffer.from('booking-app:shh').toString('base64')}`
+		);
+	});
+
+	it('should cache tokens until shortly before they expire', async () => {
+		const { auth, fetch, advance } = setup([]);
+
+		await auth.getHeaders();
+		advance(3600 * 1000 - 61 * 1000);
+		expect(await auth.getHeaders()).toEqual({ Authorization: 'Bearer token-1' });
+
+		advance(1000);
+		expect(await auth.getHeaders()).toEqual({ Authorization: 'Bearer token-2' });
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should share one token request between concurrent callers', async () => {
+		const { auth, fetch } = setup([]);
+
+		const headers = await Promise.all([auth.getHeaders(), auth.getHeaders()]);
+
+		expect(headers[0]).toEqual(headers[1]);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('should fetch a new token after one is invalidated', async () => {
+		const { auth } = setup([]);
+
+		await auth.getHeaders();
+		expect(auth.invalidate()).toBe(true);
+		expect(await auth.getHeaders()).toEqual({ Authorization: 'Bearer token-2' });
+	});
+
+	it("should use the credentials of the request's tenant", async () => {
+		const { auth, fetch } = setup([], {
+			tenants: {
+				globex: {
+					hosts: ['book.globex.example'],
+					credentials: { ...oauth, clientId: 'globex' }
+				}
+			}
+		});
+
+		expect(await auth.getHeaders('globex')).toEqual({ Authorization: 'Bearer token-1' });
+		expect(await auth.getHeaders()).toEqual({ Authorization: 'Bearer token-2' });
+		expect(await auth.getHeaders('unknown')).toEqual({ Authorization: 'Bearer token-2' });
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should report token endpoint failures without caching them', async () => {
+		const { auth } = setup([
+			new Response('nope', { status: 401 }),
+			Response.json({ token_type: 'Bearer' })
+		]);
+
+		await expect(auth.getHeaders()).rejects.toMatchObject({ status: 502, code: 'auth_failed' });
+		await expect(auth.getHeaders()).rejects.toThrow(
+			'OAuth token endpoint returned no access token'
+		);
+		expect(await auth.getHeaders()).toEqual({ Authorization: 'Bearer token-1' });
+	});
+});
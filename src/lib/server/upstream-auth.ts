@@ -0,0 +1,301 @@
+/**
+ * Authentication for external API calls
+ * Adds credentials to upstream requests: a static API key, or an OAuth2 access
+ * token from the client-credentials grant, cached until shortly before it expires.
+ * Tenants served on their own hostnames can have their own credentials.
+ */
+
+import { z } from 'zod';
+import { UpstreamError } from '$lib/server/errors';
+
+export const AUTH_TYPES = ['none', 'api_key', 'oauth2'] as const;
+export type AuthType = (typeof AUTH_TYPES)[number];
+
+/**
+ * How requests to the external API are authenticated
+ */
+export type UpstreamCredentials =
+	| { type: 'none' }
+	| {
+			type: 'api_key';
+			key: string;
+			/** Header carrying the key; `Authorization` sends it as a bearer token */
+			header: string;
+	  }
+	| {
+			type: 'oauth2';
+			tokenUrl: string;
+			clientId: string;
+			clientSecret: string;
+			/** Space-separated scopes to request */
+			scope?: string;
+	  };
+
+/**
+ * Credentials for one tenant and the hostnames it is served on
+ */
+export interface TenantCredentials {
+	hosts: string[];
+	credentials: UpstreamCredentials;
+}
+
+export interface UpstreamAuthOptions {
+	/** Credentials used outside any tenant */
+	credentials: UpstreamCredentials;
+	/** Tenant credentials keyed by tenant ID */
+	tenants: Record<string, TenantCredentials>;
+	/** Time allowed for token requests in milliseconds */
+	timeoutMs?: number;
+	/** HTTP client, replaceable in tests */
+	fetch?: typeof fetch;
+	/** Clock in milliseconds, replaceable in tests */
+	now?: () => number;
+}
+
+/**
+ * Supplies authentication headers for upstream requests
+ */
+export interface UpstreamAuth {
+	/**
+	 * Returns the headers authenticating a request, fetching an access token first
+	 * when none is cached
+	 * @param tenant - Tenant the request is made for; the default credentials are
+	 *   used when omitted or unknown
+	 * @throws UpstreamError `auth_failed` (502) when a token can't be obtained
+	 */
+	getHeaders(tenant?: string): Promise<Record<string, string>>;
+	/**
+	 * Drops a cached access token after the API rejected it
+	 * @returns Whether a token was dropped, so that retrying with a new one can help
+	 */
+	invalidate(tenant?: string): boolean;
+}
+
+/** Tokens are refreshed this long before they expire, so none expires in flight */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/** Lifetime assumed for tokens issued without `expires_in` */
+const DEFAULT_TOKEN_LIFETIME_S = 3600;
+
+/** Tenant IDs become part of env variable names */
+const TENANT_ID_PATTERN = /^[a-z0-9_]+$/i;
+
+/**
+ * Access token response from the OAuth2 token endpoint (RFC 6749 section 5.1)
+ */
+const TokenResponseSchema = z.object({
+	access_token: z.string().min(1),
+	token_type: z.string().optional(),
+	expires_in: z.coerce.number().positive().optional()
+});
+
+/**
+ * Reads one set of credentials from env variables sharing a prefix
+ * @throws Error when the auth type is unknown or a required variable is missing
+ */
+function readCredentials(
+	env: Record<string, string | undefined>,
+	prefix: string
+): UpstreamCredentials {
+	const type = (env[`${prefix}AUTH`] || 'none') as AuthType;
+	const required = (name: string) => {
+		const value = env[`${prefix}${name}`];
+		if (!value) throw new Error(`${prefix}${name} is required when ${prefix}AUTH=${type}`);
+		return value;
+	};
+
+	switch (type) {
+		case 'none':
+			return { type };
+		case 'api_key':
+			return { type, key: required('KEY'), header: env[`${prefix}KEY_HEADER`] || 'Authorization' };
+		case 'oauth2': {
+			const tokenUrl = required('OAUTH_TOKEN_URL');
+			if (!URL.canParse(tokenUrl) || !/^https?:$/.test(new URL(tokenUrl).protocol)) {
+				throw new Error(`${prefix}OAUTH_TOKEN_URL is not a valid URL: "${tokenUrl}"`);
+			}
+			return {
+				type,
+				tokenUrl,
+				clientId: required('OAUTH_CLIENT_ID'),
+				clientSecret: required('OAUTH_CLIENT_SECRET'),
+				scope: env[`${prefix}OAUTH_SCOPE`] || undefined
+			};
+		}
+		default:
+			throw new Error(
+				`Unknown ${prefix}AUTH "${type}". Expected one of: ${AUTH_TYPES.join(', ')}.`
+			);
+	}
+}
+
+/**
+ * Reads upstream authentication options from environment variables
+ *
+ * - EXTERNAL_API_AUTH: `none` (default), `api_key` or `oauth2`
+ * - EXTERNAL_API_KEY, EXTERNAL_API_KEY_HEADER: API key and the header it is sent in
+ *   (default `Authorization`, as a bearer token)
+ * - EXTERNAL_API_OAUTH_TOKEN_URL, EXTERNAL_API_OAUTH_CLIENT_ID,
+ *   EXTERNAL_API_OAUTH_CLIENT_SECRET, EXTERNAL_API_OAUTH_SCOPE: client-credentials grant
+ * - EXTERNAL_API_TENANTS: comma-separated tenant IDs. Each tenant sets
+ *   EXTERNAL_API_TENANT_<ID>_HOSTS, the hostnames it is served on, and the variables
+ *   above with the EXTERNAL_API_TENANT_<ID>_ prefix, e.g. EXTERNAL_API_TENANT_GLOBEX_KEY.
+ *
+ * @throws Error when a variable is malformed or a required one is missing
+ */
+export function getUpstreamAuthOptionsFromEnv(
+	env: Record<string, string | undefined>
+): UpstreamAuthOptions {
+	const tenants: Record<string, TenantCredentials> = {};
+	const claimedHosts = new Set<string>();
+
+	for (const id of (env.EXTERNAL_API_TENANTS || '').split(',').map((id) => id.trim())) {
+		if (!id) continue;
+		if (!TENANT_ID_PATTERN.test(id)) {
+			throw new Error(`EXTERNAL_API_TENANTS contains an invalid tenant ID: "${id}"`);
+		}
+
+		const prefix = `EXTERNAL_API_TENANT_${id.toUpperCase()}_`;
+		const hosts = (env[`${prefix}HOSTS`] || '')
+			.split(',')
+			.map((host) => host.trim().toLowerCase())
+			.filter(Boolean);
+
+		if (hosts.length === 0) throw new Error(`${prefix}HOSTS is required`);
+		for (const host of hosts) {
+			if (claimedHosts.has(host)) throw new Error(`Host "${host}" is assigned to two tenants`);
+			claimedHosts.add(host);
+		}
+
+		tenants[id] = { hosts, credentials: readCredentials(env, prefix) };
+	}
+
+	return { credentials: readCredentials(env, 'EXTERNAL_API_'), tenants };
+}
+
+/**
+ * Finds the tenant served on a hostname
+ * @returns The tenant ID, or undefined for hostnames that use the default credentials
+ */
+export function getTenantForHost(
+	tenants: Record<string, TenantCredentials>,
+	hostname: string
+): string | undefined {
+	const host = hostname.toLowerCase();
+	return Object.keys(tenants).find((id) => tenants[id].hosts.includes(host));
+}
+
+/**
+ * Creates the upstream authentication layer
+ */
+export function createUpstreamAuth(options: UpstreamAuthOptions): UpstreamAuth {
+	const doFetch = options.fetch ?? fetch;
+	const now = options.now ?? Date.now;
+	const timeoutMs = options.timeoutMs ?? 10_000;
+
+	const tokens = new Map<string, { accessToken: string; expiresAt: number }>();
+	const pending = new Map<string, Promise<string>>();
+
+	/**
+	 * Requests an access token with the client-credentials grant
+	 * @throws UpstreamError (502) when the token endpoint fails or responds unexpectedly
+	 */
+	async function requestToken(
+		cacheKey: string,
+		credentials: Extract<UpstreamCredentials, { type: 'oauth2' }>
+	): Promise<string> {
+		const body = new URLSearchParams({ grant_type: 'client_credentials' });
+		if (credentials.scope) body.set('scope', credentials.scope);
+		const basic = Buffer.from(
+			`${encodeURIComponent(credentials.clientId)}:${encodeURIComponent(credentials.clientSecret)}`
+		).toString('base64');
+
+		let response: Response;
+		try {
+			response = await doFetch(credentials.tokenUrl, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-www-form-urlencoded',
+					Authorization: `Basic ${basic}`
+				},
+				body,
+				signal: AbortSignal.timeout(timeoutMs)
+			});
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			throw new UpstreamError(502, 'auth_failed', `OAuth token request failed: ${reason}`);
+		}
+
+		if (!response.ok) {
+			await response.body?.cancel();
+			throw new UpstreamError(
+				502,
+				'auth_failed',
+				`OAuth token request failed with status ${response.status}`
+			);
+		}
+
+		const parsed = TokenResponseSchema.safeParse(await response.json().catch(() => null));
+		if (!parsed.success) {
+			throw new UpstreamError(502, 'auth_failed', 'OAuth token endpoint returned no access token');
+		}
+
+		const lifetimeMs = (parsed.data.expires_in ?? DEFAULT_TOKEN_LIFETIME_S) * 1000;
+		tokens.set(cacheKey, {
+			accessToken: parsed.data.access_token,
+			expiresAt: now() + Math.max(lifetimeMs - REFRESH_MARGIN_MS, 0)
+		});
+		return parsed.data.access_token;
+	}
+
+	/**
+	 * Returns a cached access token, or requests one. Concurrent requests for the
+	 * same tenant share one token request.
+	 */
+	async function getAccessToken(
+		cacheKey: string,
+		credentials: Extract<UpstreamCredentials, { type: 'oauth2' }>
+	): Promise<string> {
+		const cached = tokens.get(cacheKey);
+		if (cached && now() < cached.expiresAt) return cached.accessToken;
+
+		let request = pending.get(cacheKey);
+		if (!request) {
+			request = requestToken(cacheKey, credentials).finally(() => pending.delete(cacheKey));
+			pending.set(cacheKey, request);
+		}
+		return request;
+	}
+
+	/**
+	 * Returns the tenant's credentials and the key its token is cached under
+	 */
+	function resolve(tenant?: string): [string, UpstreamCredentials] {
+		const entry = tenant ? options.tenants[tenant] : undefined;
+		return entry ? [tenant!, entry.credentials] : ['', options.credentials];
+	}
+
+	return {
+		async getHeaders(tenant) {
+			const [cacheKey, credentials] = resolve(tenant);
+
+			switch (credentials.type) {
+				case 'none':
+					return {};
+				case 'api_key':
+					return {
+						[credentials.header]:
+							credentials.header.toLowerCase() === 'authorization'
+								? `Bearer ${credentials.key}`
+								: credentials.key
+					};
+				case 'oauth2':
+					return { Authorization: `Bearer ${await getAccessToken(cacheKey, credentials)}` };
+			}
+		},
+
+		invalidate(tenant) {
+			return tokens.delete(resolve(tenant)[0]);
+		}
+	};
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	createUpstreamClient,
+	getJitteredDelay,
+	getUpstreamOptionsFromEnv,
+	IDEMPOTENCY_KEY_HEADER,
+	type UpstreamClientOptions
+} from './upstream-client';
+import { UpstreamError } from './errors';
+
+const url = 'https://api.example/meetings';
+
+/**
+ * Creates a client whose requests get the given responses in turn
+ */
+function setup(
+	responses: (number | Response | Error | DOMException)[],
+	overrides: Partial<UpstreamClientOptions> = {}
+) {
+	let time = 0;
+	const fetch = vi.fn(async (_url: string | URL | Request, _init?: RequestInit) => {
+		const next = responses.shift() ?? 200;
+		if (typeof next === 'number') return new Response(null, { status: next });
+		if (next instanceof Response) return next;
+		throw next;
+	});
+	const sleep = vi.fn(async (ms: number) => {
+		time += ms;
+	});
+
+	const client = createUpstreamClient({
+		timeoutMs: 1000,
+		maxRetries: 2,
+		retryDelayMs: 100,
+		breakerThreshold: 3,
+		breakerResetMs: 10_000,
+		fetch: fetch as typeof globalThis.fetch,
+		sleep,
+		random: () => 0.5,
+		now: () => time,
+		...overrides
+	});
+
+	return { client, fetch, sleep, advance: (ms: number) => (time += ms) };
+}
+
+/**
+ * Returns the error a promise rejects with
+ */
+async function rejection(promise: Promise<unknown>): Promise<UpstreamError> {
+	return promise.then(
+		() => expect.fail('Expected the request to fail'),
+		(error) => error
+	);
+}
+
+describe('getUpstreamOptionsFromEnv', () => {
+	it('should use defaults when unset', () => {
+		expect(getUpstreamOptionsFromEnv({})).toEqual({
+			timeoutMs: 10_000,
+			maxRetries: 2,
+			retryDelayMs: 200,
+			breakerThreshold: 5,
+			breakerResetMs: 30_000
+		});
+	});
+
+	it('should reject malformed values', () => {
+		expect(() => getUpstreamOptionsFromEnv({ EXTERNAL_API_TIMEOUT_MS: '0' })).toThrow();
+		expect(() => getUpstreamOptionsFromEnv({ EXTERNAL_API_MAX_RETRIES: '1.5' })).toThrow();
+		expect(() => getUpstreamOptionsFromEnv({ EXTERNAL_API_RETRY_DELAY_MS: 'soon' })).toThrow();
+		expect(() => getUpstreamOptionsFromEnv({ EXTERNAL_API_BREAKER_THRESHOLD: '0' })).toThrow();
+	});
+});
+
+describe('getJitteredDelay', () => {
+	it('should pick a delay up to the doubled base delay, capped at five seconds', () => {
+		expect(getJitteredDelay(1, 200, () => 0.5)).toBe(100);
+		expect(getJitteredDelay(3, 200, () => 0.5)).toBe(400);
+		expect(getJitteredDelay(3, 200, () => 0)).toBe(0);
+		expect(getJitteredDelay(20, 200, () => 0.99)).toBe(4950);
+	});
+});
+
+describe('createUpstreamClient', () => {
+	it('should retry GETs that fail with a retryable status', async () => {
+		const { client, fetch, sleep } = setup([503, 429, 200]);
+
+		const response = await client.request(url, { method: 'GET' });
+
+		expect(response.status).toBe(200);
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(sleep.mock.calls).toEqual([[50], [100]]);
+	});
+
+	it('should return the last response once retries run out', async () => {
+		const { client, fetch } = setup([500, 500, 502]);
+
+		expect((await client.request(url, { method: 'GET' })).status).toBe(502);
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('should not retry responses that reject the request', async () => {
+		const { client, fetch } = setup([404]);
+
+		expect((await client.request(url, { method: 'GET' })).status).toBe(404);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('should wait as long as Retry-After asks', async () => {
+		const { client, sleep } = setup([
+			new Response(null, { status: 429, headers: { 'Retry-After': '2' } })
+		]);
+
+		await client.request(url, { method: 'GET' });
+
+		expect(sleep).toHaveBeenCalledWith(2000);
+	});
+
+	it('should only retry POSTs that carry an idempotency key', async () => {
+		const unkeyed = setup([503]);
+		expect((await unkeyed.client.request(url, { method: 'POST', body: '{}' })).status).toBe(503);
+		expect(unkeyed.fetch).toHaveBeenCalledTimes(1);
+
+		const keyed = setup([503, 201]);
+		const response = await keyed.client.request(url, {
+			method: 'POST',
+			body: '{}',
+			idempotencyKey: 'key-1'
+		});
+
+		expect(response.status).toBe(201);
+		expect(keyed.fetch).toHaveBeenCalledTimes(2);
+		for (const [, init] of keyed.fetch.mock.calls) {
+			expect((init?.headers as Record<string, string>)[IDEMPOTENCY_KEY_HEADER]).toBe('key-1');
+		}
+	});
+
+	it('should report timeouts and network errors by category', async () => {
+		const timeout = new DOMException('The operation timed out', 'TimeoutError');
+		const timedOut = setup([timeout, timeout, timeout]);
+		expect(await rejection(timedOut.client.request(url, { method: 'GET' }))).toMatchObject({
+			status: 504,
+			code: 'timeout'
+		});
+
+		const unreachable = setup([new TypeError('fetch failed')]);
+		expect(await rejection(unreachable.client.request(url, { method: 'DELETE' }))).toMatchObject({
+			status: 502,
+			code: 'unreachable'
+		});
+		expect(unreachable.fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('should open the circuit after repeated failures and fail fast', async () => {
+		const { client, fetch } = setup([500, 500, 500], { maxRetries: 0 });
+
+		for (let i = 0; i < 3; i++) await client.request(url, { method: 'GET' });
+
+		expect(client.getCircuitState()).toBe('open');
+		expect(await rejection(client.request(url, { method: 'GET' }))).toMatchObject({
+			status: 503,
+			code: 'circuit_open'
+		});
+		expect(fetch).toHaveBeenCalledTimes(3);
+	});
+
+	it('should close the circuit when the trial request succeeds', async () => {
+		const { client, advance } = setup([500, 500, 500, 200], { maxRetries: 0 });
+		for (let i = 0; i < 3; i++) await client.request(url, { method: 'GET' });
+
+		advance(10_000);
+		expect(client.getCircuitState()).toBe('half-open');
+
+		await client.request(url, { method: 'GET' });
+		expect(client.getCircuitState()).toBe('closed');
+	});
+
+	it('should reopen the circuit when the trial request fails', async () => {
+		const { client, advance } = setup([500, 500, 500, 500], { maxRetries: 0 });
+		for (let i = 0; i < 3; i++) await client.request(url, { method: 'GET' });
+
+		advance(10_000);
+		await client.request(url, { method: 'GET' });
+
+		expect(client.getCircuitState()).toBe('open');
+	});
+
+	it('should let only one trial request through while half-open', async () => {
+		let finishTrial: (response: Response) => void = () => {};
+		const { client, fetch, advance } = setup([500, 500, 500], { maxRetries: 0 });
+		for (let i = 0; i < 3; i++) await client.request(url, { method: 'GET' });
+		advance(10_000);
+
+		fetch.mockImplementationOnce(() => new Promise((resolve) => (finishTrial = resolve)));
+		const trial = client.request(url, { method: 'GET' });
+
+		expect(await rejection(client.request(url, { method: 'GET' }))).toMatchObject({
+			code: 'circuit_open'
+		});
+
+		finishTrial(new Response(null, { status: 200 }));
+		expect((await trial).status).toBe(200);
+		expect(client.getCircuitState()).toBe('closed');
+	});
+
+	it('should replace a rejected access token once', async () => {
+		const auth = {
+			getHeaders: vi.fn(async (tenant?: string) => ({ Authorization: `Bearer ${tenant}` })),
+			invalidate: vi.fn(() => true)
+		};
+		const { client, fetch } = setup([401, 401], { auth, getTenant: () => 'globex' });
+
+		const response = await client.request(url, { method: 'POST', body: '{}' });
+
+		expect(response.status).toBe(401);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect(auth.invalidate).toHaveBeenCalledOnce();
+		expect(auth.getHeaders).toHaveBeenCalledWith('globex');
+		expect((fetch.mock.calls[1][1]?.headers as Record<string, string>).Authorization).toBe(
+			'Bearer globex'
+		);
+	});
+
+	it('should not count rejected requests as failures', async () => {
+		const { client } = setup([400, 404, 409, 422], { maxRetries: 0 });
+
+		for (let i = 0; i < 4; i++) await client.request(url, { method: 'GET' });
+
+		expect(client.getCircuitState()).toBe('closed');
+	});
+});
@@ -0,0 +1,287 @@
+/**
+ * HTTP client for the external booking API
+ * Gives every call a timeout, retries idempotent calls with jittered backoff and
+ * stops calling the API for a while once it keeps failing (a circuit breaker), so
+ * an outage fails fast instead of tying up every request until it times out.
+ */
+
+import { UpstreamError } from '$lib/server/errors';
+import type { UpstreamAuth } from '$lib/server/upstream-auth';
+
+/** Header carrying the key the external API uses to recognise a repeated request */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * Circuit breaker state: closed sends requests, open rejects them, and half-open
+ * lets one trial request through to check whether the API has recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface UpstreamClientOptions {
+	/** Time allowed for each attempt in milliseconds */
+	timeoutMs: number;
+	/** Retries after the first attempt, for GETs and requests with an idempotency key */
+	maxRetries: number;
+	/** Upper bound of the first retry's random delay in milliseconds; doubles for each later retry */
+	retryDelayMs: number;
+	/** Consecutive failures that open the circuit */
+	breakerThreshold: number;
+	/** Time the circuit stays open before a trial request in milliseconds */
+	breakerResetMs: number;
+	/** HTTP client, replaceable in tests */
+	fetch?: typeof fetch;
+	/** Waits between retries, replaceable in tests */
+	sleep?: (ms: number) => Promise<void>;
+	/** Random number in [0, 1) for retry jitter, replaceable in tests */
+	random?: () => number;
+	/** Clock in milliseconds, replaceable in tests */
+	now?: () => number;
+	/** Adds credentials to each request */
+	auth?: UpstreamAuth;
+	/** Returns the tenant whose credentials a request should use */
+	getTenant?: () => string | undefined;
+}
+
+export interface UpstreamRequestInit {
+	method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+	/** JSON request body */
+	body?: string;
+	/**
+	 * Key sent in the Idempotency-Key header. The API performs a repeated request
+	 * with the same key only once, so non-GET requests with a key are retried too.
+	 */
+	idempotencyKey?: string;
+	/** Overrides the client's timeout for this call */
+	timeoutMs?: number;
+}
+
+/**
+ * Sends requests to the external API
+ */
+export interface UpstreamClient {
+	/**
+	 * Sends a request, retrying it when that is safe. Responses with an error status
+	 * are returned once retries run out; callers decide how to report them.
+	 *
+	 * @throws UpstreamError `timeout` (504) when the last attempt timed out,
+	 *   `unreachable` (502) when it failed without a response, `circuit_open` (503)
+	 *   when the circuit is open, or `auth_failed` (502) when no access token could be
+	 *   obtained
+	 */
+	request(url: string, init: UpstreamRequestInit): Promise<Response>;
+	/** Returns the circuit breaker state, for logging and tests */
+	getCircuitState(): CircuitState;
+}
+
+/** Longest wait between retries; visitors are waiting on these requests */
+const MAX_RETRY_DELAY_MS = 5000;
+
+/**
+ * Reads upstream client options from environment variables
+ *
+ * - EXTERNAL_API_TIMEOUT_MS: time allowed for each attempt (default 10000)
+ * - EXTERNAL_API_MAX_RETRIES: retries for idempotent requests (default 2)
+ * - EXTERNAL_API_RETRY_DELAY_MS: upper bound of the first retry delay (default 200)
+ * - EXTERNAL_API_BREAKER_THRESHOLD: consecutive failures that open the circuit (default 5)
+ * - EXTERNAL_API_BREAKER_RESET_MS: time the circuit stays open (default 30000)
+ *
+ * @throws Error when a variable is malformed
+ */
+export function getUpstreamOptionsFromEnv(
+	env: Record<string, string | undefined>
+): UpstreamClientOptions {
+	const timeoutMs = Number(env.EXTERNAL_API_TIMEOUT_MS || 10_000);
+	const maxRetries = Number(env.EXTERNAL_API_MAX_RETRIES || 2);
+	const retryDelayMs = Number(env.EXTERNAL_API_RETRY_DELAY_MS || 200);
+	const breakerThreshold = Number(env.EXTERNAL_API_BREAKER_THRESHOLD || 5);
+	const breakerResetMs = Number(env.EXTERNAL_API_BREAKER_RESET_MS || 30_000);
+
+	if (!(timeoutMs > 0) || !Number.isInteger(maxRetries) || maxRetries < 0) {
+		throw new Error(
+			'EXTERNAL_API_TIMEOUT_MS must be positive and EXTERNAL_API_MAX_RETRIES a whole number >= 0'
+		);
+	}
+	if (!(retryDelayMs >= 0) || !(breakerResetMs >= 0)) {
+		throw new Error('EXTERNAL_API_RETRY_DELAY_MS and EXTERNAL_API_BREAKER_RESET_MS must be >= 0');
+	}
+	if (!Number.isInteger(breakerThreshold) || breakerThreshold < 1) {
+		throw new Error('EXTERNAL_API_BREAKER_THRESHOLD must be at least 1');
+	}
+
+	return { timeoutMs, maxRetries, retryDelayMs, breakerThreshold, breakerResetMs };
+}
+
+/**
+ * Returns a random delay before a retry, between zero and the base delay doubled
+ * for each earlier retry ("full jitter"), so clients that failed together don't
+ * retry together
+ *
+ * @param retry - Retry number, starting at 1
+ * @param baseMs - Upper bound of the first retry's delay
+ * @param random - Random number in [0, 1)
+ *
+ * @example
+ * getJitteredDelay(3, 200, () => 0.5) // 400
+ */
+export function getJitteredDelay(retry: number, baseMs: number, random: () => number): number {
+	return Math.floor(random() * Math.min(baseMs * 2 ** (retry - 1), MAX_RETRY_DELAY_MS));
+}
+
+/**
+ * Reads a Retry-After header given in seconds
+ * @returns The delay in milliseconds, or undefined when absent, malformed or too long to wait
+ */
+function getRetryAfter(response: Response): number | undefined {
+	const seconds = Number(response.headers.get('Retry-After') ?? NaN);
+	const ms = seconds * 1000;
+	return ms >= 0 && ms <= MAX_RETRY_DELAY_MS ? ms : undefined;
+}
+
+/**
+ * Checks whether a failed response is worth retrying. Other client errors mean
+ * the request itself was rejected, so sending it again would fail the same way.
+ */
+function isRetryable(status: number): boolean {
+	return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Converts a fetch failure into an UpstreamError
+ */
+function toUpstreamError(error: unknown, timeoutMs: number): UpstreamError {
+	// AbortSignal.timeout rejects with a DOMException, which isn't always an Error subclass
+	if ((error as { name?: unknown } | null)?.name === 'TimeoutError') {
+		return new UpstreamError(504, 'timeout', `External API timed out after ${timeoutMs}ms`);
+	}
+
+	const reason = error instanceof Error ? error.message : String(error);
+	return new UpstreamError(502, 'unreachable', `External API could not be reached: ${reason}`);
+}
+
+/**
+ * Creates an upstream client
+ */
+export function createUpstreamClient(options: UpstreamClientOptions): UpstreamClient {
+	const doFetch = options.fetch ?? fetch;
+	const sleep =
+		options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+	const random = options.random ?? Math.random;
+	const now = options.now ?? Date.now;
+
+	let failures = 0;
+	let openedAt: number | undefined;
+	let trialInFlight = false;
+
+	function getCircuitState(): CircuitState {
+		if (openedAt === undefined) return 'closed';
+		return now() - openedAt >= options.breakerResetMs ? 'half-open' : 'open';
+	}
+
+	/**
+	 * Lets a request through the circuit breaker; once half-open, only one trial
+	 * request goes through until it has finished
+	 * @throws UpstreamError (503) when the circuit is open
+	 */
+	function admit() {
+		const state = getCircuitState();
+
+		if (state === 'open' || (state === 'half-open' && trialInFlight)) {
+			throw new UpstreamError(
+				503,
+				'circuit_open',
+				`External API circuit is open after ${failures} consecutive failures`
+			);
+		}
+
+		if (state === 'half-open') trialInFlight = true;
+	}
+
+	function recordSuccess() {
+		failures = 0;
+		openedAt = undefined;
+		trialInFlight = false;
+	}
+
+	/**
+	 * Counts a failure, opening the circuit at the threshold or when a trial request fails
+	 */
+	function recordFailure() {
+		failures++;
+		const trialFailed = trialInFlight;
+		trialInFlight = false;
+
+		if (trialFailed || failures >= options.breakerThreshold) {
+			if (openedAt === undefined || trialFailed) {
+				console.error(`External API circuit opened after ${failures} consecutive failures`);
+			}
+			openedAt = now();
+		}
+	}
+
+	return {
+		async request(url, init) {
+			const timeoutMs = init.timeoutMs ?? options.timeoutMs;
+			// Retrying a request that isn't idempotent could, for example, create a meeting twice
+			const attempts = init.method === 'GET' || init.idempotencyKey ? options.maxRetries + 1 : 1;
+
+			const tenant = options.getTenant?.();
+			let reauthenticated = false;
+
+			for (let attempt = 1; ; attempt++) {
+				// Fetched before the breaker admits the request, so a failed token request
+				// can't leave a half-open circuit waiting on a trial that never ran
+				const authHeaders = (await options.auth?.getHeaders(tenant)) ?? {};
+				admit();
+
+				let delay: number;
+				try {
+					const response = await doFetch(url, {
+						method: init.method,
+						body: init.body,
+						headers: {
+							'Content-Type': 'application/json',
+							...authHeaders,
+							...(init.idempotencyKey && { [IDEMPOTENCY_KEY_HEADER]: init.idempotencyKey })
+						},
+						signal: AbortSignal.timeout(timeoutMs)
+					});
+
+					if (response.status >= 500) {
+						recordFailure();
+					} else {
+						recordSuccess();
+					}
+
+					// An expired or revoked access token is replaced once. The API didn't
+					// perform the request, so this is safe for any method.
+					if (response.status === 401 && !reauthenticated && options.auth?.invalidate(tenant)) {
+						reauthenticated = true;
+						await response.body?.cancel();
+						attempt--;
+						continue;
+					}
+
+					if (!isRetryable(response.status) || attempt >= attempts) return response;
+
+					// Release the connection before trying again
+					await response.body?.cancel();
+					delay =
+						getRetryAfter(response) ?? getJitteredDelay(attempt, options.retryDelayMs, random);
+					console.warn(`External API responded ${response.status} to ${init.method} ${url}`);
+				} catch (error) {
+					recordFailure();
+					const upstreamError = toUpstreamError(error, timeoutMs);
+					if (attempt >= attempts) throw upstreamError;
+
+					delay = getJitteredDelay(attempt, options.retryDelayMs, random);
+					console.warn(upstreamError.message);
+				}
+
+				console.warn(`Retrying ${init.method} ${url} (attempt ${attempt + 1} of ${attempts})`);
+				await sleep(delay);
+			}
+		},
+
+		getCircuitState
+	};
+}
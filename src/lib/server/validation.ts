@@ -0,0 +1,49 @@
+/**
+ * Request body validation for API routes
+ * Parses JSON bodies with the shared API schemas and turns failures into
+ * `400` responses listing each invalid field.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { z } from 'zod';
+import { toFieldErrors, type FieldError, type ValidationErrorResponse } from '$lib/api/schemas';
+
+/**
+ * Builds a `400` response for invalid fields
+ *
+ * @param errors - Invalid fields, in the order they should be shown
+ * @param message - Summary, defaulting to the first field's message
+ */
+export function validationErrorResponse(
+	errors: FieldError[],
+	message = errors[0]?.message ?? 'Invalid request'
+): Response {
+	const body: ValidationErrorResponse = { success: false, error: message, errors };
+	return json(body, { status: 400 });
+}
+
+/**
+ * Reads a request's JSON body and validates it against a schema
+ *
+ * @returns The parsed body, or a `400` response to return when it is invalid
+ */
+export async function parseRequestBody<T extends z.ZodType>(
+	request: Request,
+	schema: T
+): Promise<{ data: z.output<T> } | { response: Response }> {
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return {
+			response: validationErrorResponse([
+				{ field: '', code: 'invalid_json', message: 'Request body must be JSON' }
+			])
+		};
+	}
+
+	const result = schema.safeParse(body);
+	return result.success
+		? { data: result.data }
+		: { response: validationErrorResponse(toFieldErrors(result.error)) };
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	createWebhookDispatcher,
+	getRetryDelay,
+	getWebhookOptionsFromEnv,
+	signWebhook,
+	verifyWebhookSignature,
+	WEBHOOK_SIGNATURE_HEADER,
+	type WebhookBookingData,
+	type WebhookDispatcherOptions
+} from './webhook-dispatcher';
+
+const data: WebhookBookingData = {
+	bookingId: 'booking-1',
+	status: 'confirmed',
+	start: '2025-12-16T15:00:00.000Z',
+	end: '2025-12-16T15:30:00.000Z',
+	duration: 30,
+	attendees: [{ name: 'Ada', email: 'ada@example.com' }]
+};
+
+/**
+ * Creates a dispatcher whose requests get the given statuses in turn
+ */
+function setup(statuses: (number | Error)[], overrides: Partial<WebhookDispatcherOptions> = {}) {
+	const fetch = vi.fn(async () => {
+		const next = statuses.shift() ?? 200;
+		if (next instanceof Error) throw next;
+		return new Response(null, { status: next });
+	});
+	const sleep = vi.fn(async () => {});
+
+	const dispatcher = createWebhookDispatcher({
+		urls: ['https://crm.example/hooks'],
+		secret: 'shh',
+		maxAttempts: 4,
+		retryDelayMs: 1000,
+		timeoutMs: 1000,
+		logSize: 10,
+		fetch,
+		sleep,
+		now: () => new Date('2025-12-01T00:00:00Z'),
+		...overrides
+	});
+
+	return { dispatcher, fetch, sleep };
+}
+
+describe('getWebhookOptionsFromEnv', () => {
+	it('should disable webhooks when no URLs are set', () => {
+		expect(getWebhookOptionsFromEnv({}).urls).toEqual([]);
+	});
+
+	it('should require a secret and valid URLs', () => {
+		expect(() => getWebhookOptionsFromEnv({ WEBHOOK_URLS: 'https://crm.example' })).toThrow();
+		expect(() =>
+			getWebhookOptionsFromEnv({ WEBHOOK_URLS: 'ftp://crm.example', WEBHOOK_SECRET: 'shh' })
+		).toThrow();
+		expect(
+			getWebhookOptionsFromEnv({
+				WEBHOOK_URLS: 'https://a.example, https://b.example',
+				WEBHOOK_SECRET: 'shh'
+			}).urls
+		).toEqual(['https://a.example', 'https://b.example']);
+	});
+});
+
+describe('signWebhook', () => {
+	const sentAt = new Date('2025-12-01T00:00:00Z');
+
+	it('should verify its own signatures and reject tampered bodies', () => {
+		const header = signWebhook('{"a":1}', 'shh', 1764547200);
+		expect(header).toMatch(/^t=1764547200,v1=[0-9a-f]{64}$/);
+		expect(verifyWebhookSignature('{"a":1}', header, 'shh', { now: sentAt })).toBe(true);
+		expect(verifyWebhookSignature('{"a":2}', header, 'shh', { now: sentAt })).toBe(false);
+		expect(verifyWebhookSignature('{"a":1}', header, 'other', { now: sentAt })).toBe(false);
+		expect(verifyWebhookSignature('{"a":1}', 'garbage', 'shh', { now: sentAt })).toBe(false);
+	});
+
+	it('should reject stale timestamps', () => {
+		const header = signWebhook('{"a":1}', 'shh', 1764547200);
+		const later = (seconds: number) => new Date(sentAt.getTime() + seconds * 1000);
+
+		expect(verifyWebhookSignature('{"a":1}', header, 'shh', { now: later(300) })).toBe(true);
+		expect(verifyWebhookSignature('{"a":1}', header, 'shh', { now: later(301) })).toBe(false);
+		expect(
+			verifyWebhookSignature('{"a":1}', header, 'shh', { now: later(301), toleranceSeconds: 600 })
+		).toBe(true);
+	});
+
+	it('should reject timestamps too far in the future', () => {
+		const header = signWebhook('{"a":1}', 'shh', 1764547200 + 301);
+		expect(verifyWebhookSignature('{"a":1}', header, 'shh', { now: sentAt })).toBe(false);
+	});
+});
+
+describe('getRetryDelay', () => {
+	it('should double the delay for each retry up to an hour', () => {
+		expect([1, 2, 3, 4].map((retry) => getRetryDelay(retry, 1000))).toEqual([
+			1000, 2000, 4000, 8000
+		]);
+		expect(getRetryDelay(30, 1000)).toBe(60 * 60 * 1000);
+	});
+});
+
+describe('createWebhookDispatcher', () => {
+	it('should post a signed payload to every subscriber', async () => {
+		const { dispatcher, fetch } = setup([], {
+			urls: ['https://a.example', 'https://b.example']
+		});
+
+		const deliveries = dispatcher.emit('booking.created', data);
+		await dispatcher.settle();
+
+		expect(deliveries.map((delivery) => delivery.status)).toEqual(['succeeded', 'succeeded']);
+		expect(fetch).toHaveBeenCalledTimes(2);
+
+		const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+		const headers = init.headers as Record<string, string>;
+		expect(url).toBe('https://a.example');
+		expect(JSON.parse(init.body as string)).toMatchObject({ event: 'booking.created', data });
+		expect(
+			verifyWebhookSignature(init.body as string, headers[WEBHOOK_SIGNATURE_HEADER], 'shh', {
+				now: new Date('2025-12-01T00:00:00Z')
+			})
+		).toBe(true);
+	});
+
+	it('should retry server errors with exponential backoff', async () => {
+		const { dispatcher, sleep } = setup([503, new Error('ECONNRESET'), 200]);
+
+		const [delivery] = dispatcher.emit('booking.rescheduled', data);
+		await dispatcher.settle();
+
+		expect(delivery.status).toBe('succeeded');
+		expect(delivery.attempts.map((attempt) => attempt.status)).toEqual([503, null, 200]);
+		expect(delivery.attempts[1].error).toBe('ECONNRESET');
+		expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+	});
+
+	it('should give up after the last attempt', async () => {
+		const { dispatcher } = setup([500, 500, 500, 500]);
+
+		const [delivery] = dispatcher.emit('booking.cancelled', data);
+		await dispatcher.settle();
+
+		expect(delivery.status).toBe('failed');
+		expect(delivery.attempts).toHaveLength(4);
+	});
+
+	it('should not retry requests the receiver rejects', async () => {
+		const { dispatcher } = setup([400]);
+
+		const [delivery] = dispatcher.emit('booking.created', data);
+		await dispatcher.settle();
+
+		expect(delivery.status).toBe('failed');
+		expect(delivery.attempts).toHaveLength(1);
+	});
+
+	it('should replay a failed delivery with the same payload', async () => {
+		const { dispatcher, fetch } = setup([400]);
+
+		const [delivery] = dispatcher.emit('booking.created', data);
+		await dispatcher.settle();
+
+		expect(dispatcher.replay(delivery.id)).toBe(delivery);
+		await dispatcher.settle();
+
+		expect(delivery.status).toBe('succeeded');
+		expect(delivery.attempts.map((attempt) => attempt.status)).toEqual([400, 200]);
+		const bodies = fetch.mock.calls.map(
+			(call) => (call as unknown as [string, RequestInit])[1].body
+		);
+		expect(bodies[1]).toBe(bodies[0]);
+		expect(dispatcher.replay('missing')).toBeUndefined();
+	});
+
+	it('should keep the newest deliveries in the log', async () => {
+		const { dispatcher } = setup([], { logSize: 2 });
+
+		const ids = [1, 2, 3].map(() => dispatcher.emit('booking.created', data)[0].id);
+		await dispatcher.settle();
+
+		expect(dispatcher.listDeliveries().map((delivery) => delivery.id)).toEqual([ids[2], ids[1]]);
+		expect(dispatcher.getDelivery(ids[0])).toBeUndefined();
+	});
+});
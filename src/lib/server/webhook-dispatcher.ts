@@ -0,0 +1,400 @@
+/**
+ * Outgoing webhook delivery
+ * Posts signed booking events to subscriber URLs, retrying failed deliveries with
+ * exponential backoff. Each delivery and its attempts are kept in an in-memory
+ * log so failed ones can be inspected and replayed.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Attendee, Booking, CreateBookingRequest } from '$lib/api/bookings';
+import type { BookingAnswer } from '$lib/utils/questions';
+
+/**
+ * Booking lifecycle events sent to subscribers
+ */
+export const WEBHOOK_EVENTS = [
+	'booking.created',
+	'booking.rescheduled',
+	'booking.cancelled'
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Header carrying the delivery's payload ID, stable across retries and replays */
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+/** Header carrying the event name */
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+/** Header carrying the signature, as `t=<unix seconds>,v1=<hex HMAC-SHA256>` */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+/**
+ * Booking details sent with an event, in the same shape as a booking request
+ */
+export type WebhookBookingData = Pick<
+	CreateBookingRequest,
+	'start' | 'end' | 'duration' | 'meetingType' | 'timezone' | 'metadata'
+> & {
+	bookingId: string;
+	status: Booking['status'];
+	attendees: Attendee[];
+	/** Intake question answers with their labels */
+	answers?: BookingAnswer[];
+	/** Team hosts taking the meeting */
+	hostIds?: string[];
+};
+
+/**
+ * Body of a webhook request
+ */
+export interface WebhookPayload {
+	/** Unique event ID; receivers can use it to ignore duplicates */
+	id: string;
+	event: WebhookEvent;
+	/** ISO 8601 timestamp of when the event happened */
+	createdAt: string;
+	data: WebhookBookingData;
+}
+
+/**
+ * One attempt to deliver a webhook
+ */
+export interface DeliveryAttempt {
+	/** ISO 8601 timestamp */
+	at: string;
+	/** Response status, or null when no response was received */
+	status: number | null;
+	/** Network error or a note about the response */
+	error?: string;
+}
+
+/**
+ * A webhook sent to one subscriber URL, with its attempts so far
+ */
+export interface WebhookDelivery {
+	id: string;
+	url: string;
+	payload: WebhookPayload;
+	status: 'pending' | 'succeeded' | 'failed';
+	attempts: DeliveryAttempt[];
+}
+
+export interface WebhookDispatcherOptions {
+	/** Subscriber URLs every event is sent to */
+	urls: string[];
+	/** Secret the payloads are signed with */
+	secret: string;
+	/** Attempts per delivery, including the first */
+	maxAttempts: number;
+	/** Delay before the first retry in milliseconds; doubles for each later retry */
+	retryDelayMs: number;
+	/** Time allowed for each request in milliseconds */
+	timeoutMs: number;
+	/** Deliveries kept in the log; the oldest are dropped first */
+	logSize: number;
+	/** HTTP client, replaceable in tests */
+	fetch?: typeof fetch;
+	/** Waits between retries, replaceable in tests */
+	sleep?: (ms: number) => Promise<void>;
+	/** Clock, replaceable in tests */
+	now?: () => Date;
+}
+
+/**
+ * Delivers webhooks and keeps the delivery log
+ */
+export interface WebhookDispatcher {
+	/**
+	 * Sends an event to every subscriber in the background
+	 * @returns The new deliveries, one per subscriber URL
+	 */
+	emit(event: WebhookEvent, data: WebhookBookingData): WebhookDelivery[];
+	/** Returns logged deliveries, newest first */
+	listDeliveries(): WebhookDelivery[];
+	getDelivery(id: string): WebhookDelivery | undefined;
+	/**
+	 * Sends a logged delivery's payload again in the background, with a fresh
+	 * signature and a new round of retries
+	 * @returns The delivery, or undefined if it is not in the log
+	 */
+	replay(id: string): WebhookDelivery | undefined;
+	/** Resolves once every delivery in progress has finished, for tests and shutdown */
+	settle(): Promise<void>;
+}
+
+/** Longest wait between retries */
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+/** How far a signature's timestamp may be from the receiver's clock by default */
+export const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Reads webhook options from environment variables
+ *
+ * - WEBHOOK_URLS: comma-separated subscriber URLs (default: none, webhooks disabled)
+ * - WEBHOOK_SECRET: signing secret (required when WEBHOOK_URLS is set)
+ * - WEBHOOK_MAX_ATTEMPTS: attempts per delivery (default 5)
+ * - WEBHOOK_RETRY_DELAY_MS: delay before the first retry (default 1000)
+ *
+ * @throws Error when a variable is malformed or the secret is missing
+ */
+export function getWebhookOptionsFromEnv(
+	env: Record<string, string | undefined>
+): WebhookDispatcherOptions {
+	const urls = (env.WEBHOOK_URLS || '')
+		.split(',')
+		.map((url) => url.trim())
+		.filter(Boolean);
+
+	for (const url of urls) {
+		if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+			throw new Error(`WEBHOOK_URLS contains an invalid URL: "${url}"`);
+		}
+	}
+
+	if (urls.length > 0 && !env.WEBHOOK_SECRET) {
+		throw new Error('WEBHOOK_SECRET is required when WEBHOOK_URLS is set');
+	}
+
+	const maxAttempts = Number(env.WEBHOOK_MAX_ATTEMPTS || 5);
+	const retryDelayMs = Number(env.WEBHOOK_RETRY_DELAY_MS || 1000);
+	if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || !(retryDelayMs >= 0)) {
+		throw new Error('WEBHOOK_MAX_ATTEMPTS must be at least 1 and WEBHOOK_RETRY_DELAY_MS >= 0');
+	}
+
+	return {
+		urls,
+		secret: env.WEBHOOK_SECRET || '',
+		maxAttempts,
+		retryDelayMs,
+		timeoutMs: 10_000,
+		logSize: 500
+	};
+}
+
+/**
+ * Signs a webhook body. The timestamp is signed with the body so a captured
+ * request cannot be replayed later with the same signature.
+ *
+ * @param body - Raw JSON request body
+ * @param secret - Shared signing secret
+ * @param timestamp - Unix seconds the request is sent at
+ * @returns Signature header value, `t=<timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`
+ */
+export function signWebhook(body: string, secret: string, timestamp: number): string {
+	const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+	return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verifies a webhook signature header, as a receiver would. Timestamps further
+ * than the tolerance from the current time are rejected, so captured requests
+ * can't be replayed.
+ *
+ * @param body - Raw JSON request body
+ * @param header - Signature header value
+ * @param secret - Shared signing secret
+ * @param options - Seconds the timestamp may be off by (WEBHOOK_TOLERANCE_SECONDS by
+ *   default) and the current time
+ * @returns Whether the signature matches the body and a recent timestamp
+ */
+export function verifyWebhookSignature(
+	body: string,
+	header: string,
+	secret: string,
+	options: { toleranceSeconds?: number; now?: Date } = {}
+): boolean {
+	const { toleranceSeconds = WEBHOOK_TOLERANCE_SECONDS, now = new Date() } = options;
+	const timestamp = Number(/(?:^|,)t=(\d+)/.exec(header)?.[1]);
+	const signature = /(?:^|,)v1=([0-9a-f]+)/.exec(header)?.[1];
+	if (!Number.isInteger(timestamp) || !signature) return false;
+	if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false;
+
+	const expected = Buffer.from(signWebhook(body, secret, timestamp));
+	const actual = Buffer.from(`t=${timestamp},v1=${signature}`);
+	return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Returns the delay before a retry: the base delay doubled for each earlier retry,
+ * capped at one hour
+ *
+ * @param retry - Retry number, starting at 1
+ * @param baseMs - Delay before the first retry
+ *
+ * @example
+ * getRetryDelay(3, 1000) // 4000
+ */
+export function getRetryDelay(retry: number, baseMs: number): number {
+	return Math.min(baseMs * 2 ** (retry - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Checks whether a failed response is worth retrying. Other client errors mean
+ * the request itself was rejected, so sending it again would fail the same way.
+ */
+function isRetryable(status: number): boolean {
+	return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Converts a booking into the data sent with its events
+ */
+export function toWebhookData(booking: Booking): WebhookBookingData {
+	return {
+		bookingId: booking.id,
+		status: booking.status,
+		start: booking.start,
+		end: booking.end,
+		duration: booking.duration,
+		attendees: booking.attendees,
+		...(booking.meetingType && { meetingType: booking.meetingType }),
+		...(booking.timezone && { timezone: booking.timezone }),
+		...(booking.metadata && { metadata: booking.metadata }),
+		...(booking.answers && { answers: booking.answers }),
+		...(booking.hostIds && { hostIds: booking.hostIds })
+	};
+}
+
+/**
+ * Creates a webhook dispatcher
+ */
+export function createWebhookDispatcher(options: WebhookDispatcherOptions): WebhookDispatcher {
+	const doFetch = options.fetch ?? fetch;
+	const sleep =
+		options.sleep ?? ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+	const now = options.now ?? (() => new Date());
+
+	const deliveries = new Map<string, WebhookDelivery>();
+	const inFlight = new Set<Promise<void>>();
+
+	/**
+	 * Adds a delivery to the log, dropping the oldest once it is full
+	 */
+	function record(delivery: WebhookDelivery) {
+		deliveries.set(delivery.id, delivery);
+		for (const id of deliveries.keys()) {
+			if (deliveries.size <= options.logSize) break;
+			deliveries.delete(id);
+		}
+	}
+
+	/**
+	 * Sends one request and records the attempt
+	 * @returns Whether the request succeeded, failed for good or can be retried
+	 */
+	async function attempt(delivery: WebhookDelivery): Promise<'succeeded' | 'failed' | 'retry'> {
+		const body = JSON.stringify(delivery.payload);
+		const sentAt = now();
+
+		try {
+			const response = await doFetch(delivery.url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+					[WEBHOOK_ID_HEADER]: delivery.payload.id,
+					[WEBHOOK_EVENT_HEADER]: delivery.payload.event,
+					[WEBHOOK_SIGNATURE_HEADER]: signWebhook(
+						body,
+						options.secret,
+						Math.floor(sentAt.getTime() / 1000)
+					)
+				},
+				body,
+				signal: AbortSignal.timeout(options.timeoutMs)
+			});
+
+			if (response.ok) {
+				delivery.attempts.push({ at: sentAt.toISOString(), status: response.status });
+				return 'succeeded';
+			}
+
+			const retryable = isRetryable(response.status);
+			delivery.attempts.push({
+				at: sentAt.toISOString(),
+				status: response.status,
+				...(!retryable && { error: 'Rejected by the receiver; not retried' })
+			});
+			return retryable ? 'retry' : 'failed';
+		} catch (error) {
+			delivery.attempts.push({
+				at: sentAt.toISOString(),
+				status: null,
+				error: error instanceof Error ? error.message : 'Request failed'
+			});
+			return 'retry';
+		}
+	}
+
+	/**
+	 * Attempts a delivery until it succeeds, is rejected or runs out of attempts
+	 */
+	async function deliver(delivery: WebhookDelivery) {
+		delivery.status = 'pending';
+
+		let outcome = await attempt(delivery);
+		for (let retry = 1; outcome === 'retry' && retry < options.maxAttempts; retry++) {
+			await sleep(getRetryDelay(retry, options.retryDelayMs));
+			outcome = await attempt(delivery);
+		}
+
+		delivery.status = outcome === 'succeeded' ? 'succeeded' : 'failed';
+		if (delivery.status === 'failed') {
+			console.error(
+				`Webhook ${delivery.payload.event} to ${delivery.url} failed after ${delivery.attempts.length} attempts`
+			);
+		}
+	}
+
+	/**
+	 * Runs a delivery in the background, tracking it until it finishes
+	 */
+	function start(delivery: WebhookDelivery) {
+		const task = deliver(delivery).finally(() => inFlight.delete(task));
+		inFlight.add(task);
+	}
+
+	return {
+		emit(event, data) {
+			const payload: WebhookPayload = {
+				id: randomUUID(),
+				event,
+				createdAt: now().toISOString(),
+				data
+			};
+
+			return options.urls.map((url) => {
+				const delivery: WebhookDelivery = {
+					id: randomUUID(),
+					url,
+					payload,
+					status: 'pending',
+					attempts: []
+				};
+				record(delivery);
+				start(delivery);
+				return delivery;
+			});
+		},
+
+		listDeliveries() {
+			return [...deliveries.values()].reverse();
+		},
+
+		getDelivery(id) {
+			return deliveries.get(id);
+		},
+
+		replay(id) {
+			const delivery = deliveries.get(id);
+			if (!delivery) return undefined;
+
+			// A delivery still retrying is left to finish its current round
+			if (delivery.status !== 'pending') start(delivery);
+			return delivery;
+		},
+
+		async settle() {
+			while (inFlight.size > 0) {
+				await Promise.all(inFlight);
+			}
+		}
+	};
+}
@@ -0,0 +1,68 @@
+/**
+ * Booking webhooks
+ * Tells subscribers such as the CRM when meetings are booked, rescheduled or
+ * cancelled, so they don't have to poll the meetings API. Configure subscribers
+ * with the WEBHOOK_URLS and WEBHOOK_SECRET env variables.
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { env } from '$env/dynamic/private';
+import { getProvider } from '$lib/server/provider';
+import {
+	createWebhookDispatcher,
+	getWebhookOptionsFromEnv,
+	toWebhookData,
+	type WebhookDispatcher,
+	type WebhookEvent
+} from '$lib/server/webhook-dispatcher';
+
+let dispatcher: WebhookDispatcher | undefined;
+
+/**
+ * Returns the webhook dispatcher, creating it on first use.
+ * Events are dropped when WEBHOOK_URLS is unset.
+ *
+ * @throws Error when the webhook env variables are malformed
+ */
+export function getWebhooks(): WebhookDispatcher {
+	if (dispatcher) return dispatcher;
+
+	const options = getWebhookOptionsFromEnv(env);
+	dispatcher = createWebhookDispatcher(options);
+
+	console.log(`Sending webhooks to ${options.urls.length} subscriber(s)`);
+	return dispatcher;
+}
+
+/**
+ * Loads a booking and sends an event for it to every subscriber. Failures are
+ * logged rather than thrown, so routes can emit without waiting and without
+ * failing the request.
+ *
+ * @param event - Lifecycle event to send
+ * @param bookingId - Booking the event is about
+ */
+export async function emitBookingEvent(event: WebhookEvent, bookingId: string): Promise<void> {
+	try {
+		const webhooks = getWebhooks();
+		const booking = await getProvider().getMeeting(bookingId);
+		webhooks.emit(event, toWebhookData(booking));
+	} catch (error) {
+		console.error(`Failed to emit ${event} webhook for booking ${bookingId}:`, error);
+	}
+}
+
+/**
+ * Checks the request carries the admin token for the delivery log, as
+ * `Authorization: Bearer <WEBHOOK_ADMIN_TOKEN>`. The log is closed when the
+ * token is unset.
+ */
+export function isWebhookAdmin(request: Request): boolean {
+	const token = env.WEBHOOK_ADMIN_TOKEN;
+	const header = request.headers.get('Authorization');
+	if (!token || !header?.startsWith('Bearer ')) return false;
+
+	const expected = Buffer.from(token);
+	const actual = Buffer.from(header.slice('Bearer '.length));
+	return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+	ALL_TIMEZONES,
+	findClosestTimezone,
+	getTimezoneLabel,
+	getTimezoneOptions,
+	normalizeTimezone,
+	searchTimezones
+} from './timezones';
+
+const winter = new Date('2025-01-15T12:00:00Z');
+const summer = new Date('2025-07-15T12:00:00Z');
+
+describe('ALL_TIMEZONES', () => {
+	it('should include zones beyond the old curated list', () => {
+		const values = ALL_TIMEZONES.map((tz) => tz.value);
+		expect(values).toContain('Africa/Nairobi');
+		expect(values).toContain('Asia/Kathmandu');
+		expect(values).toContain('UTC');
+	});
+
+	it('should use modern names instead of legacy aliases', () => {
+		const values = ALL_TIMEZONES.map((tz) => tz.value);
+		expect(values).toContain('Asia/Kolkata');
+		expect(values).not.toContain('Asia/Calcutta');
+	});
+
+	it('should resolve country names', () => {
+		expect(ALL_TIMEZONES.find((tz) => tz.value === 'Africa/Nairobi')?.country).toBe('Kenya');
+	});
+});
+
+describe('getTimezoneOptions', () => {
+	it('should resolve offsets for the given date', () => {
+		const newYorkWinter = getTimezoneOptions(winter).find((tz) => tz.value === 'America/New_York');
+		const newYorkSummer = getTimezoneOptions(summer).find((tz) => tz.value === 'America/New_York');
+		expect(newYorkWinter?.offsetLabel).toBe('UTC-5');
+		expect(newYorkSummer?.offsetLabel).toBe('UTC-4');
+	});
+
+	it('should sort options by offset', () => {
+		const offsets = getTimezoneOptions(winter).map((tz) => tz.offsetMinutes);
+		expect(offsets).toEqual([...offsets].sort((a, b) => a - b));
+	});
+});
+
+describe('searchTimezones', () => {
+	const options = getTimezoneOptions(winter);
+
+	it('should find timezones by city', () => {
+		expect(searchTimezones(options, 'kathmandu')[0].value).toBe('Asia/Kathmandu');
+	});
+
+	it('should find timezones by country', () => {
+		expect(searchTimezones(options, 'kenya')[0].value).toBe('Africa/Nairobi');
+	});
+
+	it('should find timezones by abbreviation', () => {
+		const results = searchTimezones(options, 'EST');
+		expect(results.map((tz) => tz.value)).toContain('America/New_York');
+		expect(results[0].abbreviation).toBe('EST');
+	});
+
+	it('should ignore accents and underscores', () => {
+		expect(searchTimezones(options, 'sao paulo')[0].value).toBe('America/Sao_Paulo');
+	});
+
+	it('should tolerate missing letters', () => {
+		expect(searchTimezones(options, 'nairbi')[0].value).toBe('Africa/Nairobi');
+	});
+
+	it('should return nothing for unmatched queries', () => {
+		expect(searchTimezones(options, 'zzzzzz')).toEqual([]);
+	});
+});
+
+describe('findClosestTimezone', () => {
+	it('should return listed timezones unchanged', () => {
+		expect(findClosestTimezone('Africa/Nairobi', winter)).toBe('Africa/Nairobi');
+	});
+
+	it('should normalise legacy aliases', () => {
+		expect(findClosestTimezone('Asia/Katmandu', winter)).toBe('Asia/Kathmandu');
+	});
+
+	it('should match unlisted timezones by offset', () => {
+		const closest = findClosestTimezone('Etc/GMT-3', winter);
+		const option = getTimezoneOptions(winter).find((tz) => tz.value === closest);
+		expect(option?.offsetLabel).toBe('UTC+3');
+	});
+});
+
+describe('normalizeTimezone', () => {
+	it('should map legacy identifiers to current names', () => {
+		expect(normalizeTimezone('Europe/Kiev')).toBe('Europe/Kyiv');
+		expect(normalizeTimezone('Europe/London')).toBe('Europe/London');
+	});
+});
+
+describe('getTimezoneLabel', () => {
+	it('should return the city name', () => {
+		expect(getTimezoneLabel('America/Argentina/Buenos_Aires')).toBe('Buenos Aires');
+	});
+});
@@ -1,97 +1,363 @@
+import { getTimezoneOffset } from 'date-fns-tz';
+import { addMonths } from 'date-fns';
+import { TIMEZONE_COUNTRIES } from '$lib/timezone-countries';
+import { getTimezoneOffsetLabel, isValidTimezone } from '$lib/utils/timezone';
+
 export interface Timezone {
+	/** IANA timezone identifier (e.g. 'Africa/Nairobi') */
 	value: string;
+	/** City name for display (e.g. 'Nairobi') */
 	label: string;
+	/** Region for grouping (e.g. 'Africa') */
+	region: string;
+	/** Country name, when the timezone belongs to a single country */
+	country: string | null;
+}
+
+/**
+ * A timezone with offset and name details resolved for a specific date
+ */
+export interface TimezoneOption extends Timezone {
+	/** UTC offset in minutes on the date (e.g. -300 for UTC-5) */
+	offsetMinutes: number;
+	/** Display offset on the date (e.g. 'UTC-5', 'UTC+05:45') */
+	offsetLabel: string;
+	/** Short timezone name on the date (e.g. 'EST', 'CET'), or null if only a GMT offset exists */
+	abbreviation: string | null;
+	/** Long timezone name on the date (e.g. 'Eastern Standard Time') */
+	longName: string;
 }
 
 export interface TimezoneGroup {
 	group: string;
-	options: Timezone[];
-}
-
-export const TIMEZONE_GROUPS: TimezoneGroup[] = [
-	{
-		group: 'Europe',
-		options: [
-			{ value: 'Europe/London', label: 'London' },
-			{ value: 'Europe/Dublin', label: 'Dublin' },
-			{ value: 'Europe/Lisbon', label: 'Lisbon' },
-			{ value: 'Europe/Paris', label: 'Paris' },
-			{ value: 'Europe/Amsterdam', label: 'Amsterdam' },
-			{ value: 'Europe/Brussels', label: 'Brussels' },
-			{ value: 'Europe/Berlin', label: 'Berlin' },
-			{ value: 'Europe/Zurich', label: 'Zurich' },
-			{ value: 'Europe/Madrid', label: 'Madrid' },
-			{ value: 'Europe/Rome', label: 'Rome' },
-			{ value: 'Europe/Stockholm', label: 'Stockholm' },
-			{ value: 'Europe/Athens', label: 'Athens' },
-			{ value: 'Europe/Istanbul', label: 'Istanbul' }
-		]
-	},
-	{
-		group: 'Africa',
-		options: [
-			{ value: 'Africa/Johannesburg', label: 'Johannesburg' },
-			{ value: 'Africa/Lagos', label: 'Lagos' }
-		]
-	},
-	{
-		group: 'Americas',
-		options: [
-			{ value: 'America/New_York', label: 'New York' },
-			{ value: 'America/Chicago', label: 'Chicago' },
-			{ value: 'America/Denver', label: 'Denver' },
-			{ value: 'America/Los_Angeles', label: 'Los Angeles' },
-			{ value: 'America/Toronto', label: 'Toronto' },
-			{ value: 'America/Vancouver', label: 'Vancouver' },
-			{ value: 'America/Mexico_City', label: 'Mexico City' },
-			{ value: 'America/Sao_Paulo', label: 'São Paulo' },
-			{ value: 'America/Argentina/Buenos_Aires', label: 'Buenos Aires' }
-		]
-	},
-	{
-		group: 'Asia',
-		options: [
-			{ value: 'Asia/Dubai', label: 'Dubai' },
-			{ value: 'Asia/Kolkata', label: 'India (Kolkata)' },
-			{ value: 'Asia/Singapore', label: 'Singapore' },
-			{ value: 'Asia/Hong_Kong', label: 'Hong Kong' },
-			{ value: 'Asia/Shanghai', label: 'Shanghai' },
-			{ value: 'Asia/Tokyo', label: 'Tokyo' }
-		]
-	},
-	{
-		group: 'Australia & Pacific',
-		options: [
-			{ value: 'Australia/Sydney', label: 'Sydney' },
-			{ value: 'Australia/Melbourne', label: 'Melbourne' },
-			{ value: 'Australia/Perth', label: 'Perth' },
-			{ value: 'Pacific/Auckland', label: 'Auckland' }
-		]
+	options: TimezoneOption[];
+}
+
+/**
+ * Legacy identifiers still reported by some Intl implementations, mapped to their
+ * current tz database names so labels and country lookups use the modern city.
+ */
+const TIMEZONE_ALIASES: Record<string, string> = {
+	'Africa/Asmera': 'Africa/Asmara',
+	'America/Buenos_Aires': 'America/Argentina/Buenos_Aires',
+	'America/Catamarca': 'America/Argentina/Catamarca',
+	'America/Coral_Harbour': 'America/Atikokan',
+	'America/Cordoba': 'America/Argentina/Cordoba',
+	'America/Godthab': 'America/Nuuk',
+	'America/Indianapolis': 'America/Indiana/Indianapolis',
+	'America/Jujuy': 'America/Argentina/Jujuy',
+	'America/Louisville': 'America/Kentucky/Louisville',
+	'America/Mendoza': 'America/Argentina/Mendoza',
+	'Asia/Calcutta': 'Asia/Kolkata',
+	'Asia/Katmandu': 'Asia/Kathmandu',
+	'Asia/Rangoon': 'Asia/Yangon',
+	'Asia/Saigon': 'Asia/Ho_Chi_Minh',
+	'Atlantic/Faeroe': 'Atlantic/Faroe',
+	'Europe/Kiev': 'Europe/Kyiv',
+	'Pacific/Enderbury': 'Pacific/Kanton',
+	'Pacific/Ponape': 'Pacific/Pohnpei',
+	'Pacific/Truk': 'Pacific/Chuuk'
+};
+
+/**
+ * Display names for the first segment of IANA identifiers
+ */
+const REGION_NAMES: Record<string, string> = {
+	America: 'Americas',
+	Indian: 'Indian Ocean',
+	UTC: 'UTC'
+};
+
+/**
+ * Maps a timezone identifier to its current tz database name.
+ * Falls back to the given identifier if the runtime does not recognise the modern name.
+ *
+ * @example
+ * normalizeTimezone('Asia/Calcutta') // 'Asia/Kolkata'
+ * normalizeTimezone('Europe/London') // 'Europe/London'
+ */
+export function normalizeTimezone(timezone: string): string {
+	const modern = TIMEZONE_ALIASES[timezone];
+	return modern && isValidTimezone(modern) ? modern : timezone;
+}
+
+/**
+ * Returns every IANA timezone supported by the runtime, normalised and sorted.
+ * Falls back to the bundled zone.tab list where Intl.supportedValuesOf is unavailable.
+ */
+function getSupportedTimezoneIds(): string[] {
+	const ids =
+		typeof Intl.supportedValuesOf === 'function'
+			? Intl.supportedValuesOf('timeZone')
+			: Object.keys(TIMEZONE_COUNTRIES);
+
+	const normalized = new Set(ids.map(normalizeTimezone));
+	normalized.add('UTC');
+
+	return [...normalized].sort();
+}
+
+/**
+ * Looks up a country's English display name from its ISO code.
+ */
+function getCountryName(code: string | undefined): string | null {
+	if (!code) return null;
+	try {
+		return new Intl.DisplayNames(['en'], { type: 'region' }).of(code) ?? code;
+	} catch {
+		return code;
 	}
-];
+}
+
+/**
+ * Builds the static (date-independent) details for a timezone identifier.
+ */
+function toTimezone(value: string): Timezone {
+	const segments = value.split('/');
+	const regionKey = segments[0];
+
+	return {
+		value,
+		label: segments[segments.length - 1].replace(/_/g, ' '),
+		region: REGION_NAMES[regionKey] ?? regionKey,
+		country: getCountryName(TIMEZONE_COUNTRIES[value])
+	};
+}
+
+// Every supported timezone, independent of date
+export const ALL_TIMEZONES: Timezone[] = getSupportedTimezoneIds().map(toTimezone);
+
+/**
+ * Cached formatters for timezone names, keyed by "locale|style|timezone".
+ * Creating Intl.DateTimeFormat instances is comparatively slow.
+ */
+const nameFormatters = new Map<string, Intl.DateTimeFormat>();
 
-// Flatten all timezones for easier lookup
-export const ALL_TIMEZONES: Timezone[] = TIMEZONE_GROUPS.flatMap((group) => group.options);
+/**
+ * Returns a timezone's name on a date (e.g. 'EST', 'Eastern Standard Time', 'GMT+5:45').
+ */
+function getTimezoneName(
+	timezone: string,
+	date: Date,
+	style: 'short' | 'long',
+	locale: string = 'en-US'
+): string {
+	const key = `${locale}|${style}|${timezone}`;
+	let formatter = nameFormatters.get(key);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat(locale, { timeZone: timezone, timeZoneName: style });
+		nameFormatters.set(key, formatter);
+	}
+	return formatter.formatToParts(date).find((part) => part.type === 'timeZoneName')?.value ?? '';
+}
+
+/**
+ * Returns a short abbreviation for a timezone on a date, preferring a real
+ * abbreviation (EST, CET, BST) over a bare GMT offset.
+ */
+export function getTimezoneAbbreviation(timezone: string, date: Date): string | null {
+	const candidates = [
+		getTimezoneName(timezone, date, 'short', 'en-US'),
+		getTimezoneName(timezone, date, 'short', 'en-GB')
+	];
+	return candidates.find((name) => name && !/^(GMT|UTC)[+-]/.test(name)) ?? null;
+}
+
+/**
+ * Returns the UTC offset of a timezone on a date in minutes.
+ */
+function getOffsetMinutes(timezone: string, date: Date): number {
+	return Math.round(getTimezoneOffset(timezone, date) / 60000);
+}
 
+/**
+ * Resolves every supported timezone for a date, including its live UTC offset
+ * and names on that date. Sorted by offset, then city.
+ *
+ * @param date - Date the offsets apply to (default: now)
+ * @returns All timezone options ordered west to east
+ */
+export function getTimezoneOptions(date: Date = new Date()): TimezoneOption[] {
+	return ALL_TIMEZONES.map((timezone) => ({
+		...timezone,
+		offsetMinutes: getOffsetMinutes(timezone.value, date),
+		offsetLabel: getTimezoneOffsetLabel(timezone.value, date),
+		abbreviation: getTimezoneAbbreviation(timezone.value, date),
+		longName: getTimezoneName(timezone.value, date, 'long')
+	})).sort((a, b) => a.offsetMinutes - b.offsetMinutes || a.label.localeCompare(b.label));
+}
+
+/**
+ * Groups timezone options by region, keeping their existing order within each group.
+ *
+ * @param options - Timezone options to group
+ * @returns Groups sorted by region name
+ */
+export function groupTimezoneOptions(options: TimezoneOption[]): TimezoneGroup[] {
+	const groups = new Map<string, TimezoneOption[]>();
+	for (const option of options) {
+		const group = groups.get(option.region) ?? [];
+		group.push(option);
+		groups.set(option.region, group);
+	}
+	return [...groups.entries()]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([group, groupOptions]) => ({ group, options: groupOptions }));
+}
+
+/**
+ * Lowercases and strips accents and separators so "São_Paulo" matches "sao paulo".
+ */
+function normalizeSearchText(value: string): string {
+	return value
+		.normalize('NFD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.replace(/[_/]/g, ' ')
+		.toLowerCase()
+		.trim();
+}
+
+/**
+ * Whether every character of `needle` appears in `haystack` in order.
+ */
+function isSubsequence(needle: string, haystack: string): boolean {
+	let index = 0;
+	for (const char of haystack) {
+		if (char === needle[index]) index++;
+		if (index === needle.length) return true;
+	}
+	return false;
+}
+
+/**
+ * Scores how well a single search token matches a field (0 = no match).
+ */
+function scoreField(token: string, field: string, allowFuzzy: boolean): number {
+	if (!field) return 0;
+	if (field === token) return 100;
+	if (field.startsWith(token)) return 75;
+	if (field.split(' ').some((word) => word.startsWith(token))) return 60;
+	if (field.includes(token)) return 40;
+	if (allowFuzzy && token.length >= 3 && isSubsequence(token, field)) return 15;
+	return 0;
+}
+
+/**
+ * Fuzzy-searches timezone options by city, country, abbreviation, long name,
+ * offset or IANA identifier. Every word in the query must match something;
+ * results are ranked by match quality, then by offset.
+ *
+ * @param options - Timezone options to search
+ * @param query - Free-text query (e.g. "nairobi", "kenya", "EST", "+5:45")
+ * @param limit - Maximum number of results (default: all matches)
+ * @returns Matching options, best first
+ *
+ * @example
+ * searchTimezones(getTimezoneOptions(), 'kathmandu')[0].value // 'Asia/Kathmandu'
+ * searchTimezones(getTimezoneOptions(), 'kenya')[0].value // 'Africa/Nairobi'
+ */
+export function searchTimezones(
+	options: TimezoneOption[],
+	query: string,
+	limit?: number
+): TimezoneOption[] {
+	const tokens = normalizeSearchText(query).split(/\s+/).filter(Boolean);
+	if (tokens.length === 0) return limit ? options.slice(0, limit) : options;
+
+	const scored: { option: TimezoneOption; score: number }[] = [];
+
+	for (const option of options) {
+		const fields: [string, number, boolean][] = [
+			[normalizeSearchText(option.label), 1, true],
+			[normalizeSearchText(option.country ?? ''), 0.9, true],
+			[normalizeSearchText(option.abbreviation ?? ''), 1, false],
+			[normalizeSearchText(option.longName), 0.7, false],
+			[normalizeSearchText(option.offsetLabel), 0.8, false],
+			[normalizeSearchText(option.value), 0.6, false],
+			[normalizeSearchText(option.region), 0.3, false]
+		];
+
+		let total = 0;
+		for (const token of tokens) {
+			const best = Math.max(
+				...fields.map(([field, weight, fuzzy]) => scoreField(token, field, fuzzy) * weight)
+			);
+			if (best === 0) {
+				total = 0;
+				break;
+			}
+			total += best;
+		}
+
+		if (total > 0) scored.push({ option, score: total });
+	}
+
+	scored.sort((a, b) => b.score - a.score || a.option.offsetMinutes - b.option.offsetMinutes);
+	const results = scored.map(({ option }) => option);
+	return limit ? results.slice(0, limit) : results;
+}
+
+/**
+ * Detects the user's timezone from the browser, normalised to its current tz database name.
+ */
 export function detectUserTimezone(): string {
 	try {
-		return Intl.DateTimeFormat().resolvedOptions().timeZone;
+		return normalizeTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone);
 	} catch {
-		return 'America/New_York';
+		return 'UTC';
 	}
 }
 
-export function findClosestTimezone(detectedTz: string): string {
+/**
+ * Finds the listed timezone that best matches a detected timezone.
+ * Returns the timezone itself when listed. Otherwise picks the listed timezone whose
+ * offset on `date` is closest, preferring one that also matches six months later so
+ * daylight saving behaviour lines up. Unknown timezones are matched against the
+ * runtime's current UTC offset.
+ *
+ * @param detectedTz - Timezone identifier to match (e.g. from detectUserTimezone)
+ * @param date - Date the offsets are compared on (default: now)
+ * @returns A timezone identifier from ALL_TIMEZONES
+ *
+ * @example
+ * findClosestTimezone('Africa/Nairobi') // 'Africa/Nairobi'
+ * findClosestTimezone('Asia/Calcutta') // 'Asia/Kolkata'
+ * findClosestTimezone('Etc/GMT-3') // a UTC+3 city, e.g. 'Africa/Addis_Ababa'
+ */
+export function findClosestTimezone(detectedTz: string, date: Date = new Date()): string {
+	const normalized = normalizeTimezone(detectedTz);
+
 	// If detected timezone is in our list, use it
-	if (ALL_TIMEZONES.some((tz) => tz.value === detectedTz)) {
-		return detectedTz;
+	if (ALL_TIMEZONES.some((tz) => tz.value === normalized)) {
+		return normalized;
+	}
+
+	const laterDate = addMonths(date, 6);
+	const isKnown = isValidTimezone(normalized);
+	const targetOffset = isKnown ? getOffsetMinutes(normalized, date) : -date.getTimezoneOffset();
+	const targetLaterOffset = isKnown
+		? getOffsetMinutes(normalized, laterDate)
+		: -laterDate.getTimezoneOffset();
+
+	let closest = ALL_TIMEZONES[0].value;
+	let closestScore = Infinity;
+
+	for (const timezone of ALL_TIMEZONES) {
+		const offsetDiff = Math.abs(getOffsetMinutes(timezone.value, date) - targetOffset);
+		const laterDiff = Math.abs(getOffsetMinutes(timezone.value, laterDate) - targetLaterOffset);
+		// Offset on the date dominates; the later offset only breaks ties
+		const score = offsetDiff * 1000 + laterDiff;
+
+		if (score < closestScore) {
+			closest = timezone.value;
+			closestScore = score;
+		}
 	}
 
-	// Otherwise, return the first timezone (default fallback)
-	return ALL_TIMEZONES[0].value;
+	return closest;
 }
 
 export function getTimezoneLabel(timezoneValue: string): string {
-	const timezone = ALL_TIMEZONES.find((tz) => tz.value === timezoneValue);
+	const timezone = ALL_TIMEZONES.find((tz) => tz.value === normalizeTimezone(timezoneValue));
 	return timezone ? timezone.label : timezoneValue;
 }
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getGuestErrors, isValidEmail, isValidName } from './attendees';
+
+describe('isValidEmail', () => {
+	it('should accept plausible addresses and reject malformed ones', () => {
+		expect(isValidEmail('ada@example.com')).toBe(true);
+		expect(isValidEmail('ada@example')).toBe(false);
+		expect(isValidEmail('ada example.com')).toBe(false);
+	});
+});
+
+describe('isValidName', () => {
+	it('should reject names with line breaks or other control characters', () => {
+		expect(isValidName('Ada Lovelace')).toBe(true);
+		expect(isValidName('Zoë Ó Súilleabháin')).toBe(true);
+		expect(isValidName('Ada\r\nEve')).toBe(false);
+		expect(isValidName('Ada\u0000')).toBe(false);
+	});
+});
+
+describe('getGuestErrors', () => {
+	it('should flag invalid emails per row', () => {
+		expect(getGuestErrors('ada@acme.com', ['bob@acme.com', 'nope'])).toEqual([
+			null,
+			'invalid_email'
+		]);
+	});
+
+	it('should flag duplicates regardless of case and whitespace', () => {
+		expect(getGuestErrors('ada@acme.com', ['bob@acme.com', ' BOB@acme.com '])).toEqual([
+			null,
+			'duplicate_email'
+		]);
+	});
+
+	it("should flag the booker's own email", () => {
+		expect(getGuestErrors('ada@acme.com', ['Ada@Acme.com'])).toEqual(['own_email']);
+	});
+
+	it('should ignore blank rows', () => {
+		expect(getGuestErrors('ada@acme.com', ['', '  '])).toEqual([null, null]);
+	});
+});
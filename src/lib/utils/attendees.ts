@@ -0,0 +1,62 @@
+/**
+ * Maximum number of guests the booker can invite, in addition to themselves
+ */
+export const MAX_GUESTS = 5;
+
+/**
+ * Longest attendee name accepted with a booking
+ */
+export const MAX_NAME_LENGTH = 100;
+
+/**
+ * Checks a name has no control characters, such as line breaks
+ */
+export function isValidName(name: string): boolean {
+	// eslint-disable-next-line no-control-regex
+	return !/[\x00-\x1F\x7F]/.test(name);
+}
+
+/**
+ * Checks an email address has a plausible format
+ */
+export function isValidEmail(email: string): boolean {
+	return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+/**
+ * Normalises an email address for duplicate detection
+ */
+function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase();
+}
+
+/**
+ * Why a guest email is invalid
+ */
+export type GuestErrorCode = 'invalid_email' | 'own_email' | 'duplicate_email';
+
+/**
+ * Validates guest email rows in the booking form.
+ * Blank rows are ignored; they are dropped when the form is submitted.
+ *
+ * @param bookerEmail - The booker's own email
+ * @param guests - Guest emails in row order
+ * @returns An error code per row, or null when the row is valid
+ *
+ * @example
+ * getGuestErrors('ada@acme.com', ['bob@acme.com', 'BOB@acme.com', 'nope'])
+ * // Returns: [null, 'duplicate_email', 'invalid_email']
+ */
+export function getGuestErrors(bookerEmail: string, guests: string[]): (GuestErrorCode | null)[] {
+	const seen = new Set([normalizeEmail(bookerEmail)]);
+
+	return guests.map((guest) => {
+		const email = normalizeEmail(guest);
+		if (!email) return null;
+		if (!isValidEmail(email)) return 'invalid_email';
+		if (email === normalizeEmail(bookerEmail)) return 'own_email';
+		if (seen.has(email)) return 'duplicate_email';
+		seen.add(email);
+		return null;
+	});
+}
@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import {
+	generateTimeSlots,
+	getDatesWithAvailability,
+	getDefaultSlotInterval,
+	getEarliestSlots,
+	getFirstAvailableDate,
+	isMeetingDuration,
+	isSlotAvailable,
+	roundToNearestSlotBoundary
+} from './availability';
+
+// Timestamps below have no offset so they are parsed in the test runner's local
+// timezone, matching how the slot generator groups and aligns slots.
+
+/**
+ * Formats slots as local "HH:mm-HH:mm" strings for readable assertions.
+ */
+function formatSlots(slots: { start: Date; end: Date }[]): string[] {
+	return slots.map((slot) => {
+		const pad = (n: number) => String(n).padStart(2, '0');
+		const time = (d: Date) => `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+		return `${time(slot.start)}-${time(slot.end)}`;
+	});
+}
+
+describe('roundToNearestSlotBoundary', () => {
+	it('should round up to the next half hour by default', () => {
+		const result = roundToNearestSlotBoundary(new Date('2025-12-16T09:15:00'));
+		expect(result.getHours()).toBe(9);
+		expect(result.getMinutes()).toBe(30);
+	});
+
+	it('should round up to the next hour past the half hour', () => {
+		const result = roundToNearestSlotBoundary(new Date('2025-12-16T09:45:00'));
+		expect(result.getHours()).toBe(10);
+		expect(result.getMinutes()).toBe(0);
+	});
+
+	it('should keep times already on a boundary and clear seconds', () => {
+		const result = roundToNearestSlotBoundary(new Date('2025-12-16T09:00:42'));
+		expect(result.getHours()).toBe(9);
+		expect(result.getMinutes()).toBe(0);
+		expect(result.getSeconds()).toBe(0);
+	});
+
+	it('should round to quarter hours with a 15-minute interval', () => {
+		const result = roundToNearestSlotBoundary(new Date('2025-12-16T09:05:00'), 15);
+		expect(result.getMinutes()).toBe(15);
+	});
+});
+
+describe('getDefaultSlotInterval', () => {
+	it('should step short meetings by their own length', () => {
+		expect(getDefaultSlotInterval(15)).toBe(15);
+	});
+
+	it('should cap the step at 30 minutes for longer meetings', () => {
+		expect(getDefaultSlotInterval(60)).toBe(30);
+		expect(getDefaultSlotInterval(90)).toBe(30);
+	});
+});
+
+describe('isMeetingDuration', () => {
+	it('should accept supported durations', () => {
+		expect(isMeetingDuration(45)).toBe(true);
+	});
+
+	it('should reject unsupported durations', () => {
+		expect(isMeetingDuration(20)).toBe(false);
+	});
+});
+
+describe('getDatesWithAvailability', () => {
+	it('should collect each date that has a slot', () => {
+		const dates = getDatesWithAvailability([
+			{ start: '2025-12-16T09:00:00', end: '2025-12-16T17:00:00' },
+			{ start: '2025-12-17T09:00:00', end: '2025-12-17T17:00:00' }
+		]);
+		expect([...dates]).toEqual(['2025-12-16', '2025-12-17']);
+	});
+
+	it('should use the date in the given timezone', () => {
+		const dates = getDatesWithAvailability(
+			[{ start: '2025-12-16T20:00:00Z', end: '2025-12-16T22:00:00Z' }],
+			'Asia/Tokyo'
+		);
+		expect([...dates]).toEqual(['2025-12-17']);
+	});
+});
+
+describe('getFirstAvailableDate', () => {
+	const dates = new Set(['2026-01-05', '2025-12-22', '2025-12-17']);
+
+	it('should return the earliest date on or after the given date', () => {
+		expect(getFirstAvailableDate(dates, '2025-12-01')).toBe('2025-12-17');
+		expect(getFirstAvailableDate(dates, '2025-12-22')).toBe('2025-12-22');
+		expect(getFirstAvailableDate(dates, '2025-12-23')).toBe('2026-01-05');
+	});
+
+	it('should return undefined when no date is late enough', () => {
+		expect(getFirstAvailableDate(dates, '2026-01-06')).toBeUndefined();
+	});
+});
+
+describe('getEarliestSlots', () => {
+	// Out of order, as loaded months can be
+	const availability = [
+		{ start: '2025-12-18T09:00:00', end: '2025-12-18T12:00:00' },
+		{ start: '2025-12-16T16:00:00', end: '2025-12-16T17:00:00' },
+		{ start: '2025-12-16T09:15:00', end: '2025-12-16T10:00:00' }
+	];
+
+	it('should return the earliest slots across dates in start order', () => {
+		const slots = getEarliestSlots(availability, 4, { duration: 30 });
+		expect(slots.map((slot) => slot.start.getDate())).toEqual([16, 16, 16, 18]);
+		expect(formatSlots(slots)).toEqual([
+			'09:30-10:00',
+			'16:00-16:30',
+			'16:30-17:00',
+			'09:00-09:30'
+		]);
+	});
+
+	it('should generate slots like the calendar, with buffers', () => {
+		const slots = getEarliestSlots(availability, 2, { duration: 60, bufferBefore: 15 });
+		expect(formatSlots(slots)).toEqual(['09:30-10:30', '10:00-11:00']);
+		expect(slots[0].start.getDate()).toBe(18);
+	});
+
+	it('should return fewer slots when there are not enough', () => {
+		expect(getEarliestSlots(availability.slice(1, 2), 5, { duration: 30 })).toHaveLength(2);
+		expect(getEarliestSlots([], 3, { duration: 30 })).toEqual([]);
+	});
+});
+
+describe('generateTimeSlots', () => {
+	const availability = [{ start: '2025-12-16T09:15:00', end: '2025-12-16T11:00:00' }];
+
+	it('should generate back-to-back 30-minute slots aligned to :00/:30', () => {
+		const slots = generateTimeSlots(availability, '2025-12-16', { duration: 30 });
+		expect(formatSlots(slots)).toEqual(['09:30-10:00', '10:00-10:30', '10:30-11:00']);
+	});
+
+	it('should generate 15-minute slots on quarter-hour boundaries', () => {
+		const slots = generateTimeSlots(availability, '2025-12-16', { duration: 15 });
+		expect(formatSlots(slots)).toEqual([
+			'09:15-09:30',
+			'09:30-09:45',
+			'09:45-10:00',
+			'10:00-10:15',
+			'10:15-10:30',
+			'10:30-10:45',
+			'10:45-11:00'
+		]);
+	});
+
+	it('should generate overlapping 60-minute slots stepping by the interval', () => {
+		const slots = generateTimeSlots(availability, '2025-12-16', { duration: 60, interval: 30 });
+		expect(formatSlots(slots)).toEqual(['09:30-10:30', '10:00-11:00']);
+	});
+
+	it('should skip blocks too short for the duration', () => {
+		const shortBlock = [{ start: '2025-12-16T09:15:00', end: '2025-12-16T10:30:00' }];
+		const slots = generateTimeSlots(shortBlock, '2025-12-16', { duration: 90, interval: 30 });
+		expect(slots).toEqual([]);
+	});
+
+	it('should keep buffers before and after each slot inside the block', () => {
+		const slots = generateTimeSlots(availability, '2025-12-16', {
+			duration: 30,
+			bufferBefore: 15,
+			bufferAfter: 15
+		});
+		expect(formatSlots(slots)).toEqual(['09:30-10:00', '10:00-10:30']);
+	});
+
+	it('should only use blocks on the selected date', () => {
+		const slots = generateTimeSlots(availability, '2025-12-17', { duration: 30 });
+		expect(slots).toEqual([]);
+	});
+
+	it('should group and align slots in the given timezone', () => {
+		// 09:15-11:00 in Kathmandu (UTC+05:45); slots should start on :00/:30 Kathmandu time
+		const kathmandu = [{ start: '2025-12-16T03:30:00Z', end: '2025-12-16T05:15:00Z' }];
+		const slots = generateTimeSlots(kathmandu, '2025-12-16', {
+			duration: 30,
+			timeZone: 'Asia/Kathmandu'
+		});
+		expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+			'2025-12-16T03:45:00.000Z',
+			'2025-12-16T04:15:00.000Z',
+			'2025-12-16T04:45:00.000Z'
+		]);
+	});
+
+	it('should list slots from overlapping blocks once, in start order', () => {
+		const overlapping = [
+			{ start: '2025-12-16T10:00:00', end: '2025-12-16T11:30:00' },
+			{ start: '2025-12-16T09:00:00', end: '2025-12-16T10:30:00' }
+		];
+		const slots = generateTimeSlots(overlapping, '2025-12-16', { duration: 30 });
+		expect(formatSlots(slots)).toEqual([
+			'09:00-09:30',
+			'09:30-10:00',
+			'10:00-10:30',
+			'10:30-11:00',
+			'11:00-11:30'
+		]);
+	});
+
+	it('should return no slots when no date is selected', () => {
+		expect(generateTimeSlots(availability, '', { duration: 30 })).toEqual([]);
+	});
+});
+
+describe('isSlotAvailable', () => {
+	const availability = [{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T11:00:00Z' }];
+
+	it('should accept slots inside a block', () => {
+		const start = new Date('2025-12-16T10:30:00Z');
+		const end = new Date('2025-12-16T11:00:00Z');
+		expect(isSlotAvailable(availability, start, end)).toBe(true);
+	});
+
+	it('should reject slots overrunning a block', () => {
+		const start = new Date('2025-12-16T10:45:00Z');
+		const end = new Date('2025-12-16T11:15:00Z');
+		expect(isSlotAvailable(availability, start, end)).toBe(false);
+	});
+
+	it('should require buffers to fit inside the block', () => {
+		const start = new Date('2025-12-16T09:00:00Z');
+		const end = new Date('2025-12-16T09:30:00Z');
+		expect(isSlotAvailable(availability, start, end, { before: 15 })).toBe(false);
+		expect(isSlotAvailable(availability, start, end, { after: 15 })).toBe(true);
+	});
+
+	it('should reject slots when there is no availability', () => {
+		const start = new Date('2025-12-16T09:00:00Z');
+		const end = new Date('2025-12-16T09:30:00Z');
+		expect(isSlotAvailable([], start, end)).toBe(false);
+	});
+});
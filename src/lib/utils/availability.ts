@@ -1,4 +1,5 @@
-import { format, setMinutes, setSeconds, setHours, addMinutes, isBefore } from 'date-fns';
+import { format, setSeconds, setMilliseconds, addMinutes, isBefore } from 'date-fns';
+import { formatInTimeZone } from 'date-fns-tz';
 
 /**
  * Availability slot interface
@@ -8,6 +9,15 @@ export interface AvailabilitySlot {
 	end: string;
 }
 
+/**
+ * Availability payload returned by the availability API
+ */
+export interface AvailabilityResponse {
+	/** IANA timezone of the organisation (e.g. 'America/New_York') */
+	timezone: string;
+	slots: AvailabilitySlot[];
+}
+
 /**
  * Time slot interface with Date objects
  */
@@ -16,11 +26,37 @@ export interface TimeSlot {
 	end: Date;
 }
 
+/**
+ * Formats a date as YYYY-MM-DD in the given timezone, or the runtime's local timezone.
+ *
+ * @param date - Date to format
+ * @param timeZone - Optional IANA timezone identifier
+ * @returns Date string in YYYY-MM-DD format
+ *
+ * @example
+ * formatDateKey(new Date('2025-12-16T23:30:00Z'), 'Asia/Kolkata') // '2025-12-17'
+ */
+export function formatDateKey(date: Date, timeZone?: string): string {
+	return timeZone ? formatInTimeZone(date, timeZone, 'yyyy-MM-dd') : format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Returns the wall-clock minutes since midnight of a date in the given timezone,
+ * or the runtime's local timezone.
+ */
+function getMinutesSinceMidnight(date: Date, timeZone?: string): number {
+	if (!timeZone) return date.getHours() * 60 + date.getMinutes();
+
+	const [hours, minutes] = formatInTimeZone(date, timeZone, 'H:m').split(':').map(Number);
+	return hours * 60 + minutes;
+}
+
 /**
  * Generates a set of dates (in YYYY-MM-DD format) that have at least one availability slot.
  * Used to highlight available dates in a calendar.
  *
  * @param availability - Array of availability slots with ISO 8601 timestamp strings
+ * @param timeZone - Optional IANA timezone the dates are shown in (default: local timezone)
  * @returns Set of date strings in YYYY-MM-DD format
  *
  * @example
@@ -30,95 +66,257 @@ export interface TimeSlot {
  * ];
  * getDatesWithAvailability(slots) // Set { '2025-12-16', '2025-12-17' }
  */
-export function getDatesWithAvailability(availability: AvailabilitySlot[]): Set<string> {
+export function getDatesWithAvailability(
+	availability: AvailabilitySlot[],
+	timeZone?: string
+): Set<string> {
 	const dates = new Set<string>();
 	for (const slot of availability) {
 		const date = new Date(slot.start);
-		dates.add(format(date, 'yyyy-MM-dd'));
+		dates.add(formatDateKey(date, timeZone));
 	}
 	return dates;
 }
 
 /**
- * Rounds a time to the nearest slot boundary (00 or 30 minutes).
+ * Returns the first date with availability on or after a date.
+ *
+ * @param dates - Dates with availability in YYYY-MM-DD format, in any order
+ * @param from - First date to consider in YYYY-MM-DD format
+ * @returns The date, or undefined when none of the dates is on or after `from`
+ *
+ * @example
+ * getFirstAvailableDate(new Set(['2025-12-22', '2025-12-17']), '2025-12-18') // '2025-12-22'
+ */
+export function getFirstAvailableDate(dates: Iterable<string>, from: string): string | undefined {
+	let first: string | undefined;
+	for (const date of dates) {
+		if (date >= from && (!first || date < first)) first = date;
+	}
+	return first;
+}
+
+/**
+ * Finds the earliest time slots across every date in the availability, such as
+ * the soonest times a visitor could book. Slots are generated date by date in the
+ * same way as `generateTimeSlots`, so they match the times the calendar offers.
+ *
+ * @param availability - Array of availability slots with ISO 8601 timestamp strings
+ * @param count - Maximum number of slots to return
+ * @param options - Slot duration, step interval, buffers and timezone
+ * @returns Up to `count` slots in start order
+ *
+ * @example
+ * const slots = [
+ *   { start: '2025-12-17T09:00:00Z', end: '2025-12-17T10:00:00Z' },
+ *   { start: '2025-12-16T16:00:00Z', end: '2025-12-16T17:00:00Z' }
+ * ];
+ * getEarliestSlots(slots, 3, { duration: 30, timeZone: 'UTC' })
+ * // Returns: 16:00 and 16:30 on the 16th, then 9:00 on the 17th
+ */
+export function getEarliestSlots(
+	availability: AvailabilitySlot[],
+	count: number,
+	options: SlotOptions
+): TimeSlot[] {
+	const slots: TimeSlot[] = [];
+	const dates = [...getDatesWithAvailability(availability, options.timeZone)].sort();
+
+	// Dates are in order, so later dates aren't needed once there are enough slots
+	for (const date of dates) {
+		if (slots.length >= count) break;
+		slots.push(...generateTimeSlots(availability, date, options));
+	}
+
+	return slots.sort((a, b) => a.start.getTime() - b.start.getTime()).slice(0, count);
+}
+
+/**
+ * Meeting lengths (in minutes) that visitors can choose from.
+ */
+export const MEETING_DURATIONS = [15, 30, 45, 60, 90] as const;
+
+/**
+ * A supported meeting length in minutes.
+ */
+export type MeetingDuration = (typeof MEETING_DURATIONS)[number];
+
+/**
+ * Meeting length used when none has been chosen.
+ */
+export const DEFAULT_MEETING_DURATION: MeetingDuration = 30;
+
+/**
+ * Options for slot generation.
+ */
+export interface SlotOptions {
+	/** Length of each slot in minutes */
+	duration: number;
+	/**
+	 * Minutes between consecutive slot start times. Slots start on multiples of this
+	 * value from midnight. Defaults to the duration, capped at 30 minutes.
+	 */
+	interval?: number;
+	/** Minutes that must be free inside the availability block before each slot */
+	bufferBefore?: number;
+	/** Minutes that must be free inside the availability block after each slot */
+	bufferAfter?: number;
+	/**
+	 * IANA timezone used to group blocks by date and align slot boundaries.
+	 * Defaults to the runtime's local timezone.
+	 */
+	timeZone?: string;
+}
+
+/**
+ * Checks whether a value is one of the supported meeting durations.
+ *
+ * @param value - Duration in minutes
+ * @returns True if the value is in MEETING_DURATIONS
+ *
+ * @example
+ * isMeetingDuration(45) // true
+ * isMeetingDuration(20) // false
+ */
+export function isMeetingDuration(value: number): value is MeetingDuration {
+	return (MEETING_DURATIONS as readonly number[]).includes(value);
+}
+
+/**
+ * Returns the default step between slot start times for a meeting duration.
+ * Short meetings step by their own length; longer meetings step every 30 minutes
+ * so visitors still get :00 and :30 start times.
+ *
+ * @param duration - Meeting length in minutes
+ * @returns Step interval in minutes
+ *
+ * @example
+ * getDefaultSlotInterval(15) // 15
+ * getDefaultSlotInterval(60) // 30
+ */
+export function getDefaultSlotInterval(duration: number): number {
+	return Math.min(duration, 30);
+}
+
+/**
+ * Rounds a time up to the next slot boundary. Boundaries are multiples of
+ * `interval` minutes from midnight (e.g. :00/:30 for 30, :00/:15/:30/:45 for 15)
+ * in the given timezone, so slots line up with that timezone's wall clock.
  *
  * @param date - Date to round
- * @returns Rounded date at :00 or :30 boundary with seconds set to 0
+ * @param interval - Boundary interval in minutes (default: 30)
+ * @param timeZone - Optional IANA timezone for the wall clock (default: local timezone)
+ * @returns Rounded date on a boundary with seconds set to 0
  *
  * @example
  * roundToNearestSlotBoundary(new Date('2025-12-16T09:15:00')) // 2025-12-16T09:30:00
  * roundToNearestSlotBoundary(new Date('2025-12-16T09:45:00')) // 2025-12-16T10:00:00
  * roundToNearestSlotBoundary(new Date('2025-12-16T09:00:00')) // 2025-12-16T09:00:00
+ * roundToNearestSlotBoundary(new Date('2025-12-16T09:05:00'), 15) // 2025-12-16T09:15:00
  */
-export function roundToNearestSlotBoundary(date: Date): Date {
-	const minutes = date.getMinutes();
-	let rounded = new Date(date);
-
-	if (minutes > 0 && minutes < 30) {
-		// Round up to :30
-		rounded = setSeconds(setMinutes(rounded, 30), 0);
-	} else if (minutes > 30) {
-		// Round up to next hour
-		rounded = setSeconds(setMinutes(setHours(rounded, rounded.getHours() + 1), 0), 0);
-	} else {
-		// Already on boundary, just clear seconds
-		rounded = setSeconds(rounded, 0);
+export function roundToNearestSlotBoundary(
+	date: Date,
+	interval: number = 30,
+	timeZone?: string
+): Date {
+	const rounded = setMilliseconds(setSeconds(date, 0), 0);
+	const minutesSinceMidnight = getMinutesSinceMidnight(rounded, timeZone);
+	const remainder = minutesSinceMidnight % interval;
+
+	if (remainder === 0) {
+		// Already on boundary, seconds cleared above
+		return rounded;
 	}
 
-	return rounded;
+	return addMinutes(rounded, interval - remainder);
 }
 
 /**
- * Generates 30-minute time slots from availability blocks for a specific date.
- * Slots are aligned to :00 or :30 minute boundaries.
+ * Generates time slots of a given duration from availability blocks for a specific date.
+ * Slot start times are aligned to `interval` boundaries and a slot is only offered
+ * when it fits entirely inside an availability block, including any buffers.
+ * Blocks may overlap, as they do for round-robin teams; each slot is listed once,
+ * in start order.
  *
  * @param availability - Array of availability slots with ISO 8601 timestamp strings
  * @param selectedDate - Date string in YYYY-MM-DD format
- * @returns Array of 30-minute time slots with start and end Date objects
+ * @param options - Slot duration, step interval and buffers in minutes
+ * @returns Array of time slots with start and end Date objects
  *
  * @example
  * const slots = [
  *   { start: '2025-12-16T09:15:00Z', end: '2025-12-16T11:00:00Z' }
  * ];
- * generateThirtyMinuteSlots(slots, '2025-12-16')
+ * generateTimeSlots(slots, '2025-12-16', { duration: 60, interval: 30 })
  * // Returns: [
- * //   { start: Date(9:30), end: Date(10:00) },
- * //   { start: Date(10:00), end: Date(10:30) },
- * //   { start: Date(10:30), end: Date(11:00) }
+ * //   { start: Date(9:30), end: Date(10:30) },
+ * //   { start: Date(10:00), end: Date(11:00) }
  * // ]
  */
-export function generateThirtyMinuteSlots(
+export function generateTimeSlots(
 	availability: AvailabilitySlot[],
-	selectedDate: string
+	selectedDate: string,
+	options: SlotOptions
 ): TimeSlot[] {
 	if (!selectedDate) return [];
 
+	const { duration, bufferBefore = 0, bufferAfter = 0, timeZone } = options;
+	const interval = options.interval ?? getDefaultSlotInterval(duration);
+
 	// Get all availability blocks for the selected date
 	const daySlots = availability.filter((slot) => {
-		return format(new Date(slot.start), 'yyyy-MM-dd') === selectedDate;
+		return formatDateKey(new Date(slot.start), timeZone) === selectedDate;
 	});
 
-	const thirtyMinSlots: TimeSlot[] = [];
+	// Keyed by start time, so slots offered by overlapping blocks are listed once
+	const timeSlots = new Map<number, TimeSlot>();
 
 	for (const block of daySlots) {
 		const startTime = new Date(block.start);
 		const endTime = new Date(block.end);
 
-		// Round start time to next :00 or :30 boundary
-		let currentTime = roundToNearestSlotBoundary(startTime);
+		// Round the earliest start (after the leading buffer) to the next interval boundary
+		let currentTime = roundToNearestSlotBoundary(
+			addMinutes(startTime, bufferBefore),
+			interval,
+			timeZone
+		);
 
-		// Generate 30-minute slots on hour and half-hour boundaries
+		// Step through the block, keeping slots whose trailing buffer ends within it
 		while (currentTime < endTime) {
-			const slotEnd = addMinutes(currentTime, 30);
-			if (!isBefore(endTime, slotEnd)) {
-				thirtyMinSlots.push({
-					start: new Date(currentTime),
-					end: slotEnd
-				});
-			}
-			currentTime = slotEnd;
+			const slotEnd = addMinutes(currentTime, duration);
+			if (isBefore(endTime, addMinutes(slotEnd, bufferAfter))) break;
+
+			timeSlots.set(currentTime.getTime(), {
+				start: new Date(currentTime),
+				end: slotEnd
+			});
+			currentTime = addMinutes(currentTime, interval);
 		}
 	}
 
-	return thirtyMinSlots;
+	return [...timeSlots.values()].sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Checks that a meeting, including its buffers, fits entirely inside one availability block.
+ * Used to revalidate a requested slot against fresh availability before booking.
+ *
+ * @param availability - Availability blocks
+ * @param start - Meeting start
+ * @param end - Meeting end
+ * @param buffer - Minutes that must also be free before and after the meeting
+ */
+export function isSlotAvailable(
+	availability: AvailabilitySlot[],
+	start: Date,
+	end: Date,
+	buffer: { before?: number; after?: number } = {}
+): boolean {
+	const from = addMinutes(start, -(buffer.before ?? 0)).getTime();
+	const to = addMinutes(end, buffer.after ?? 0).getTime();
+
+	return availability.some(
+		(block) => new Date(block.start).getTime() <= from && new Date(block.end).getTime() >= to
+	);
 }
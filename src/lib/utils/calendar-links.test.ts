@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { getGoogleCalendarUrl, getOutlookCalendarUrl } from './calendar-links';
+
+const event = {
+	title: 'Product demo',
+	start: new Date('2025-12-16T15:00:00Z'),
+	end: new Date('2025-12-16T16:00:00Z'),
+	location: 'Google Meet'
+};
+
+describe('getGoogleCalendarUrl', () => {
+	it('should prefill the title, UTC dates and location', () => {
+		const url = new URL(getGoogleCalendarUrl(event));
+		expect(url.origin).toBe('https://calendar.google.com');
+		expect(url.searchParams.get('action')).toBe('TEMPLATE');
+		expect(url.searchParams.get('text')).toBe('Product demo');
+		expect(url.searchParams.get('dates')).toBe('20251216T150000Z/20251216T160000Z');
+		expect(url.searchParams.get('location')).toBe('Google Meet');
+	});
+
+	it('should omit empty optional fields', () => {
+		const url = new URL(getGoogleCalendarUrl({ ...event, location: undefined }));
+		expect(url.searchParams.has('location')).toBe(false);
+		expect(url.searchParams.has('details')).toBe(false);
+	});
+});
+
+describe('getOutlookCalendarUrl', () => {
+	it('should prefill the subject and ISO dates', () => {
+		const url = new URL(getOutlookCalendarUrl(event));
+		expect(url.searchParams.get('subject')).toBe('Product demo');
+		expect(url.searchParams.get('startdt')).toBe('2025-12-16T15:00:00.000Z');
+		expect(url.searchParams.get('enddt')).toBe('2025-12-16T16:00:00.000Z');
+	});
+});
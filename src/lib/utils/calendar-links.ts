@@ -0,0 +1,53 @@
+import { formatInTimeZone } from 'date-fns-tz';
+
+/**
+ * "Add to calendar" deep links for web calendar apps
+ */
+
+/**
+ * Event details the calendar apps prefill
+ */
+export interface CalendarLinkEvent {
+	title: string;
+	start: Date;
+	end: Date;
+	description?: string;
+	location?: string;
+}
+
+/**
+ * Builds a Google Calendar link that opens a prefilled new event
+ *
+ * @example
+ * getGoogleCalendarUrl({ title: 'Demo', start, end })
+ * // => 'https://calendar.google.com/calendar/render?action=TEMPLATE&text=Demo&dates=20251216T150000Z%2F20251216T153000Z'
+ */
+export function getGoogleCalendarUrl(event: CalendarLinkEvent): string {
+	const format = (date: Date) => formatInTimeZone(date, 'UTC', "yyyyMMdd'T'HHmmss'Z'");
+	const params = new URLSearchParams({
+		action: 'TEMPLATE',
+		text: event.title,
+		dates: `${format(event.start)}/${format(event.end)}`
+	});
+	if (event.description) params.set('details', event.description);
+	if (event.location) params.set('location', event.location);
+
+	return `https://calendar.google.com/calendar/render?${params}`;
+}
+
+/**
+ * Builds an Outlook on the web link that opens a prefilled new event
+ */
+export function getOutlookCalendarUrl(event: CalendarLinkEvent): string {
+	const params = new URLSearchParams({
+		path: '/calendar/action/compose',
+		rru: 'addevent',
+		subject: event.title,
+		startdt: event.start.toISOString(),
+		enddt: event.end.toISOString()
+	});
+	if (event.description) params.set('body', event.description);
+	if (event.location) params.set('location', event.location);
+
+	return `https://outlook.live.com/calendar/0/deeplink/compose?${params}`;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { getViewHref, getWeekDates, getWeekStart, parseCalendarView } from './calendar-view';
+
+describe('parseCalendarView', () => {
+	it('should read known views and default to the month view', () => {
+		expect(parseCalendarView(new URLSearchParams('view=week'))).toBe('week');
+		expect(parseCalendarView(new URLSearchParams('view=month'))).toBe('month');
+		expect(parseCalendarView(new URLSearchParams('view=year'))).toBe('month');
+		expect(parseCalendarView(new URLSearchParams())).toBe('month');
+	});
+});
+
+describe('getViewHref', () => {
+	it('should keep other params and leave the default view out', () => {
+		const url = new URL('https://acme.example/bookings/demo?start=2025-12-01&utm_source=mail');
+
+		expect(getViewHref(url, 'week')).toBe(
+			'/bookings/demo?start=2025-12-01&utm_source=mail&view=week'
+		);
+		expect(getViewHref(new URL('https://acme.example/bookings?view=week'), 'month')).toBe(
+			'/bookings'
+		);
+	});
+});
+
+describe('getWeekStart', () => {
+	it('should return the Sunday of the week', () => {
+		expect(getWeekStart('2025-12-18')).toBe('2025-12-14');
+		expect(getWeekStart('2025-12-14')).toBe('2025-12-14');
+	});
+
+	it("should follow the locale's first day of the week", () => {
+		expect(getWeekStart('2025-12-18', 1)).toBe('2025-12-15');
+		expect(getWeekStart('2025-12-14', 1)).toBe('2025-12-08');
+		expect(getWeekStart('2025-12-18', 6)).toBe('2025-12-13');
+	});
+});
+
+describe('getWeekDates', () => {
+	it('should return seven consecutive dates across a month boundary', () => {
+		expect(getWeekDates('2025-12-28')).toEqual([
+			'2025-12-28',
+			'2025-12-29',
+			'2025-12-30',
+			'2025-12-31',
+			'2026-01-01',
+			'2026-01-02',
+			'2026-01-03'
+		]);
+	});
+});
@@ -0,0 +1,64 @@
+/**
+ * Booking page calendar views
+ * The month view lists one selected day's times under a month grid; the week view
+ * lays out seven days' times side by side. The view is kept in the `view` URL param.
+ */
+
+import { addDays, format, parseISO, startOfWeek, type Day } from 'date-fns';
+
+export const CALENDAR_VIEWS = ['month', 'week'] as const;
+export type CalendarView = (typeof CALENDAR_VIEWS)[number];
+
+/** View shown when the URL doesn't name one */
+export const DEFAULT_CALENDAR_VIEW: CalendarView = 'month';
+
+/**
+ * Reads the calendar view from booking page URL params
+ * @returns The view, or the default for a missing or unknown value
+ */
+export function parseCalendarView(searchParams: URLSearchParams): CalendarView {
+	const view = searchParams.get('view');
+	return (CALENDAR_VIEWS as readonly string[]).includes(view ?? '')
+		? (view as CalendarView)
+		: DEFAULT_CALENDAR_VIEW;
+}
+
+/**
+ * Builds a booking page URL showing a calendar view, keeping the page's other params.
+ * The default view is left out of the URL.
+ *
+ * @param url - Current page URL
+ * @param view - View to show
+ * @returns Path and query string
+ */
+export function getViewHref(url: URL, view: CalendarView): string {
+	const params = new URLSearchParams(url.searchParams);
+	if (view === DEFAULT_CALENDAR_VIEW) {
+		params.delete('view');
+	} else {
+		params.set('view', view);
+	}
+	return params.size > 0 ? `${url.pathname}?${params}` : url.pathname;
+}
+
+/**
+ * Returns the first day of the week that contains a date
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param weekStartsOn - First day of the week in the visitor's locale (0 = Sunday)
+ *
+ * @example
+ * getWeekStart('2025-12-18') // '2025-12-14'
+ * getWeekStart('2025-12-18', 1) // '2025-12-15'
+ */
+export function getWeekStart(date: string, weekStartsOn: Day = 0): string {
+	return format(startOfWeek(parseISO(date), { weekStartsOn }), 'yyyy-MM-dd');
+}
+
+/**
+ * Returns the seven dates (YYYY-MM-DD) of the week starting on a date
+ */
+export function getWeekDates(weekStart: string): string[] {
+	const start = parseISO(weekStart);
+	return Array.from({ length: 7 }, (_, i) => format(addDays(start, i), 'yyyy-MM-dd'));
+}
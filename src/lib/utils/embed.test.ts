@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { createEmbedMessage, EMBED_MESSAGE_SOURCE, isEmbedMessage } from './embed';
+
+describe('createEmbedMessage', () => {
+	it('should tag messages with the widget source', () => {
+		expect(createEmbedMessage('resize', { height: 640 })).toEqual({
+			source: EMBED_MESSAGE_SOURCE,
+			event: 'resize',
+			data: { height: 640 }
+		});
+	});
+});
+
+describe('isEmbedMessage', () => {
+	it('should accept widget messages', () => {
+		expect(isEmbedMessage(createEmbedMessage('date_selected', { date: '2025-12-16' }))).toBe(true);
+	});
+
+	it('should reject unrelated messages', () => {
+		expect(isEmbedMessage(null)).toBe(false);
+		expect(isEmbedMessage('date_selected')).toBe(false);
+		expect(isEmbedMessage({ source: 'other', event: 'resize', data: {} })).toBe(false);
+		expect(isEmbedMessage({ source: EMBED_MESSAGE_SOURCE, event: 'resize' })).toBe(false);
+	});
+});
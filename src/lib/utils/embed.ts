@@ -0,0 +1,77 @@
+/**
+ * Messages posted by the embedded booking widget to the page hosting it.
+ * `static/embed.js` listens for these to resize the iframe and re-dispatch
+ * them as DOM events on the host page.
+ */
+
+/** Marks messages from the booking widget so hosts can ignore unrelated ones */
+export const EMBED_MESSAGE_SOURCE = 'acme-booking';
+
+/**
+ * Data sent with each widget event. Attendee details are never included, since
+ * any page can embed the widget.
+ */
+export interface EmbedEventData {
+	/** Visitor picked a date (YYYY-MM-DD) */
+	date_selected: { date: string };
+	/** Visitor picked a time slot; times are ISO 8601 */
+	slot_selected: { start: string; end: string; timezone: string };
+	/** Meeting was booked */
+	booking_confirmed: {
+		bookingId?: string;
+		meetingType?: string;
+		start: string;
+		end: string;
+		timezone: string;
+	};
+	/** Widget content changed height, in CSS pixels */
+	resize: { height: number };
+}
+
+export type EmbedEvent = keyof EmbedEventData;
+
+/**
+ * Message posted to the host page
+ */
+export interface EmbedMessage<E extends EmbedEvent = EmbedEvent> {
+	source: typeof EMBED_MESSAGE_SOURCE;
+	event: E;
+	data: EmbedEventData[E];
+}
+
+/**
+ * Creates a widget message
+ *
+ * @example
+ * createEmbedMessage('date_selected', { date: '2025-12-16' })
+ * // { source: 'acme-booking', event: 'date_selected', data: { date: '2025-12-16' } }
+ */
+export function createEmbedMessage<E extends EmbedEvent>(
+	event: E,
+	data: EmbedEventData[E]
+): EmbedMessage<E> {
+	return { source: EMBED_MESSAGE_SOURCE, event, data };
+}
+
+/**
+ * Checks whether a received message came from the booking widget
+ */
+export function isEmbedMessage(value: unknown): value is EmbedMessage {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		(value as EmbedMessage).source === EMBED_MESSAGE_SOURCE &&
+		typeof (value as EmbedMessage).event === 'string' &&
+		typeof (value as EmbedMessage).data === 'object'
+	);
+}
+
+/**
+ * Posts a widget event to the page hosting the iframe. Does nothing when the
+ * widget is not framed. Messages go to any origin because the host is a
+ * third-party site, which is why they carry no personal data.
+ */
+export function postEmbedMessage<E extends EmbedEvent>(event: E, data: EmbedEventData[E]) {
+	if (typeof window === 'undefined' || window.parent === window) return;
+	window.parent.postMessage(createEmbedMessage(event, data), '*');
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { getBookingFormErrors } from './form-errors';
+
+describe('getBookingFormErrors', () => {
+	it('should map booker, guest and answer errors to their inputs', () => {
+		expect(
+			getBookingFormErrors(
+				[
+					{ field: 'attendees.0.email', code: 'invalid_email', message: 'Bad email' },
+					{ field: 'attendees.2.email', code: 'duplicate_email', message: 'Already added' },
+					{ field: 'answers.company_size', code: 'invalid_answer', message: 'Required' }
+				],
+				[0, 2]
+			)
+		).toEqual({
+			email: 'Bad email',
+			guests: { 2: 'Already added' },
+			answers: { company_size: 'Required' }
+		});
+	});
+
+	it('should keep the first error for each input', () => {
+		expect(
+			getBookingFormErrors(
+				[
+					{ field: 'attendees.0.email', code: 'too_small', message: 'Required' },
+					{ field: 'attendees.0.email', code: 'invalid_email', message: 'Bad email' }
+				],
+				[]
+			).email
+		).toBe('Required');
+	});
+
+	it('should report other errors on the form', () => {
+		expect(
+			getBookingFormErrors(
+				[
+					{ field: 'end', code: 'duration_mismatch', message: 'Wrong length' },
+					{ field: 'attendees', code: 'too_big', message: 'Too many guests' },
+					{ field: 'attendees.3.email', code: 'invalid_email', message: 'Unknown row' }
+				],
+				[0]
+			)
+		).toEqual({ guests: {}, answers: {}, form: 'Wrong length' });
+	});
+});
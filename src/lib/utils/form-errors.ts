@@ -0,0 +1,59 @@
+import type { FieldError } from '$lib/api/schemas';
+
+/**
+ * Booking request errors arranged by booking form input
+ */
+export interface BookingFormErrors {
+	name?: string;
+	email?: string;
+	/** Errors keyed by guest row index */
+	guests: Record<number, string>;
+	/** Errors keyed by question ID */
+	answers: Record<string, string>;
+	/** Error that doesn't belong to an input, e.g. about the time slot */
+	form?: string;
+}
+
+/**
+ * Maps field errors from a booking request onto the booking form's inputs.
+ * The booker is the first attendee and guests follow; blank guest rows are not
+ * sent, so `guestRows` gives the row each sent guest came from. Only the first
+ * error for each input is kept.
+ *
+ * @param errors - Field errors from BookingValidationError
+ * @param guestRows - Form row index of each guest sent, in order
+ *
+ * @example
+ * getBookingFormErrors(
+ *   [{ field: 'attendees.1.email', code: 'invalid_email', message: 'Please enter a valid email address' }],
+ *   [1]
+ * )
+ * // { guests: { 1: 'Please enter a valid email address' }, answers: {} }
+ */
+export function getBookingFormErrors(errors: FieldError[], guestRows: number[]): BookingFormErrors {
+	const formErrors: BookingFormErrors = { guests: {}, answers: {} };
+
+	for (const { field, message } of errors) {
+		const [root, key, property] = field.split('.');
+
+		if (root === 'attendees' && key === '0' && (property === 'name' || property === 'email')) {
+			formErrors[property] ??= message;
+			continue;
+		}
+
+		const row = root === 'attendees' && property === 'email' ? guestRows[Number(key) - 1] : -1;
+		if (row !== undefined && row >= 0) {
+			formErrors.guests[row] ??= message;
+			continue;
+		}
+
+		if (root === 'answers' && key) {
+			formErrors.answers[key] ??= message;
+			continue;
+		}
+
+		formErrors.form ??= message;
+	}
+
+	return formErrors;
+}
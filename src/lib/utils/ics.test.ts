@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { buildIcs, type CalendarEvent } from './ics';
+
+const event: CalendarEvent = {
+	uid: 'booking-123@acme.example',
+	title: 'Product demo',
+	start: new Date('2025-12-16T15:00:00Z'),
+	end: new Date('2025-12-16T16:00:00Z'),
+	timezone: 'America/New_York',
+	location: 'Google Meet; link sent with the invite',
+	organizer: { name: 'ACME Industries Ltd', email: 'bookings@acme.example' },
+	attendees: [{ name: 'Ada Lovelace', email: 'ada@example.com' }]
+};
+
+const now = new Date('2025-12-01T12:00:00Z');
+
+/**
+ * Unfolds continuation lines and splits an iCalendar document into content lines
+ */
+function parseLines(ics: string): string[] {
+	return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('buildIcs', () => {
+	it('should wrap a single VEVENT in a VCALENDAR with CRLF line endings', () => {
+		const ics = buildIcs(event, now);
+		expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+		expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+		expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+	});
+
+	it('should include the UID, stamp and local times with TZID', () => {
+		const lines = parseLines(buildIcs(event, now));
+		expect(lines).toContain('UID:booking-123@acme.example');
+		expect(lines).toContain('DTSTAMP:20251201T120000Z');
+		expect(lines).toContain('DTSTART;TZID=America/New_York:20251216T100000');
+		expect(lines).toContain('DTEND;TZID=America/New_York:20251216T110000');
+	});
+
+	it('should describe daylight saving changes in the VTIMEZONE', () => {
+		const lines = parseLines(buildIcs(event, now));
+		expect(lines).toContain('TZID:America/New_York');
+		// DST ended on 2 November 2025 at 02:00 EDT
+		const standardStart = lines.indexOf('DTSTART:20251102T020000');
+		expect(standardStart).toBeGreaterThan(-1);
+		expect(lines[standardStart - 1]).toBe('BEGIN:STANDARD');
+		expect(lines[standardStart + 1]).toBe('TZOFFSETFROM:-0400');
+		expect(lines[standardStart + 2]).toBe('TZOFFSETTO:-0500');
+	});
+
+	it('should use a single observance for zones without daylight saving', () => {
+		const lines = parseLines(buildIcs({ ...event, timezone: 'Asia/Kathmandu' }, now));
+		expect(lines.filter((line) => line.startsWith('BEGIN:STANDARD'))).toHaveLength(1);
+		expect(lines).toContain('TZOFFSETTO:+0545');
+		expect(lines).toContain('DTSTART;TZID=Asia/Kathmandu:20251216T204500');
+	});
+
+	it('should write UTC times without a VTIMEZONE for UTC events', () => {
+		const ics = buildIcs({ ...event, timezone: 'UTC' }, now);
+		expect(ics).not.toContain('VTIMEZONE');
+		expect(parseLines(ics)).toContain('DTSTART:20251216T150000Z');
+	});
+
+	it('should include the organizer and attendees', () => {
+		const lines = parseLines(buildIcs(event, now));
+		expect(lines).toContain('ORGANIZER;CN=ACME Industries Ltd:mailto:bookings@acme.example');
+		expect(lines).toContain(
+			'ATTENDEE;CN=Ada Lovelace;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:ada@example.com'
+		);
+	});
+
+	it('should strip line breaks and control characters from participant names', () => {
+		const lines = parseLines(
+			buildIcs(
+				{
+					...event,
+					attendees: [
+						{ name: 'Ada\r\nATTENDEE:mailto:eve@example.com\u0000', email: 'ada@example.com' }
+					]
+				},
+				now
+			)
+		);
+		expect(lines).toContain(
+			'ATTENDEE;CN="AdaATTENDEE:mailto:eve@example.com";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:ada@example.com'
+		);
+		expect(lines.filter((line) => line.startsWith('ATTENDEE'))).toHaveLength(1);
+	});
+
+	it('should escape text values', () => {
+		const lines = parseLines(buildIcs({ ...event, description: 'Agenda:\nIntro, demo' }, now));
+		expect(lines).toContain('LOCATION:Google Meet\\; link sent with the invite');
+		expect(lines).toContain('DESCRIPTION:Agenda:\\nIntro\\, demo');
+	});
+
+	it('should fold lines longer than 75 octets', () => {
+		const ics = buildIcs({ ...event, description: 'é'.repeat(100) }, now);
+		for (const line of ics.split('\r\n')) {
+			expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+		}
+		expect(parseLines(ics)).toContain(`DESCRIPTION:${'é'.repeat(100)}`);
+	});
+
+	it('should mark cancelled events', () => {
+		const lines = parseLines(buildIcs({ ...event, status: 'cancelled', sequence: 2 }, now));
+		expect(lines).toContain('METHOD:CANCEL');
+		expect(lines).toContain('STATUS:CANCELLED');
+		expect(lines).toContain('SEQUENCE:2');
+	});
+});
@@ -0,0 +1,248 @@
+import { formatInTimeZone } from 'date-fns-tz';
+import { getTimezoneAbbreviation } from '$lib/timezones';
+
+/**
+ * iCalendar (RFC 5545) generation for booked meetings
+ */
+
+/**
+ * Person taking part in a calendar event
+ */
+export interface CalendarParticipant {
+	name: string | null;
+	email: string;
+}
+
+/**
+ * Meeting details needed to build a calendar event
+ */
+export interface CalendarEvent {
+	/** Globally unique, stable identifier (e.g. "<booking id>@<host>") */
+	uid: string;
+	title: string;
+	start: Date;
+	end: Date;
+	/** IANA timezone the event times are expressed in */
+	timezone: string;
+	description?: string;
+	location?: string;
+	organizer: CalendarParticipant;
+	attendees: CalendarParticipant[];
+	status?: 'confirmed' | 'cancelled';
+	/** Revision number, incremented when the event is rescheduled */
+	sequence?: number;
+}
+
+/** Maximum line length in octets before folding (RFC 5545 §3.1) */
+const MAX_LINE_OCTETS = 75;
+
+const ONE_MINUTE_MS = 60 * 1000;
+const ONE_DAY_MS = 24 * 60 * ONE_MINUTE_MS;
+
+/**
+ * Escapes a TEXT value (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+	return value
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Formats a parameter value, quoting it when it contains separators (RFC 5545 §3.2).
+ * Control characters, including CR and LF, are removed and double quotes replaced,
+ * since neither is allowed in a parameter value (QSAFE-CHAR).
+ */
+function formatParam(value: string): string {
+	// eslint-disable-next-line no-control-regex
+	const clean = value.replace(/[\x00-\x08\x0A-\x1F\x7F]/g, '').replace(/"/g, "'");
+	return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+}
+
+/**
+ * Folds a content line to at most 75 octets per line without splitting characters
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = '';
+	let octets = 0;
+
+	for (const char of line) {
+		const size = encoder.encode(char).length;
+		// Continuation lines start with a space, which counts towards the limit
+		const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+		if (octets + size > limit) {
+			parts.push(current);
+			current = '';
+			octets = 0;
+		}
+		current += char;
+		octets += size;
+	}
+	parts.push(current);
+
+	return parts.join('\r\n ');
+}
+
+/**
+ * Formats a date as a UTC DATE-TIME (e.g. "20251216T150000Z")
+ */
+function formatUtc(date: Date): string {
+	return formatInTimeZone(date, 'UTC', "yyyyMMdd'T'HHmmss'Z'");
+}
+
+/**
+ * Formats a UTC offset in milliseconds as ±HHMM
+ */
+function formatOffset(offsetMs: number): string {
+	const sign = offsetMs < 0 ? '-' : '+';
+	const totalMinutes = Math.abs(offsetMs) / ONE_MINUTE_MS;
+	const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+	const minutes = String(totalMinutes % 60).padStart(2, '0');
+	return `${sign}${hours}${minutes}`;
+}
+
+/**
+ * Returns a timezone's UTC offset in milliseconds at an exact instant.
+ * Derived from the formatted wall-clock time, because the date-fns-tz offset
+ * helper reads the date's local fields rather than the instant.
+ */
+function getOffsetAt(timezone: string, instant: number): number {
+	const wallClock = formatInTimeZone(new Date(instant), timezone, "yyyy-MM-dd'T'HH:mm:ss'Z'");
+	return Date.parse(wallClock) - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * Finds the instants at which a timezone's UTC offset changes between two dates.
+ * Scans day by day, then narrows each change down to the minute.
+ */
+function findOffsetTransitions(
+	timezone: string,
+	from: Date,
+	to: Date
+): { at: number; offsetFrom: number; offsetTo: number }[] {
+	const transitions: { at: number; offsetFrom: number; offsetTo: number }[] = [];
+	let previous = getOffsetAt(timezone, from.getTime());
+
+	for (let day = from.getTime() + ONE_DAY_MS; day <= to.getTime(); day += ONE_DAY_MS) {
+		const offset = getOffsetAt(timezone, day);
+		if (offset === previous) continue;
+
+		let low = day - ONE_DAY_MS;
+		let high = day;
+		while (high - low > ONE_MINUTE_MS) {
+			const mid = low + Math.floor((high - low) / 2 / ONE_MINUTE_MS) * ONE_MINUTE_MS;
+			if (getOffsetAt(timezone, mid) === previous) low = mid;
+			else high = mid;
+		}
+
+		transitions.push({ at: high, offsetFrom: previous, offsetTo: offset });
+		previous = offset;
+	}
+
+	return transitions;
+}
+
+/**
+ * Builds a VTIMEZONE component covering the event.
+ * Includes every offset change from the year before the event to the end of the
+ * event's year as individual observances, so no recurrence rules are needed.
+ */
+function buildTimezone(timezone: string, at: Date): string[] {
+	const year = at.getUTCFullYear();
+	const from = new Date(Date.UTC(year - 1, 0, 1));
+	const to = new Date(Date.UTC(year + 1, 0, 1));
+	const transitions = findOffsetTransitions(timezone, from, to);
+
+	// Zones without changes get a single standard observance at a fixed offset
+	const fixedOffset = getOffsetAt(timezone, at.getTime());
+	const observances =
+		transitions.length > 0
+			? transitions
+			: [{ at: Date.UTC(1970, 0, 1), offsetFrom: fixedOffset, offsetTo: fixedOffset }];
+
+	const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+
+	for (const observance of observances) {
+		const type = observance.offsetTo > observance.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+		// Observance start is the local time in the offset that was in effect before it
+		const localStart = formatInTimeZone(
+			new Date(observance.at + observance.offsetFrom),
+			'UTC',
+			"yyyyMMdd'T'HHmmss"
+		);
+		const name = getTimezoneAbbreviation(timezone, new Date(observance.at));
+
+		lines.push(
+			`BEGIN:${type}`,
+			`DTSTART:${localStart}`,
+			`TZOFFSETFROM:${formatOffset(observance.offsetFrom)}`,
+			`TZOFFSETTO:${formatOffset(observance.offsetTo)}`,
+			...(name ? [`TZNAME:${escapeText(name)}`] : []),
+			`END:${type}`
+		);
+	}
+
+	lines.push('END:VTIMEZONE');
+	return lines;
+}
+
+/**
+ * Formats a participant as an ORGANIZER or ATTENDEE property
+ */
+function formatParticipant(
+	property: 'ORGANIZER' | 'ATTENDEE',
+	participant: CalendarParticipant
+): string {
+	const params = participant.name ? [`CN=${formatParam(participant.name)}`] : [];
+	if (property === 'ATTENDEE') {
+		params.push('ROLE=REQ-PARTICIPANT', 'PARTSTAT=ACCEPTED', 'RSVP=FALSE');
+	}
+	return `${[property, ...params].join(';')}:mailto:${participant.email}`;
+}
+
+/**
+ * Builds an iCalendar document containing a single VEVENT.
+ * Times are written in the event's timezone with a matching VTIMEZONE, or in UTC
+ * when the event timezone is UTC.
+ *
+ * @param event - Meeting details
+ * @param now - Creation timestamp for DTSTAMP
+ * @returns iCalendar text with CRLF line endings
+ */
+export function buildIcs(event: CalendarEvent, now = new Date()): string {
+	const isUtc = event.timezone === 'UTC';
+
+	const formatTime = (property: 'DTSTART' | 'DTEND', date: Date) =>
+		isUtc
+			? `${property}:${formatUtc(date)}`
+			: `${property};TZID=${event.timezone}:${formatInTimeZone(date, event.timezone, "yyyyMMdd'T'HHmmss")}`;
+
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//ACME Industries Ltd//Meeting booking//EN',
+		'CALSCALE:GREGORIAN',
+		`METHOD:${event.status === 'cancelled' ? 'CANCEL' : 'PUBLISH'}`,
+		...(isUtc ? [] : buildTimezone(event.timezone, event.start)),
+		'BEGIN:VEVENT',
+		`UID:${event.uid}`,
+		`DTSTAMP:${formatUtc(now)}`,
+		formatTime('DTSTART', event.start),
+		formatTime('DTEND', event.end),
+		`SUMMARY:${escapeText(event.title)}`,
+		...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+		...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+		formatParticipant('ORGANIZER', event.organizer),
+		...event.attendees.map((attendee) => formatParticipant('ATTENDEE', attendee)),
+		`STATUS:${event.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`,
+		`SEQUENCE:${event.sequence ?? 0}`,
+		'END:VEVENT',
+		'END:VCALENDAR'
+	];
+
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_NAME_LENGTH } from './attendees';
+import {
+	getPrefillRange,
+	getRangeHref,
+	MAX_METADATA_KEYS,
+	parsePrefill,
+	parseUtmParams
+} from './prefill';
+
+describe('parsePrefill', () => {
+	it('should read form values, date and timezone', () => {
+		expect(
+			parsePrefill(
+				new URLSearchParams(
+					'name=Ada%20Lovelace&email=ada@acme.com&date=2025-12-16&timezone=Europe/London'
+				)
+			)
+		).toEqual({
+			name: 'Ada Lovelace',
+			email: 'ada@acme.com',
+			guests: [],
+			date: '2025-12-16',
+			timezone: 'Europe/London'
+		});
+	});
+
+	it('should drop invalid values', () => {
+		expect(
+			parsePrefill(new URLSearchParams('name=%20&email=nope&date=2025-02-30&timezone=Mars/Base'))
+		).toEqual({ guests: [] });
+	});
+
+	it('should cut long names to the booking form limit', () => {
+		const name = 'A'.repeat(MAX_NAME_LENGTH + 20);
+		expect(parsePrefill(new URLSearchParams({ name })).name).toBe('A'.repeat(MAX_NAME_LENGTH));
+	});
+
+	it('should drop names with control characters', () => {
+		expect(parsePrefill(new URLSearchParams({ name: 'Ada\nLovelace' })).name).toBeUndefined();
+	});
+
+	it('should keep valid, unique guests up to the limit', () => {
+		const params = new URLSearchParams(
+			'email=ada@acme.com&guests=bob@acme.com,nope,ADA@acme.com&guests=bob@acme.com&guests=c@acme.com,d@acme.com,e@acme.com,f@acme.com,g@acme.com'
+		);
+		expect(parsePrefill(params).guests).toEqual([
+			'bob@acme.com',
+			'c@acme.com',
+			'd@acme.com',
+			'e@acme.com',
+			'f@acme.com'
+		]);
+	});
+});
+
+describe('parseUtmParams', () => {
+	it('should keep only utm params', () => {
+		expect(
+			parseUtmParams(
+				new URLSearchParams('utm_source=newsletter&UTM_Medium=email&ref=x&utm_term=&utm_source=y')
+			)
+		).toEqual({ utm_source: 'newsletter', utm_medium: 'email' });
+	});
+
+	it('should cap the number of params', () => {
+		const params = new URLSearchParams(
+			Array.from({ length: 15 }, (_, i) => [`utm_custom_${i}`, 'x'])
+		);
+		expect(Object.keys(parseUtmParams(params))).toHaveLength(MAX_METADATA_KEYS);
+	});
+});
+
+describe('getPrefillRange', () => {
+	it('should show the date month from today at the earliest', () => {
+		expect(getPrefillRange('2025-12-16', '2025-12-05')).toEqual({
+			startDate: '2025-12-05',
+			endDate: '2025-12-31'
+		});
+		expect(getPrefillRange('2026-02-10', '2025-12-05')).toEqual({
+			startDate: '2026-02-01',
+			endDate: '2026-02-28'
+		});
+	});
+
+	it('should ignore past dates', () => {
+		expect(getPrefillRange('2025-12-01', '2025-12-05')).toBeNull();
+	});
+});
+
+describe('getRangeHref', () => {
+	it('should replace the range and keep other params', () => {
+		const url = new URL('https://acme.example/bookings?start=2025-12-01&name=Ada&utm_source=x');
+		expect(getRangeHref(url, { startDate: '2026-01-01', endDate: '2026-01-31' })).toBe(
+			'/bookings?start=2026-01-01&name=Ada&utm_source=x&end=2026-01-31'
+		);
+	});
+});
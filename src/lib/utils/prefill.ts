@@ -0,0 +1,140 @@
+import { format, isAfter, isBefore, isValid, lastDayOfMonth, parseISO } from 'date-fns';
+import type { DateRange } from '$lib/api/availability';
+import { isValidEmail, isValidName, MAX_GUESTS, MAX_NAME_LENGTH } from './attendees';
+import { isValidTimezone } from './timezone';
+
+/**
+ * Booking form values supplied in the booking page URL, e.g. from a link in an
+ * email that already knows who the recipient is
+ */
+export interface BookingPrefill {
+	name?: string;
+	email?: string;
+	/** Guest emails, valid and unique */
+	guests: string[];
+	/** Date to select, in YYYY-MM-DD format */
+	date?: string;
+	/** IANA timezone to show times in */
+	timezone?: string;
+}
+
+/**
+ * Campaign attribution (`utm_source`, `utm_campaign`, ...) forwarded with the booking
+ */
+export type BookingMetadata = Record<string, string>;
+
+/** Most UTM parameters forwarded with a booking */
+export const MAX_METADATA_KEYS = 10;
+/** Longest UTM value forwarded with a booking */
+export const MAX_METADATA_VALUE_LENGTH = 200;
+
+/** Campaign attribution keys forwarded with a booking */
+export const UTM_KEY_PATTERN = /^utm_[a-z0-9_]{1,40}$/;
+/** Dates in URL params, in YYYY-MM-DD format */
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads booking form values from URL search params.
+ * Invalid values are dropped rather than shown as errors, since the visitor did
+ * not type them.
+ *
+ * Supported params:
+ * - name: Booker's name, cut to MAX_NAME_LENGTH
+ * - email: Booker's email
+ * - guests: Guest emails, comma-separated or repeated (at most MAX_GUESTS)
+ * - date: Date to select (YYYY-MM-DD)
+ * - timezone: IANA timezone
+ *
+ * @param searchParams - Booking page URL search params
+ *
+ * @example
+ * parsePrefill(new URLSearchParams('name=Ada&email=ada@acme.com&guests=bob@acme.com,nope'))
+ * // { name: 'Ada', email: 'ada@acme.com', guests: ['bob@acme.com'] }
+ */
+export function parsePrefill(searchParams: URLSearchParams): BookingPrefill {
+	const name = searchParams.get('name')?.trim().slice(0, MAX_NAME_LENGTH);
+	const email = searchParams.get('email')?.trim();
+	const date = searchParams.get('date');
+	const timezone = searchParams.get('timezone');
+
+	const seen = new Set(email ? [email.toLowerCase()] : []);
+	const guests = searchParams
+		.getAll('guests')
+		.flatMap((value) => value.split(','))
+		.map((guest) => guest.trim())
+		.filter((guest) => {
+			const key = guest.toLowerCase();
+			if (!isValidEmail(guest) || seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		})
+		.slice(0, MAX_GUESTS);
+
+	return {
+		...(name && isValidName(name) && { name }),
+		...(email && isValidEmail(email) && { email }),
+		guests,
+		...(date && DATE_PATTERN.test(date) && isValid(parseISO(date)) && { date }),
+		...(timezone && isValidTimezone(timezone) && { timezone })
+	};
+}
+
+/**
+ * Reads UTM params from URL search params, keeping the first value of each.
+ * Keys are lowercased; empty values and params beyond MAX_METADATA_KEYS are dropped
+ * and values are cut to MAX_METADATA_VALUE_LENGTH.
+ *
+ * @example
+ * parseUtmParams(new URLSearchParams('utm_source=newsletter&utm_medium=email&ref=x'))
+ * // { utm_source: 'newsletter', utm_medium: 'email' }
+ */
+export function parseUtmParams(searchParams: URLSearchParams): BookingMetadata {
+	const metadata: BookingMetadata = {};
+
+	for (const [param, value] of searchParams) {
+		const key = param.toLowerCase();
+		if (!UTM_KEY_PATTERN.test(key) || key in metadata || !value.trim()) continue;
+		if (Object.keys(metadata).length >= MAX_METADATA_KEYS) break;
+		metadata[key] = value.trim().slice(0, MAX_METADATA_VALUE_LENGTH);
+	}
+
+	return metadata;
+}
+
+/**
+ * Returns the date range showing a prefilled date's month, starting no earlier
+ * than today
+ *
+ * @param date - Prefilled date (YYYY-MM-DD)
+ * @param today - Today's date (YYYY-MM-DD)
+ * @returns The range, or null when the date is in the past
+ *
+ * @example
+ * getPrefillRange('2025-12-16', '2025-12-01') // { startDate: '2025-12-01', endDate: '2025-12-31' }
+ * getPrefillRange('2026-01-20', '2025-12-01') // { startDate: '2026-01-01', endDate: '2026-01-31' }
+ */
+export function getPrefillRange(date: string, today: string): DateRange | null {
+	const day = parseISO(date);
+	if (isBefore(day, parseISO(today))) return null;
+
+	const monthStart = format(day, 'yyyy-MM-01');
+	return {
+		startDate: isAfter(parseISO(today), parseISO(monthStart)) ? today : monthStart,
+		endDate: format(lastDayOfMonth(day), 'yyyy-MM-dd')
+	};
+}
+
+/**
+ * Builds a booking page URL for a date range, keeping the page's other params
+ * (prefill and UTM) so they survive month navigation and redirects
+ *
+ * @param url - Current page URL
+ * @param range - Date range to show
+ * @returns Path and query string
+ */
+export function getRangeHref(url: URL, range: DateRange): string {
+	const params = new URLSearchParams(url.searchParams);
+	params.set('start', range.startDate);
+	params.set('end', range.endDate);
+	return `${url.pathname}?${params}`;
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { MeetingQuestion } from '$lib/api/meeting-types';
+import {
+	formatAnswerError,
+	getInitialAnswers,
+	MAX_TEXT_LENGTH,
+	MAX_TEXTAREA_LENGTH,
+	toBookingAnswers,
+	validateAnswer,
+	validateAnswers
+} from './questions';
+
+const companySize: MeetingQuestion = {
+	id: 'company_size',
+	label: 'Company size',
+	type: 'select',
+	required: true,
+	options: ['1-10', '11-50']
+};
+const agenda: MeetingQuestion = {
+	id: 'agenda',
+	label: 'Agenda',
+	type: 'textarea',
+	required: false
+};
+const phone: MeetingQuestion = { id: 'phone', label: 'Phone', type: 'phone', required: true };
+const terms: MeetingQuestion = { id: 'terms', label: 'Terms', type: 'checkbox', required: true };
+const role: MeetingQuestion = { id: 'role', label: 'Role', type: 'text', required: false };
+
+describe('getInitialAnswers', () => {
+	it('should start checkboxes unchecked and other answers empty', () => {
+		expect(getInitialAnswers([companySize, terms])).toEqual({ company_size: '', terms: false });
+	});
+});
+
+describe('validateAnswer', () => {
+	it('should require answers to required questions', () => {
+		expect(validateAnswer(companySize, '')).toEqual({ code: 'required' });
+		expect(validateAnswer(phone, '   ')).toEqual({ code: 'required' });
+		expect(validateAnswer(terms, false)).toEqual({ code: 'unchecked' });
+	});
+
+	it('should allow optional questions to be skipped', () => {
+		expect(validateAnswer(agenda, '')).toBeNull();
+		expect(validateAnswer(agenda, undefined)).toBeNull();
+	});
+
+	it('should only accept listed select options', () => {
+		expect(validateAnswer(companySize, '11-50')).toBeNull();
+		expect(validateAnswer(companySize, '5000')).toEqual({ code: 'invalid_option' });
+	});
+
+	it('should validate phone numbers', () => {
+		expect(validateAnswer(phone, '+44 20 7946 0000')).toBeNull();
+		expect(validateAnswer(phone, '(555) 123-4567')).toBeNull();
+		expect(validateAnswer(phone, '12345')).toEqual({ code: 'invalid_phone' });
+		expect(validateAnswer(phone, 'call me')).toEqual({ code: 'invalid_phone' });
+	});
+
+	it('should limit text length', () => {
+		expect(validateAnswer(role, 'x'.repeat(MAX_TEXT_LENGTH + 1))).toEqual({
+			code: 'too_long',
+			params: { max: MAX_TEXT_LENGTH }
+		});
+		expect(validateAnswer(agenda, 'x'.repeat(MAX_TEXT_LENGTH + 1))).toBeNull();
+		expect(validateAnswer(agenda, 'x'.repeat(MAX_TEXTAREA_LENGTH + 1))).toEqual({
+			code: 'too_long',
+			params: { max: MAX_TEXTAREA_LENGTH }
+		});
+	});
+
+	it('should reject answers of the wrong type', () => {
+		expect(validateAnswer(terms, 'yes')).toEqual({ code: 'invalid_answer' });
+		expect(validateAnswer(role, true)).toEqual({ code: 'invalid_answer' });
+	});
+});
+
+describe('validateAnswers', () => {
+	it('should return errors keyed by question ID', () => {
+		expect(validateAnswers([companySize, agenda, phone], { company_size: '1-10' })).toEqual({
+			phone: { code: 'required' }
+		});
+	});
+});
+
+describe('formatAnswerError', () => {
+	it('should describe errors in English, including length limits', () => {
+		expect(formatAnswerError({ code: 'required' })).toBe('This field is required');
+		expect(formatAnswerError({ code: 'too_long', params: { max: MAX_TEXT_LENGTH } })).toBe(
+			`Please keep this under ${MAX_TEXT_LENGTH} characters`
+		);
+	});
+});
+
+describe('toBookingAnswers', () => {
+	it('should attach labels, trim text and drop unanswered or unknown questions', () => {
+		const answers = toBookingAnswers([companySize, agenda, terms], {
+			company_size: '1-10',
+			agenda: '  ',
+			terms: true,
+			unknown: 'ignored'
+		});
+		expect(answers).toEqual([
+			{ questionId: 'company_size', label: 'Company size', type: 'select', value: '1-10' },
+			{ questionId: 'terms', label: 'Terms', type: 'checkbox', value: true }
+		]);
+	});
+});
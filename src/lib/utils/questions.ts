@@ -0,0 +1,153 @@
+import type { MeetingQuestion } from '$lib/api/meeting-types';
+
+/**
+ * Answer to an intake question: text for text-like and select questions,
+ * a boolean for checkboxes
+ */
+export type QuestionAnswer = string | boolean;
+
+/**
+ * Answers keyed by question ID
+ */
+export type QuestionAnswers = Record<string, QuestionAnswer>;
+
+/**
+ * Structured answer forwarded to the meetings API, carrying the question
+ * label and type so the answer can be read without the meeting type
+ */
+export interface BookingAnswer {
+	questionId: string;
+	label: string;
+	type: MeetingQuestion['type'];
+	value: QuestionAnswer;
+}
+
+/** Maximum answer length for single-line questions */
+export const MAX_TEXT_LENGTH = 200;
+
+/** Maximum answer length for textarea questions */
+export const MAX_TEXTAREA_LENGTH = 2000;
+
+/**
+ * Returns empty answers for a question set (unchecked boxes, empty text)
+ */
+export function getInitialAnswers(questions: MeetingQuestion[]): QuestionAnswers {
+	return Object.fromEntries(
+		questions.map((question) => [question.id, question.type === 'checkbox' ? false : ''])
+	);
+}
+
+/**
+ * Checks a phone number has 7-15 digits with optional +, spaces, dashes, dots and brackets
+ */
+function isValidPhone(value: string): boolean {
+	const digits = value.replace(/\D/g, '');
+	return /^\+?[\d\s().-]+$/.test(value) && digits.length >= 7 && digits.length <= 15;
+}
+
+/**
+ * Why an answer is invalid
+ */
+export type AnswerErrorCode =
+	| 'required'
+	| 'unchecked'
+	| 'invalid_option'
+	| 'invalid_phone'
+	| 'too_long'
+	| 'invalid_answer';
+
+/**
+ * An invalid answer, with the length limit for `too_long`
+ */
+export interface AnswerError {
+	code: AnswerErrorCode;
+	params?: { max: number };
+}
+
+/**
+ * English messages for answer errors, as returned by the API. The booking form
+ * shows its own translations of the codes.
+ */
+const ANSWER_ERROR_MESSAGES: Record<AnswerErrorCode, string> = {
+	required: 'This field is required',
+	unchecked: 'This box must be checked',
+	invalid_option: 'Please choose one of the options',
+	invalid_phone: 'Please enter a valid phone number',
+	too_long: 'Please keep this under {max} characters',
+	invalid_answer: 'Invalid answer'
+};
+
+/**
+ * Formats an answer error as an English message
+ *
+ * @example
+ * formatAnswerError({ code: 'too_long', params: { max: 200 } })
+ * // 'Please keep this under 200 characters'
+ */
+export function formatAnswerError(error: AnswerError): string {
+	return ANSWER_ERROR_MESSAGES[error.code].replace('{max}', String(error.params?.max));
+}
+
+/**
+ * Validates a single answer against its question
+ *
+ * @returns The error, or null when the answer is valid
+ */
+export function validateAnswer(
+	question: MeetingQuestion,
+	value: QuestionAnswer | undefined
+): AnswerError | null {
+	if (question.type === 'checkbox') {
+		if (value !== undefined && typeof value !== 'boolean') return { code: 'invalid_answer' };
+		return question.required && !value ? { code: 'unchecked' } : null;
+	}
+
+	if (value !== undefined && typeof value !== 'string') return { code: 'invalid_answer' };
+
+	const text = value?.trim() ?? '';
+	if (!text) return question.required ? { code: 'required' } : null;
+
+	const max = question.type === 'textarea' ? MAX_TEXTAREA_LENGTH : MAX_TEXT_LENGTH;
+	switch (question.type) {
+		case 'select':
+			return question.options?.includes(text) ? null : { code: 'invalid_option' };
+		case 'phone':
+			return isValidPhone(text) ? null : { code: 'invalid_phone' };
+		default:
+			return text.length > max ? { code: 'too_long', params: { max } } : null;
+	}
+}
+
+/**
+ * Validates answers to a question set
+ *
+ * @returns Errors keyed by question ID; empty when every answer is valid
+ */
+export function validateAnswers(
+	questions: MeetingQuestion[],
+	answers: QuestionAnswers
+): Record<string, AnswerError> {
+	const errors: Record<string, AnswerError> = {};
+	for (const question of questions) {
+		const error = validateAnswer(question, answers[question.id]);
+		if (error) errors[question.id] = error;
+	}
+	return errors;
+}
+
+/**
+ * Converts validated answers into structured answers for the meetings API.
+ * Unanswered optional questions and answers to unknown questions are dropped.
+ */
+export function toBookingAnswers(
+	questions: MeetingQuestion[],
+	answers: QuestionAnswers
+): BookingAnswer[] {
+	return questions.flatMap((question) => {
+		const raw = answers[question.id];
+		const value = typeof raw === 'string' ? raw.trim() : raw;
+		if (value === undefined || value === '') return [];
+
+		return [{ questionId: question.id, label: question.label, type: question.type, value }];
+	});
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applySchedulingRules,
+	countMeetingsPerDay,
+	formatNotice,
+	getBookingWindow,
+	getLastBookableDate,
+	getSchedulingRuleError,
+	type SchedulingRules
+} from './scheduling-rules';
+
+const rules: SchedulingRules = { minimumNotice: 4 * 60, horizonDays: 14, maxPerDay: 2 };
+const now = new Date('2025-12-01T10:00:00Z');
+const timeZone = 'America/New_York';
+
+describe('getBookingWindow', () => {
+	it('should start after the minimum notice and end at midnight after the last bookable day', () => {
+		expect(getLastBookableDate(rules, { now, timeZone })).toBe('2025-12-15');
+
+		const { earliest, latest } = getBookingWindow(rules, { now, timeZone });
+		expect(earliest.toISOString()).toBe('2025-12-01T14:00:00.000Z');
+		expect(latest.toISOString()).toBe('2025-12-16T05:00:00.000Z');
+	});
+});
+
+describe('countMeetingsPerDay', () => {
+	it('should count confirmed meetings by date in the timezone', () => {
+		const counts = countMeetingsPerDay(
+			[
+				{ start: '2025-12-02T15:00:00Z', status: 'confirmed' },
+				// 11pm on the 2nd in New York
+				{ start: '2025-12-03T04:00:00Z', status: 'confirmed' },
+				{ start: '2025-12-02T16:00:00Z', status: 'cancelled' }
+			],
+			timeZone
+		);
+		expect(counts).toEqual({ '2025-12-02': 2 });
+	});
+});
+
+describe('applySchedulingRules', () => {
+	it('should clip blocks to the minimum notice and keep untouched blocks as given', () => {
+		const result = applySchedulingRules(
+			[
+				{ start: '2025-12-01T08:00:00-05:00', end: '2025-12-01T17:00:00-05:00' },
+				{ start: '2025-12-02T09:00:00-05:00', end: '2025-12-02T17:00:00-05:00' }
+			],
+			rules,
+			{ now, timeZone }
+		);
+		expect(result).toEqual([
+			{ start: '2025-12-01T14:00:00.000Z', end: '2025-12-01T17:00:00-05:00' },
+			{ start: '2025-12-02T09:00:00-05:00', end: '2025-12-02T17:00:00-05:00' }
+		]);
+	});
+
+	it('should drop blocks inside the notice period or past the horizon', () => {
+		const result = applySchedulingRules(
+			[
+				{ start: '2025-12-01T06:00:00-05:00', end: '2025-12-01T08:00:00-05:00' },
+				{ start: '2025-12-16T09:00:00-05:00', end: '2025-12-16T17:00:00-05:00' }
+			],
+			rules,
+			{ now, timeZone }
+		);
+		expect(result).toEqual([]);
+	});
+
+	it('should drop days that have reached the daily limit', () => {
+		const result = applySchedulingRules(
+			[
+				{ start: '2025-12-02T09:00:00-05:00', end: '2025-12-02T17:00:00-05:00' },
+				{ start: '2025-12-03T09:00:00-05:00', end: '2025-12-03T17:00:00-05:00' }
+			],
+			rules,
+			{ now, timeZone, meetingsPerDay: { '2025-12-02': 2, '2025-12-03': 1 } }
+		);
+		expect(result).toEqual([
+			{ start: '2025-12-03T09:00:00-05:00', end: '2025-12-03T17:00:00-05:00' }
+		]);
+	});
+});
+
+describe('getSchedulingRuleError', () => {
+	it('should allow starts inside the window on days with room', () => {
+		expect(
+			getSchedulingRuleError(new Date('2025-12-02T15:00:00Z'), rules, {
+				now,
+				timeZone,
+				meetingsOnDay: 1
+			})
+		).toBeNull();
+	});
+
+	it('should describe the broken rule', () => {
+		expect(getSchedulingRuleError(new Date('2025-12-01T13:00:00Z'), rules, { now, timeZone })).toBe(
+			'Meetings must be booked at least 4 hours in advance'
+		);
+		expect(getSchedulingRuleError(new Date('2025-12-16T14:00:00Z'), rules, { now, timeZone })).toBe(
+			'Meetings can only be booked up to 14 days ahead'
+		);
+		expect(
+			getSchedulingRuleError(new Date('2025-12-02T15:00:00Z'), rules, {
+				now,
+				timeZone,
+				meetingsOnDay: 2
+			})
+		).toBe('No more meetings can be booked on this day');
+	});
+});
+
+describe('formatNotice', () => {
+	it('should use the largest whole unit', () => {
+		expect(formatNotice(30)).toBe('30 minutes');
+		expect(formatNotice(60)).toBe('1 hour');
+		expect(formatNotice(4 * 60)).toBe('4 hours');
+		expect(formatNotice(2 * 24 * 60)).toBe('2 days');
+	});
+});
@@ -0,0 +1,183 @@
+import { addDays, addMinutes, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { formatDateKey, type AvailabilitySlot } from './availability';
+
+/**
+ * Limits on when meetings can be booked, applied to availability before slots
+ * are generated and enforced again by the booking proxy
+ */
+export interface SchedulingRules {
+	/** Minimum minutes between now and the start of a meeting */
+	minimumNotice: number;
+	/** Number of days ahead, counted from today, that can be booked */
+	horizonDays: number;
+	/** Maximum confirmed meetings on one day in the organisation's timezone, or null for no limit */
+	maxPerDay: number | null;
+}
+
+/**
+ * Rules used when a booking page has no meeting type
+ */
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+	minimumNotice: 4 * 60,
+	horizonDays: 60,
+	maxPerDay: null
+};
+
+/**
+ * Options for applying or checking scheduling rules
+ */
+export interface SchedulingRuleOptions {
+	/** Current time (default: now) */
+	now?: Date;
+	/**
+	 * IANA timezone days are counted in, normally the organisation's.
+	 * Defaults to the runtime's local timezone.
+	 */
+	timeZone?: string;
+}
+
+/**
+ * Earliest and latest instants a meeting may start within
+ */
+export interface BookingWindow {
+	/** First bookable instant, after the minimum notice */
+	earliest: Date;
+	/** Midnight at the end of the last bookable day; meetings must start before it */
+	latest: Date;
+}
+
+/**
+ * Returns the last date (YYYY-MM-DD) inside the booking horizon
+ *
+ * @example
+ * const now = new Date('2025-12-01T12:00:00Z');
+ * getLastBookableDate({ ...DEFAULT_SCHEDULING_RULES, horizonDays: 60 }, { now, timeZone: 'UTC' })
+ * // '2026-01-30'
+ */
+export function getLastBookableDate(
+	rules: SchedulingRules,
+	{ now = new Date(), timeZone }: SchedulingRuleOptions = {}
+): string {
+	return formatDateKey(addDays(now, rules.horizonDays), timeZone);
+}
+
+/**
+ * Returns the window in which meetings may start under the minimum notice and horizon
+ */
+export function getBookingWindow(
+	rules: SchedulingRules,
+	options: SchedulingRuleOptions = {}
+): BookingWindow {
+	const now = options.now ?? new Date();
+	const dayAfterHorizon = formatDateKey(
+		addDays(parseISO(getLastBookableDate(rules, { now, timeZone: options.timeZone })), 1)
+	);
+
+	return {
+		earliest: addMinutes(now, rules.minimumNotice),
+		latest: options.timeZone
+			? fromZonedTime(`${dayAfterHorizon}T00:00:00`, options.timeZone)
+			: parseISO(`${dayAfterHorizon}T00:00:00`)
+	};
+}
+
+/**
+ * Counts confirmed meetings per date (YYYY-MM-DD) in the given timezone
+ *
+ * @param meetings - Meetings with ISO 8601 start times
+ * @param timeZone - IANA timezone days are counted in
+ */
+export function countMeetingsPerDay(
+	meetings: { start: string; status: 'confirmed' | 'cancelled' }[],
+	timeZone?: string
+): Record<string, number> {
+	const counts: Record<string, number> = {};
+	for (const meeting of meetings) {
+		if (meeting.status !== 'confirmed') continue;
+		const date = formatDateKey(new Date(meeting.start), timeZone);
+		counts[date] = (counts[date] ?? 0) + 1;
+	}
+	return counts;
+}
+
+/**
+ * Trims availability to the booking window and removes days that are fully booked.
+ * Blocks are clipped rather than dropped, so a day keeps its later slots once the
+ * minimum notice has passed its morning.
+ *
+ * @param availability - Availability blocks
+ * @param rules - Scheduling rules to apply
+ * @param options - Current time, timezone and confirmed meetings per day (from countMeetingsPerDay)
+ * @returns Availability blocks that can still be booked
+ */
+export function applySchedulingRules(
+	availability: AvailabilitySlot[],
+	rules: SchedulingRules,
+	options: SchedulingRuleOptions & { meetingsPerDay?: Record<string, number> } = {}
+): AvailabilitySlot[] {
+	const { earliest, latest } = getBookingWindow(rules, options);
+	const { maxPerDay } = rules;
+
+	return availability.flatMap((block) => {
+		const blockStart = new Date(block.start);
+		const blockEnd = new Date(block.end);
+
+		if (maxPerDay !== null) {
+			const booked = options.meetingsPerDay?.[formatDateKey(blockStart, options.timeZone)] ?? 0;
+			if (booked >= maxPerDay) return [];
+		}
+
+		const start = blockStart < earliest ? earliest : blockStart;
+		const end = blockEnd > latest ? latest : blockEnd;
+		if (start >= end) return [];
+
+		return [
+			{
+				start: start === blockStart ? block.start : start.toISOString(),
+				end: end === blockEnd ? block.end : end.toISOString()
+			}
+		];
+	});
+}
+
+/**
+ * Formats a minimum notice in minutes (e.g. "4 hours", "1 day", "30 minutes")
+ */
+export function formatNotice(minutes: number): string {
+	const [value, unit] =
+		minutes % (24 * 60) === 0
+			? [minutes / (24 * 60), 'day']
+			: minutes % 60 === 0
+				? [minutes / 60, 'hour']
+				: [minutes, 'minute'];
+	return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * Checks a meeting start against the scheduling rules
+ *
+ * @param start - Requested meeting start
+ * @param rules - Scheduling rules to enforce
+ * @param options - Current time, timezone and confirmed meetings already on that day
+ * @returns A message describing the broken rule, or null when the start is allowed
+ */
+export function getSchedulingRuleError(
+	start: Date,
+	rules: SchedulingRules,
+	options: SchedulingRuleOptions & { meetingsOnDay?: number } = {}
+): string | null {
+	const { earliest, latest } = getBookingWindow(rules, options);
+
+	if (start < earliest) {
+		return `Meetings must be booked at least ${formatNotice(rules.minimumNotice)} in advance`;
+	}
+	if (start >= latest) {
+		return `Meetings can only be booked up to ${rules.horizonDays} days ahead`;
+	}
+	if (rules.maxPerDay !== null && (options.meetingsOnDay ?? 0) >= rules.maxPerDay) {
+		return 'No more meetings can be booked on this day';
+	}
+
+	return null;
+}
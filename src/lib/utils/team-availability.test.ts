@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { generateTimeSlots } from './availability';
+import { combineAvailability, intersectAvailability, unionAvailability } from './team-availability';
+
+const ada = [
+	{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T11:00:00Z' },
+	{ start: '2025-12-16T13:00:00Z', end: '2025-12-16T17:00:00Z' }
+];
+const grace = [
+	{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T14:00:00Z' },
+	{ start: '2025-12-16T16:00:00Z', end: '2025-12-16T18:00:00Z' }
+];
+
+describe('unionAvailability', () => {
+	it('should keep overlapping blocks of different hosts apart', () => {
+		expect(unionAvailability([ada, grace])).toEqual([
+			{ start: '2025-12-16T09:00:00.000Z', end: '2025-12-16T11:00:00.000Z' },
+			{ start: '2025-12-16T10:00:00.000Z', end: '2025-12-16T14:00:00.000Z' },
+			{ start: '2025-12-16T13:00:00.000Z', end: '2025-12-16T17:00:00.000Z' },
+			{ start: '2025-12-16T16:00:00.000Z', end: '2025-12-16T18:00:00.000Z' }
+		]);
+	});
+
+	it('should not merge touching blocks of different hosts', () => {
+		expect(
+			unionAvailability([
+				[{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T10:00:00Z' }],
+				[
+					{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T11:00:00Z' },
+					{ start: '2025-12-16T12:00:00Z', end: '2025-12-16T13:00:00Z' }
+				]
+			])
+		).toEqual([
+			{ start: '2025-12-16T09:00:00.000Z', end: '2025-12-16T10:00:00.000Z' },
+			{ start: '2025-12-16T10:00:00.000Z', end: '2025-12-16T11:00:00.000Z' },
+			{ start: '2025-12-16T12:00:00.000Z', end: '2025-12-16T13:00:00.000Z' }
+		]);
+	});
+
+	it('should only offer slots a single host can take', () => {
+		const availability = unionAvailability([
+			[{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T10:00:00Z' }],
+			[{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T11:00:00Z' }]
+		]);
+		const slots = generateTimeSlots(availability, '2025-12-16', {
+			duration: 60,
+			interval: 30,
+			timeZone: 'UTC'
+		});
+
+		expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+			'2025-12-16T09:00:00.000Z',
+			'2025-12-16T10:00:00.000Z'
+		]);
+	});
+
+	it("should merge a host's own blocks and drop blocks inside another", () => {
+		expect(
+			unionAvailability([
+				[
+					{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T10:00:00Z' },
+					{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T11:00:00Z' }
+				],
+				[{ start: '2025-12-16T09:30:00Z', end: '2025-12-16T10:30:00Z' }],
+				[{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T11:00:00Z' }]
+			])
+		).toEqual([{ start: '2025-12-16T09:00:00.000Z', end: '2025-12-16T11:00:00.000Z' }]);
+	});
+
+	it('should compare instants across offsets', () => {
+		expect(
+			unionAvailability([
+				[{ start: '2025-12-16T09:00:00-05:00', end: '2025-12-16T11:00:00-05:00' }],
+				[{ start: '2025-12-16T14:30:00Z', end: '2025-12-16T15:30:00Z' }]
+			])
+		).toEqual([{ start: '2025-12-16T14:00:00.000Z', end: '2025-12-16T16:00:00.000Z' }]);
+	});
+});
+
+describe('intersectAvailability', () => {
+	it('should keep only times every host is free', () => {
+		expect(intersectAvailability([ada, grace])).toEqual([
+			{ start: '2025-12-16T10:00:00.000Z', end: '2025-12-16T11:00:00.000Z' },
+			{ start: '2025-12-16T13:00:00.000Z', end: '2025-12-16T14:00:00.000Z' },
+			{ start: '2025-12-16T16:00:00.000Z', end: '2025-12-16T17:00:00.000Z' }
+		]);
+	});
+
+	it('should be empty when any host has no availability', () => {
+		expect(intersectAvailability([ada, []])).toEqual([]);
+		expect(intersectAvailability([])).toEqual([]);
+	});
+
+	it('should not treat touching blocks as overlapping', () => {
+		expect(
+			intersectAvailability([
+				[{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T10:00:00Z' }],
+				[{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T11:00:00Z' }]
+			])
+		).toEqual([]);
+	});
+});
+
+describe('combineAvailability', () => {
+	it('should take the union for round-robin and the intersection for collective', () => {
+		expect(combineAvailability('round-robin', [ada, grace])).toEqual(
+			unionAvailability([ada, grace])
+		);
+		expect(combineAvailability('collective', [ada, grace])).toEqual(
+			intersectAvailability([ada, grace])
+		);
+	});
+});
@@ -0,0 +1,139 @@
+import type { AvailabilitySlot } from './availability';
+
+/**
+ * How a team's hosts share meetings booked through one link.
+ * - round-robin: any free host takes the meeting, so times are offered when at least one host is free
+ * - collective: every host attends, so times are offered only when all hosts are free
+ */
+export type TeamMode = 'round-robin' | 'collective';
+
+/**
+ * Interval in epoch milliseconds
+ */
+interface Interval {
+	start: number;
+	end: number;
+}
+
+/**
+ * Converts availability slots to intervals sorted by start, merging overlapping
+ * and touching ones
+ */
+function toIntervals(slots: AvailabilitySlot[]): Interval[] {
+	const intervals = slots
+		.map((slot) => ({ start: new Date(slot.start).getTime(), end: new Date(slot.end).getTime() }))
+		.filter((interval) => interval.start < interval.end)
+		.sort((a, b) => a.start - b.start);
+
+	const merged: Interval[] = [];
+	for (const interval of intervals) {
+		const last = merged[merged.length - 1];
+		if (last && interval.start <= last.end) {
+			last.end = Math.max(last.end, interval.end);
+		} else {
+			merged.push({ ...interval });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Converts intervals back to availability slots with UTC ISO 8601 timestamps
+ */
+function toSlots(intervals: Interval[]): AvailabilitySlot[] {
+	return intervals.map((interval) => ({
+		start: new Date(interval.start).toISOString(),
+		end: new Date(interval.end).toISOString()
+	}));
+}
+
+/**
+ * Combines hosts' availability into the times at least one host is free.
+ * Each host's own overlapping and touching blocks are merged, but blocks of
+ * different hosts are kept apart: a meeting running from one host's block into
+ * another's has no single host free for all of it. Slots generated from the
+ * result are therefore the union of each host's slots. Blocks lying inside
+ * another block offer no extra slots and are dropped.
+ *
+ * @param hostAvailability - Availability of each host
+ * @returns Availability blocks sorted by start, which may overlap
+ *
+ * @example
+ * unionAvailability([
+ *   [{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T11:00:00Z' }],
+ *   [{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T12:00:00Z' }]
+ * ])
+ * // [
+ * //   { start: '2025-12-16T09:00:00.000Z', end: '2025-12-16T11:00:00.000Z' },
+ * //   { start: '2025-12-16T10:00:00.000Z', end: '2025-12-16T12:00:00.000Z' }
+ * // ]
+ */
+export function unionAvailability(hostAvailability: AvailabilitySlot[][]): AvailabilitySlot[] {
+	// Longest block first among those starting together, so the others are dropped
+	const intervals = hostAvailability
+		.flatMap(toIntervals)
+		.sort((a, b) => a.start - b.start || b.end - a.end);
+
+	const kept: Interval[] = [];
+	let furthestEnd = -Infinity;
+	for (const interval of intervals) {
+		// Blocks starting no earlier than a kept block and ending within it are inside it
+		if (interval.end <= furthestEnd) continue;
+		kept.push(interval);
+		furthestEnd = interval.end;
+	}
+	return toSlots(kept);
+}
+
+/**
+ * Combines hosts' availability into the times every host is free
+ *
+ * @param hostAvailability - Availability of each host
+ * @returns Availability blocks sorted by start; empty when there are no hosts
+ *
+ * @example
+ * intersectAvailability([
+ *   [{ start: '2025-12-16T09:00:00Z', end: '2025-12-16T11:00:00Z' }],
+ *   [{ start: '2025-12-16T10:00:00Z', end: '2025-12-16T12:00:00Z' }]
+ * ])
+ * // [{ start: '2025-12-16T10:00:00.000Z', end: '2025-12-16T11:00:00.000Z' }]
+ */
+export function intersectAvailability(hostAvailability: AvailabilitySlot[][]): AvailabilitySlot[] {
+	if (hostAvailability.length === 0) return [];
+
+	const [first, ...rest] = hostAvailability.map(toIntervals);
+	const common = rest.reduce((result, intervals) => {
+		const overlap: Interval[] = [];
+		let i = 0;
+		let j = 0;
+
+		// Walk both sorted lists, keeping the overlap of each pair
+		while (i < result.length && j < intervals.length) {
+			const start = Math.max(result[i].start, intervals[j].start);
+			const end = Math.min(result[i].end, intervals[j].end);
+			if (start < end) overlap.push({ start, end });
+
+			if (result[i].end < intervals[j].end) i++;
+			else j++;
+		}
+
+		return overlap;
+	}, first);
+
+	return toSlots(common);
+}
+
+/**
+ * Combines hosts' availability for a team mode
+ *
+ * @param mode - Round-robin takes the union, collective the intersection
+ * @param hostAvailability - Availability of each host
+ */
+export function combineAvailability(
+	mode: TeamMode,
+	hostAvailability: AvailabilitySlot[][]
+): AvailabilitySlot[] {
+	return mode === 'collective'
+		? intersectAvailability(hostAvailability)
+		: unionAvailability(hostAvailability);
+}
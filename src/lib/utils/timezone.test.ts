@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest';
-import { shouldShowTimezoneSelector, parseOffsetFromTimestamp, getUserTimestamp } from './timezone';
+import {
+	shouldShowTimezoneSelector,
+	parseOffsetFromTimestamp,
+	getUserTimestamp,
+	getTimezoneOffsetLabel,
+	getTimestampInTimezone,
+	isValidTimezone
+} from './timezone';
 
 describe('shouldShowTimezoneSelector', () => {
 	it('should return false when timestamps have the same offset (UTC)', () => {
@@ -91,3 +98,45 @@ describe('getUserTimestamp', () => {
 		expect(offset).toMatch(/^UTC[+-]\d+(:30|:45)?$/);
 	});
 });
+
+describe('getTimezoneOffsetLabel', () => {
+	it('should return standard time offsets in winter', () => {
+		expect(getTimezoneOffsetLabel('America/New_York', new Date('2025-01-15T12:00:00Z'))).toBe(
+			'UTC-5'
+		);
+	});
+
+	it('should return daylight saving offsets in summer', () => {
+		expect(getTimezoneOffsetLabel('America/New_York', new Date('2025-07-15T12:00:00Z'))).toBe(
+			'UTC-4'
+		);
+	});
+
+	it('should handle half-hour and 45-minute offsets', () => {
+		const date = new Date('2025-12-16T12:00:00Z');
+		expect(getTimezoneOffsetLabel('Asia/Kolkata', date)).toBe('UTC+05:30');
+		expect(getTimezoneOffsetLabel('Asia/Kathmandu', date)).toBe('UTC+05:45');
+	});
+
+	it('should return UTC+0 for UTC', () => {
+		expect(getTimezoneOffsetLabel('UTC', new Date('2025-12-16T12:00:00Z'))).toBe('UTC+0');
+	});
+});
+
+describe('getTimestampInTimezone', () => {
+	it('should format the wall-clock time with the offset in effect', () => {
+		const date = new Date('2025-03-10T13:00:00Z');
+		expect(getTimestampInTimezone(date, 'America/New_York')).toBe('2025-03-10T09:00:00-04:00');
+	});
+});
+
+describe('isValidTimezone', () => {
+	it('should accept IANA timezones', () => {
+		expect(isValidTimezone('Asia/Kathmandu')).toBe(true);
+	});
+
+	it('should reject unknown and empty timezones', () => {
+		expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+		expect(isValidTimezone('')).toBe(false);
+	});
+});
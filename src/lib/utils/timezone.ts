@@ -4,9 +4,9 @@ import { formatInTimeZone } from 'date-fns-tz';
  * Timezone utility functions for handling timezone detection, offset calculation,
  * and timezone information extraction from ISO 8601 timestamps.
  *
- * This module focuses on UTC offset-based timezone handling using ISO 8601 timestamp
- * offset information rather than IANA timezone identifiers. Etc/GMT identifiers are
- * used for formatInTimeZone compatibility when needed.
+ * Timezones are IANA identifiers (e.g. 'America/New_York'). Offsets are always
+ * resolved for a specific date so daylight saving time changes and fractional
+ * offsets like +05:30 and +05:45 are reported correctly.
  */
 
 /**
@@ -23,10 +23,67 @@ export type UTCOffsetDisplay = string;
 
 /**
  * IANA timezone identifier.
- * @example 'America/New_York' | 'Europe/London' | 'UTC' | 'Etc/GMT+5'
+ * @example 'America/New_York' | 'Europe/London' | 'UTC' | 'Asia/Kathmandu'
  */
 export type IANATimezone = string;
 
+/**
+ * Checks whether a string is an IANA timezone identifier supported by the runtime.
+ *
+ * @param timezone - Candidate timezone identifier
+ * @returns True if the timezone can be used for formatting
+ *
+ * @example
+ * isValidTimezone('Asia/Kolkata') // returns true
+ * isValidTimezone('Mars/Olympus_Mons') // returns false
+ */
+export function isValidTimezone(timezone: string): timezone is IANATimezone {
+	if (!timezone) return false;
+	try {
+		new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Formats a date as an ISO 8601 timestamp with the UTC offset in effect in the
+ * given timezone at that moment.
+ *
+ * @param date - Date to format
+ * @param timezone - IANA timezone identifier
+ * @returns ISO 8601 timestamp with offset (e.g., '2025-07-01T09:00:00-04:00')
+ *
+ * @example
+ * getTimestampInTimezone(new Date('2025-01-15T14:00:00Z'), 'America/New_York') // '2025-01-15T09:00:00-05:00'
+ * getTimestampInTimezone(new Date('2025-07-15T13:00:00Z'), 'America/New_York') // '2025-07-15T09:00:00-04:00'
+ */
+export function getTimestampInTimezone(date: Date, timezone: IANATimezone): ISO8601Timestamp {
+	return formatInTimeZone(date, timezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
+}
+
+/**
+ * Returns the display UTC offset of a timezone on a given date.
+ * Accounts for daylight saving time, so the same timezone can return different
+ * offsets for dates in different seasons.
+ *
+ * @param timezone - IANA timezone identifier
+ * @param date - Date the offset applies to (default: now)
+ * @returns Formatted offset string for display (e.g., "UTC-5", "UTC-4", "UTC+05:45")
+ *
+ * @example
+ * getTimezoneOffsetLabel('America/New_York', new Date('2025-01-15')) // returns 'UTC-5'
+ * getTimezoneOffsetLabel('America/New_York', new Date('2025-07-15')) // returns 'UTC-4'
+ * getTimezoneOffsetLabel('Asia/Kathmandu') // returns 'UTC+05:45'
+ */
+export function getTimezoneOffsetLabel(
+	timezone: IANATimezone,
+	date: Date = new Date()
+): UTCOffsetDisplay {
+	return parseOffsetFromTimestamp(getTimestampInTimezone(date, timezone));
+}
+
 /**
  * Extracts the UTC offset from an ISO 8601 timestamp for display purposes.
  * Handles both Z-format (UTC) and offset-format timestamps.
@@ -93,53 +150,8 @@ export function shouldShowTimezoneSelector(
  * getUserTimestamp() // returns '2025-12-18T19:30:00Z' for a user in UTC
  */
 export function getUserTimestamp(): ISO8601Timestamp {
-	const now = new Date();
 	const userTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 	// Format with timezone offset using date-fns-tz
-	return formatInTimeZone(now, userTimezone, "yyyy-MM-dd'T'HH:mm:ssXXX");
-}
-
-/**
- * Converts an ISO 8601 timestamp to an IANA timezone identifier based on its offset.
- * This is used for formatInTimeZone to display times in the organization's timezone.
- *
- * Uses Etc/GMT timezones for whole-hour offsets. Note that Etc/GMT signs are inverted:
- * - UTC-5 (EST offset) becomes Etc/GMT+5
- * - UTC+5 becomes Etc/GMT-5
- *
- * Falls back to a provided timezone for non-whole-hour offsets since Etc/GMT only
- * supports whole-hour offsets.
- *
- * @param timestamp - ISO 8601 timestamp (e.g., "2025-12-16T09:00:00-05:00")
- * @param fallbackTimezone - Timezone to use for non-whole-hour offsets like +05:30 (default: 'UTC')
- * @returns IANA timezone identifier compatible with formatInTimeZone (e.g., "Etc/GMT+5", "UTC")
- *
- * @example
- * getTimezoneFromOffset('2025-12-16T09:00:00Z') // returns 'UTC'
- * getTimezoneFromOffset('2025-12-16T09:00:00-05:00') // returns 'Etc/GMT+5'
- * getTimezoneFromOffset('2025-12-16T09:00:00+05:30', 'Asia/Kolkata') // returns 'Asia/Kolkata'
- */
-export function getTimezoneFromOffset(
-	timestamp: ISO8601Timestamp,
-	fallbackTimezone: IANATimezone = 'UTC'
-): IANATimezone {
-	if (timestamp.endsWith('Z')) return 'UTC';
-
-	const match = timestamp.match(/([+-])(\d{2}):(\d{2})$/);
-	if (!match) return 'UTC';
-
-	const sign = match[1];
-	const hours = parseInt(match[2]);
-	const minutes = match[3];
-
-	// For Etc/GMT timezones, signs are inverted
-	const invertedSign = sign === '+' ? '-' : '+';
-
-	// Only use Etc/GMT for whole hour offsets
-	if (minutes === '00') {
-		return `Etc/GMT${invertedSign}${hours}`;
-	}
-
-	return fallbackTimezone;
+	return getTimestampInTimezone(new Date(), userTimezone);
 }
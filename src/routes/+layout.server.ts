@@ -0,0 +1,11 @@
+import type { LayoutServerLoad } from './$types';
+import { getRequestLocale } from '$lib/i18n/locale';
+
+/**
+ * Root server load function.
+ * Picks the visitor's locale from the `lang` URL param or the Accept-Language header.
+ * Reading the param means the locale is picked again when it changes.
+ */
+export const load: LayoutServerLoad = ({ url, request }) => {
+	return { locale: getRequestLocale(url, request.headers) };
+};
@@ -0,0 +1,11 @@
+import type { LayoutLoad } from './$types';
+import { loadMessages } from '$lib/i18n/locale';
+
+/**
+ * Root load function.
+ * Loads the message catalog for the visitor's locale, in the browser as well as on
+ * the server, so only the catalog in use is downloaded.
+ */
+export const load: LayoutLoad = async ({ data }) => {
+	return { ...data, messages: await loadMessages(data.locale) };
+};
@@ -1,51 +1,41 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { EXTERNAL_API_BASE_URL, EXTERNAL_API_AVAILABILITY_PATH } from '$env/static/private';
-
-// Runtime validation of required environment variables
-if (!EXTERNAL_API_BASE_URL || !EXTERNAL_API_AVAILABILITY_PATH) {
-	throw new Error(
-		'Missing required environment variables: EXTERNAL_API_BASE_URL and/or EXTERNAL_API_AVAILABILITY_PATH. ' +
-		'Please check your .env file.'
-	);
-}
+import { UpstreamError, upstreamErrorResponse } from '$lib/server/errors';
+import { getCachedAvailability } from '$lib/server/availability';
+import { getMeetingType } from '$lib/server/meeting-types';
 
 /**
  * Proxy endpoint for fetching availability data.
- * Forwards requests to external API while keeping API URLs secure server-side.
+ * Loads availability from the configured booking provider while keeping API URLs secure server-side.
+ * Applies the scheduling rules of the `meetingType` param, or the defaults without one,
+ * and combines the availability of the meeting type's team hosts.
+ * Responses are cached per range and meeting type; the `X-Cache` header says whether
+ * one was served fresh from the cache (HIT), stale while refreshing (STALE) or loaded (MISS).
+ * Always responds with `{ timezone, slots }` where timezone is an IANA identifier.
  */
 export const GET: RequestHandler = async ({ url }) => {
 	try {
-		// Forward query parameters (start, end dates)
-		const queryParams = url.searchParams.toString();
-		const externalApiUrl = `${EXTERNAL_API_BASE_URL}${EXTERNAL_API_AVAILABILITY_PATH}${queryParams ? `?${queryParams}` : ''}`;
-
-		console.log('Forwarding availability request to external API:', externalApiUrl);
-
-		const response = await fetch(externalApiUrl, {
-			method: 'GET',
-			headers: {
-				'Content-Type': 'application/json'
-				// Add authentication headers here if needed:
-				// 'Authorization': `Bearer ${API_KEY}`
-			}
-		});
+		const slug = url.searchParams.get('meetingType');
+		const meetingType = slug ? getMeetingType(slug) : undefined;
+		if (slug && !meetingType) {
+			return json({ error: 'Unknown meeting type' }, { status: 400 });
+		}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			console.error('External API error:', response.status, errorText);
+		// Forward date range parameters (start, end dates)
+		const { availability, status } = await getCachedAvailability(
+			{
+				start: url.searchParams.get('start') ?? undefined,
+				end: url.searchParams.get('end') ?? undefined
+			},
+			meetingType
+		);
 
-			return json(
-				{
-					error: `External API error: ${response.status}`
-				},
-				{ status: response.status }
-			);
+		return json(availability, { headers: { 'X-Cache': status.toUpperCase() } });
+	} catch (error) {
+		if (error instanceof UpstreamError) {
+			return upstreamErrorResponse(error);
 		}
 
-		const data = await response.json();
-		return json(data);
-	} catch (error) {
 		console.error('Availability proxy error:', error);
 		return json(
 			{
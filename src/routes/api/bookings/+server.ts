@@ -1,80 +1,154 @@
+import { randomUUID } from 'node:crypto';
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { EXTERNAL_API_BASE_URL, EXTERNAL_API_MEETINGS_PATH } from '$env/static/private';
-
-// Runtime validation of required environment variables
-if (!EXTERNAL_API_BASE_URL || !EXTERNAL_API_MEETINGS_PATH) {
-	throw new Error(
-		'Missing required environment variables: EXTERNAL_API_BASE_URL and/or EXTERNAL_API_MEETINGS_PATH. ' +
-		'Please check your .env file.'
-	);
-}
-
-interface Attendee {
-	email: string;
-	name: string | null;
-}
-
-interface CreateBookingRequest {
-	start: string; // ISO 8601 timestamp
-	end: string; // ISO 8601 timestamp
-	attendees: Attendee[];
-}
+import { CreateBookingRequestSchema, type FieldError } from '$lib/api/schemas';
+import { formatAnswerError, toBookingAnswers, validateAnswers } from '$lib/utils/questions';
+import { getMeetingType } from '$lib/server/meeting-types';
+import { getHost } from '$lib/server/hosts';
+import { createManageToken, getManagePath } from '$lib/server/manage-token';
+import { invalidateAvailability, revalidateMeeting } from '$lib/server/availability';
+import { UpstreamError, upstreamErrorResponse } from '$lib/server/errors';
+import { notifyBooking, scheduleBookingReminders } from '$lib/server/notifications';
+import { getProvider, type BookingProvider } from '$lib/server/provider';
+import {
+	getHoldOptions,
+	getReservation,
+	releaseReservation,
+	reserveSlot
+} from '$lib/server/reservations';
+import { parseRequestBody, validationErrorResponse } from '$lib/server/validation';
+import { getCurrentTenant } from '$lib/server/tenant';
+import { emitBookingEvent } from '$lib/server/webhooks';
 
 /**
  * Proxy endpoint for creating bookings.
- * Forwards requests to external API while keeping API keys secure server-side.
+ * Forwards requests to the booking provider while keeping API keys secure server-side.
+ * Responds with 409 if the slot has left availability, breaks the meeting type's
+ * scheduling rules or another visitor holds it. Meeting types with a team are
+ * assigned hosts here. Attendees are emailed a confirmation and reminders, and
+ * webhook subscribers are sent `booking.created`, in the background.
+ * Provider failures respond with `{ success: false, error, code }`, where code says
+ * whether the provider timed out, was unreachable, rejected the request, etc.
  */
-export const POST: RequestHandler = async ({ request }) => {
+export const POST: RequestHandler = async ({ request, url }) => {
 	try {
-		const data = (await request.json()) as CreateBookingRequest;
-
-		// Validate required fields
-		if (!data.start || !data.end || !data.attendees || data.attendees.length === 0) {
-			return json({ success: false, error: 'Missing required fields' }, { status: 400 });
-		}
+		// Validate the request shape, attendees, duration, timezone and metadata
+		const body = await parseRequestBody(request, CreateBookingRequestSchema);
+		if ('response' in body) return body.response;
+		const { data } = body;
 
-		// Validate attendee data
-		for (const attendee of data.attendees) {
-			if (!attendee.email) {
-				return json({ success: false, error: 'Attendee email is required' }, { status: 400 });
+		// Validate the meeting type and that its fixed duration was booked
+		const meetingType = data.meetingType !== undefined ? getMeetingType(data.meetingType) : null;
+		if (data.meetingType !== undefined) {
+			if (!meetingType) {
+				return validationErrorResponse([
+					{ field: 'meetingType', code: 'unknown_meeting_type', message: 'Unknown meeting type' }
+				]);
+			}
+			if (meetingType.duration !== data.duration) {
+				return validationErrorResponse([
+					{
+						field: 'duration',
+						code: 'duration_mismatch',
+						message: 'Duration does not match the meeting type'
+					}
+				]);
 			}
 		}
 
-		// Forward request to external API
-		const externalApiUrl = `${EXTERNAL_API_BASE_URL}${EXTERNAL_API_MEETINGS_PATH}`;
+		// Validate intake answers against the meeting type's questions
+		const questions = meetingType?.questions ?? [];
+		const answers = data.answers ?? {};
+		const answerErrors = validateAnswers(questions, answers);
+		const invalidQuestions = questions.filter((question) => answerErrors[question.id]);
+		if (invalidQuestions.length > 0) {
+			const errors: FieldError[] = invalidQuestions.map((question) => ({
+				field: `answers.${question.id}`,
+				code: 'invalid_answer',
+				message: formatAnswerError(answerErrors[question.id])
+			}));
+			return validationErrorResponse(errors, `${invalidQuestions[0].label}: ${errors[0].message}`);
+		}
 
-		console.log('Forwarding booking to external API:', externalApiUrl);
+		// Hold the slot first, reusing the visitor's own reservation, so no one else can
+		// book it while it is revalidated and the meeting is created
+		const start = new Date(data.start);
+		const end = new Date(data.end);
+		const { reservationId, answers: _answers, ...details } = data;
+		const tenant = getCurrentTenant();
+		const ownReservation = reservationId ? getReservation(reservationId, tenant) : undefined;
+		const holdsSlot =
+			ownReservation?.start.getTime() === start.getTime() &&
+			ownReservation?.end.getTime() === end.getTime();
+		if (reservationId && !holdsSlot) {
+			// The visitor's hold is for a different time; free it before taking a new one
+			releaseReservation(reservationId, tenant);
+		}
+		const hold = holdsSlot
+			? ownReservation
+			: reserveSlot(start, end, tenant, getHoldOptions(meetingType ?? undefined));
 
-		const response = await fetch(externalApiUrl, {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json'
-				// Add authentication headers here if needed:
-				// 'Authorization': `Bearer ${API_KEY}`
-			},
-			body: JSON.stringify(data)
-		});
+		if (!hold) {
+			return json({ success: false, error: 'Someone else is booking this time' }, { status: 409 });
+		}
 
-		if (!response.ok) {
-			const errorText = await response.text();
-			console.error('External API error:', response.status, errorText);
+		let created: Awaited<ReturnType<BookingProvider['createMeeting']>>;
+		let hostIds: string[];
+		try {
+			// Revalidate the slot against the scheduling rules and fresh availability,
+			// assigning one of the team hosts the hold holds
+			const check = await revalidateMeeting(start, end, meetingType ?? undefined, {
+				availableHostIds: hold.hostIds
+			});
+			if ('conflict' in check) {
+				return json({ success: false, error: check.conflict }, { status: 409 });
+			}
+			hostIds = check.hostIds;
 
-			return json(
+			// Forward request to the booking provider. The idempotency key lets the upstream
+			// client retry a timed-out request without creating the meeting twice.
+			created = await getProvider().createMeeting(
 				{
-					success: false,
-					error: `External API error: ${response.status}`
+					...details,
+					...(questions.length > 0 && { answers: toBookingAnswers(questions, answers) }),
+					...(hostIds.length > 0 && { hostIds })
 				},
-				{ status: response.status }
+				{ idempotencyKey: randomUUID() }
 			);
+		} finally {
+			releaseReservation(hold.id, tenant);
 		}
+		const { result, bookingId } = created;
 
-		const result = await response.json();
+		// The booked time is no longer free, so cached availability is out of date
+		invalidateAvailability();
 
 		console.log('Booking created successfully:', result);
 
-		return json(result);
+		// Email the confirmation and notify subscribers without holding up the response
+		if (bookingId) {
+			void notifyBooking('confirmation', bookingId, url.origin);
+			scheduleBookingReminders(bookingId, start, url.origin);
+			void emitBookingEvent('booking.created', bookingId);
+		}
+
+		// Attach signed links the attendee can use to cancel, reschedule or save the meeting
+		return json({
+			...result,
+			...(bookingId && {
+				bookingId,
+				manageUrl: `${url.origin}${getManagePath(bookingId)}`,
+				icsUrl: `${url.origin}/api/bookings/${encodeURIComponent(bookingId)}/ics?token=${createManageToken(bookingId)}`
+			}),
+			...(hostIds.length > 0 && {
+				hosts: hostIds.map((id) => getHost(id)?.name).filter(Boolean)
+			})
+		});
 	} catch (error) {
+		if (error instanceof UpstreamError) {
+			return upstreamErrorResponse(error);
+		}
+
 		console.error('Booking proxy error:', error);
 		return json(
 			{
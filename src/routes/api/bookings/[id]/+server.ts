@@ -0,0 +1,158 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { MANAGE_TOKEN_HEADER } from '$lib/api/bookings';
+import { RescheduleBookingRequestSchema } from '$lib/api/schemas';
+import { verifyManageToken } from '$lib/server/manage-token';
+import { invalidateAvailability, revalidateMeeting } from '$lib/server/availability';
+import { UpstreamError, upstreamErrorResponse } from '$lib/server/errors';
+import {
+	cancelBookingReminders,
+	notifyBooking,
+	scheduleBookingReminders
+} from '$lib/server/notifications';
+import { getProvider, type BookingProvider } from '$lib/server/provider';
+import { getMeetingType } from '$lib/server/meeting-types';
+import { getHoldOptions, releaseReservation, reserveSlot } from '$lib/server/reservations';
+import { parseRequestBody, validationErrorResponse } from '$lib/server/validation';
+import { getCurrentTenant } from '$lib/server/tenant';
+import { emitBookingEvent } from '$lib/server/webhooks';
+
+/**
+ * Checks the request carries a manage token signed for this booking
+ */
+function isAuthorised(request: Request, id: string): boolean {
+	const token = request.headers.get(MANAGE_TOKEN_HEADER);
+	return token !== null && verifyManageToken(token) === id;
+}
+
+/**
+ * Converts a thrown error into a JSON error response
+ */
+function errorResponse(error: unknown, fallback: string) {
+	if (error instanceof UpstreamError) {
+		return upstreamErrorResponse(error);
+	}
+
+	console.error('Booking proxy error:', error);
+	return json(
+		{ success: false, error: error instanceof Error ? error.message : fallback },
+		{ status: 500 }
+	);
+}
+
+/**
+ * Proxy endpoint for rescheduling a booking.
+ * Requires the signed manage token; the meeting keeps its original duration.
+ * Responds with 409 if the new slot is unavailable, breaks the meeting type's
+ * scheduling rules or another visitor holds it. Round-robin meetings stay with
+ * their host while the host is free, and are reassigned otherwise. Attendees are
+ * emailed the new time, reminders move with the meeting and webhook subscribers
+ * are sent `booking.rescheduled`.
+ */
+export const PATCH: RequestHandler = async ({ params, request, url }) => {
+	if (!isAuthorised(request, params.id)) {
+		return json({ success: false, error: 'Invalid manage link' }, { status: 403 });
+	}
+
+	try {
+		const body = await parseRequestBody(request, RescheduleBookingRequestSchema);
+		if ('response' in body) return body.response;
+		const { data } = body;
+
+		const start = new Date(data.start);
+		const end = new Date(data.end);
+		if (start.getTime() <= Date.now()) {
+			return validationErrorResponse([
+				{ field: 'start', code: 'in_past', message: 'New time must be in the future' }
+			]);
+		}
+
+		const booking = await getProvider().getMeeting(params.id);
+
+		if (booking.status === 'cancelled') {
+			return json({ success: false, error: 'Booking has been cancelled' }, { status: 409 });
+		}
+
+		if ((end.getTime() - start.getTime()) / 60000 !== booking.duration) {
+			return validationErrorResponse([
+				{
+					field: 'end',
+					code: 'duration_mismatch',
+					message: 'Meeting start and end do not match the duration'
+				}
+			]);
+		}
+
+		// Hold the new slot while it is revalidated the same way new bookings are
+		const meetingType = booking.meetingType ? getMeetingType(booking.meetingType) : undefined;
+		const tenant = getCurrentTenant();
+		const hold = reserveSlot(start, end, tenant, getHoldOptions(meetingType));
+		if (!hold) {
+			return json({ success: false, error: 'This time is no longer available' }, { status: 409 });
+		}
+
+		let updated: Awaited<ReturnType<BookingProvider['updateMeeting']>>;
+		try {
+			const check = await revalidateMeeting(start, end, meetingType, {
+				excludeMeetingId: params.id,
+				preferredHostIds: booking.hostIds,
+				availableHostIds: hold.hostIds
+			});
+			if ('conflict' in check) {
+				return json({ success: false, error: check.conflict }, { status: 409 });
+			}
+
+			updated = await getProvider().updateMeeting(params.id, {
+				start: data.start,
+				end: data.end,
+				...(check.hostIds.length > 0 && { hostIds: check.hostIds })
+			});
+		} finally {
+			releaseReservation(hold.id, tenant);
+		}
+
+		console.log('Booking rescheduled successfully:', params.id);
+
+		invalidateAvailability();
+		void notifyBooking('reschedule', params.id, url.origin);
+		scheduleBookingReminders(params.id, start, url.origin);
+		void emitBookingEvent('booking.rescheduled', params.id);
+
+		return json({ success: true, booking: updated });
+	} catch (error) {
+		return errorResponse(error, 'Failed to reschedule booking');
+	}
+};
+
+/**
+ * Proxy endpoint for cancelling a booking.
+ * Requires the signed manage token. Attendees are emailed the cancellation, pending
+ * reminders are dropped and webhook subscribers are sent `booking.cancelled`.
+ * Responds with 409 if the booking has already been cancelled.
+ */
+export const DELETE: RequestHandler = async ({ params, request, url }) => {
+	if (!isAuthorised(request, params.id)) {
+		return json({ success: false, error: 'Invalid manage link' }, { status: 403 });
+	}
+
+	try {
+		const booking = await getProvider().getMeeting(params.id);
+
+		if (booking.status === 'cancelled') {
+			return json({ success: false, error: 'Booking has been cancelled' }, { status: 409 });
+		}
+
+		await getProvider().cancelMeeting(params.id);
+
+		console.log('Booking cancelled successfully:', params.id);
+
+		invalidateAvailability();
+		cancelBookingReminders(params.id);
+		void notifyBooking('cancellation', params.id, url.origin);
+		void emitBookingEvent('booking.cancelled', params.id);
+
+		return json({ success: true });
+	} catch (error) {
+		return errorResponse(error, 'Failed to cancel booking');
+	}
+};
@@ -0,0 +1,49 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { buildIcs } from '$lib/utils/ics';
+import { isValidTimezone } from '$lib/utils/timezone';
+import { verifyManageToken } from '$lib/server/manage-token';
+import { toCalendarEvent } from '$lib/server/calendar-event';
+import { UpstreamError, upstreamErrorResponse } from '$lib/server/errors';
+import { getProvider } from '$lib/server/provider';
+
+/**
+ * iCalendar download for a booking.
+ * Authorised by the signed manage token in the `token` query param, since calendar
+ * apps and download links cannot send headers. The optional `tz` param sets the
+ * timezone the event is written in (defaults to UTC).
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const token = url.searchParams.get('token');
+	if (!token || verifyManageToken(token) !== params.id) {
+		return json({ success: false, error: 'Invalid manage link' }, { status: 403 });
+	}
+
+	const tz = url.searchParams.get('tz');
+	const timezone = tz && isValidTimezone(tz) ? tz : 'UTC';
+
+	try {
+		const booking = await getProvider().getMeeting(params.id);
+		const ics = buildIcs(toCalendarEvent(booking, url.origin, timezone));
+
+		return new Response(ics, {
+			headers: {
+				'Content-Type': 'text/calendar; charset=utf-8',
+				'Content-Disposition': 'attachment; filename="meeting.ics"'
+			}
+		});
+	} catch (error) {
+		if (error instanceof UpstreamError) {
+			return upstreamErrorResponse(error);
+		}
+
+		console.error('Calendar export error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to export booking'
+			},
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,10 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getMeetingTypes } from '$lib/server/meeting-types';
+
+/**
+ * Lists the published meeting types.
+ */
+export const GET: RequestHandler = async () => {
+	return json(getMeetingTypes());
+};
@@ -0,0 +1,16 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getMeetingType } from '$lib/server/meeting-types';
+
+/**
+ * Returns a single meeting type by slug.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const meetingType = getMeetingType(params.slug);
+
+	if (!meetingType) {
+		return json({ error: 'Meeting type not found' }, { status: 404 });
+	}
+
+	return json(meetingType);
+};
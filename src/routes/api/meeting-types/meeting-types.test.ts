@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { GET as listMeetingTypes } from './+server';
+import { GET as getMeetingTypeBySlug } from './[slug]/+server';
+
+type ListEvent = Parameters<typeof listMeetingTypes>[0];
+type SlugEvent = Parameters<typeof getMeetingTypeBySlug>[0];
+
+describe('GET /api/meeting-types', () => {
+	it('should list the published meeting types', async () => {
+		const response = await listMeetingTypes({} as ListEvent);
+
+		expect(response.status).toBe(200);
+		const body = await response.json();
+		expect(body.map((meetingType: { slug: string }) => meetingType.slug)).toEqual([
+			'intro',
+			'demo',
+			'support',
+			'onboarding'
+		]);
+	});
+});
+
+describe('GET /api/meeting-types/[slug]', () => {
+	it('should return the meeting type', async () => {
+		const response = await getMeetingTypeBySlug({ params: { slug: 'support' } } as SlugEvent);
+
+		expect(response.status).toBe(200);
+		const body = await response.json();
+		expect(body.slug).toBe('support');
+		expect(body.rules.horizonDays).toBe(14);
+	});
+
+	it('should respond with 404 for an unknown meeting type', async () => {
+		const response = await getMeetingTypeBySlug({ params: { slug: 'unknown' } } as SlugEvent);
+
+		expect(response.status).toBe(404);
+		expect(await response.json()).toEqual({ error: 'Meeting type not found' });
+	});
+});
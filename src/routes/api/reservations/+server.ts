@@ -0,0 +1,81 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { CreateReservationRequestSchema } from '$lib/api/schemas';
+import { revalidateMeeting } from '$lib/server/availability';
+import { UpstreamError, upstreamErrorResponse } from '$lib/server/errors';
+import { getMeetingType } from '$lib/server/meeting-types';
+import {
+	assignReservationHosts,
+	getHoldOptions,
+	releaseReservation,
+	reserveSlot
+} from '$lib/server/reservations';
+import { getCurrentTenant } from '$lib/server/tenant';
+import { parseRequestBody } from '$lib/server/validation';
+
+/**
+ * Endpoint for holding a slot while the visitor completes the booking form.
+ * Revalidates the slot against the scheduling rules and fresh availability, and
+ * responds with 409 if it has gone or another visitor is holding it. Team
+ * meeting types hold the hosts the meeting would be assigned, so other visitors
+ * can still hold the time with another round-robin host.
+ */
+export const POST: RequestHandler = async ({ request }) => {
+	try {
+		const body = await parseRequestBody(request, CreateReservationRequestSchema);
+		if ('response' in body) return body.response;
+		const { data } = body;
+
+		const start = new Date(data.start);
+		const end = new Date(data.end);
+
+		const meetingType = data.meetingType ? getMeetingType(data.meetingType) : undefined;
+
+		const tenant = getCurrentTenant();
+
+		// Hold every host not already held, then narrow the hold to the host(s) assigned
+		const reservation = reserveSlot(start, end, tenant, getHoldOptions(meetingType));
+		if (!reservation) {
+			return json({ success: false, error: 'Someone else is booking this time' }, { status: 409 });
+		}
+
+		let check: Awaited<ReturnType<typeof revalidateMeeting>>;
+		try {
+			check = await revalidateMeeting(start, end, meetingType, {
+				availableHostIds: reservation.hostIds
+			});
+		} catch (error) {
+			releaseReservation(reservation.id, tenant);
+			throw error;
+		}
+		if ('conflict' in check) {
+			releaseReservation(reservation.id, tenant);
+			return json({ success: false, error: check.conflict }, { status: 409 });
+		}
+		if (meetingType?.team) {
+			assignReservationHosts(reservation.id, tenant, check.hostIds);
+		}
+
+		return json(
+			{
+				success: true,
+				reservationId: reservation.id,
+				expiresAt: new Date(reservation.expiresAt).toISOString()
+			},
+			{ status: 201 }
+		);
+	} catch (error) {
+		if (error instanceof UpstreamError) {
+			return upstreamErrorResponse(error);
+		}
+
+		console.error('Reservation error:', error);
+		return json(
+			{
+				success: false,
+				error: error instanceof Error ? error.message : 'Failed to reserve slot'
+			},
+			{ status: 500 }
+		);
+	}
+};
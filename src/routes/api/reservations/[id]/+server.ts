@@ -0,0 +1,14 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { releaseReservation } from '$lib/server/reservations';
+import { getCurrentTenant } from '$lib/server/tenant';
+
+/**
+ * Endpoint for releasing a held slot when the visitor closes the booking form.
+ * Reservation IDs are unguessable UUIDs, so holding one is enough to release it.
+ * Only the tenant the slot was held for can release it.
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	const released = releaseReservation(params.id, getCurrentTenant());
+	return json({ success: released }, { status: released ? 200 : 404 });
+};
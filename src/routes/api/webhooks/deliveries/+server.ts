@@ -0,0 +1,15 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWebhooks, isWebhookAdmin } from '$lib/server/webhooks';
+
+/**
+ * Lists logged webhook deliveries, newest first, with their attempts.
+ * Requires the webhook admin token.
+ */
+export const GET: RequestHandler = async ({ request }) => {
+	if (!isWebhookAdmin(request)) {
+		return json({ success: false, error: 'Invalid admin token' }, { status: 403 });
+	}
+
+	return json({ success: true, deliveries: getWebhooks().listDeliveries() });
+};
@@ -0,0 +1,20 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWebhooks, isWebhookAdmin } from '$lib/server/webhooks';
+
+/**
+ * Returns one logged webhook delivery with its attempts.
+ * Requires the webhook admin token.
+ */
+export const GET: RequestHandler = async ({ params, request }) => {
+	if (!isWebhookAdmin(request)) {
+		return json({ success: false, error: 'Invalid admin token' }, { status: 403 });
+	}
+
+	const delivery = getWebhooks().getDelivery(params.id);
+	if (!delivery) {
+		return json({ success: false, error: 'Delivery not found' }, { status: 404 });
+	}
+
+	return json({ success: true, delivery });
+};
@@ -0,0 +1,22 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getWebhooks, isWebhookAdmin } from '$lib/server/webhooks';
+
+/**
+ * Sends a logged webhook delivery again, for example once a subscriber has recovered
+ * from an outage. The payload and its ID are unchanged, so subscribers can ignore
+ * events they already processed. Responds with 202 while the delivery runs in the
+ * background. Requires the webhook admin token.
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	if (!isWebhookAdmin(request)) {
+		return json({ success: false, error: 'Invalid admin token' }, { status: 403 });
+	}
+
+	const delivery = getWebhooks().replay(params.id);
+	if (!delivery) {
+		return json({ success: false, error: 'Delivery not found' }, { status: 404 });
+	}
+
+	return json({ success: true, delivery }, { status: 202 });
+};
@@ -0,0 +1,11 @@
+import type { PageLoad } from './$types';
+import { loadMeetingTypePage } from '$lib/api/meeting-types';
+
+/**
+ * Load function for a meeting type's booking page.
+ * Responds with 404 for unknown meeting types and redirects to a clean URL
+ * with valid defaults if the date params are invalid (see loadMeetingTypePage).
+ */
+export const load: PageLoad = async ({ fetch, url, params }) => {
+	return loadMeetingTypePage(fetch, url, params.type);
+};
@@ -0,0 +1,56 @@
+import type { PageServerLoad } from './$types';
+import { error, redirect } from '@sveltejs/kit';
+import { fetchAvailability, resolveDateRange } from '$lib/api/availability';
+import { verifyManageToken } from '$lib/server/manage-token';
+import { MeetingsApiError } from '$lib/server/errors';
+import { getProvider } from '$lib/server/provider';
+import { getMeetingType } from '$lib/server/meeting-types';
+import type { Booking } from '$lib/api/bookings';
+
+/**
+ * Load function for the booking management page.
+ * Verifies the signed token, then fetches the booking and availability for
+ * the requested date range, with its meeting type's scheduling rules applied,
+ * so the attendee can pick a new slot.
+ *
+ * URL Parameters:
+ * - start: Start date in YYYY-MM-DD format (defaults to today, validated)
+ * - end: End date in YYYY-MM-DD format (defaults to last day of current month, validated)
+ *
+ * Responds with 404 for invalid tokens or unknown bookings.
+ */
+export const load: PageServerLoad = async ({ fetch, url, params }) => {
+	const bookingId = verifyManageToken(params.token);
+	if (!bookingId) {
+		throw error(404, 'Booking not found');
+	}
+
+	let booking: Booking;
+	try {
+		booking = await getProvider().getMeeting(bookingId);
+	} catch (err) {
+		if (err instanceof MeetingsApiError && err.status === 404) {
+			throw error(404, 'Booking not found');
+		}
+		throw err;
+	}
+
+	// New times follow the scheduling rules of the booking's meeting type
+	const meetingType = booking.meetingType ? getMeetingType(booking.meetingType) : undefined;
+	const { startDate, endDate, needsRedirect } = resolveDateRange(
+		url.searchParams,
+		meetingType?.rules
+	);
+
+	// Redirect to clean URL with valid params if needed
+	if (needsRedirect) {
+		throw redirect(302, `${url.pathname}?start=${startDate}&end=${endDate}`);
+	}
+
+	return {
+		...(await fetchAvailability(fetch, { startDate, endDate }, meetingType?.slug)),
+		booking,
+		token: params.token,
+		meetingType
+	};
+};
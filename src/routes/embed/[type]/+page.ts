@@ -0,0 +1,10 @@
+import type { PageLoad } from './$types';
+import { loadMeetingTypePage } from '$lib/api/meeting-types';
+
+/**
+ * Load function for an embedded meeting type booking page.
+ * Loads the same data as /bookings/[type].
+ */
+export const load: PageLoad = async ({ fetch, url, params }) => {
+	return loadMeetingTypePage(fetch, url, params.type);
+};
@@ -0,0 +1,191 @@
+/**
+ * ACME booking widget loader
+ * Embeds a meeting type's booking page on another site, inline or as a popup.
+ *
+ * Inline:
+ *   <div data-acme-booking="demo"></div>
+ *   <script src="https://book.acme.example/embed.js" async></script>
+ *
+ * Popup, opened when the element is clicked:
+ *   <button data-acme-booking-popup="demo">Book a demo</button>
+ *
+ * Or from JavaScript:
+ *   AcmeBooking.inline(element, 'demo');
+ *   AcmeBooking.popup('demo');
+ *
+ * Widget events are dispatched as bubbling DOM events on the container (inline) or
+ * trigger element (popup): `acme-booking:date_selected`, `acme-booking:slot_selected`
+ * and `acme-booking:booking_confirmed`, with the event data in `detail`.
+ */
+(function () {
+	'use strict';
+
+	if (window.AcmeBooking) return;
+
+	var SOURCE = 'acme-booking';
+	var script = document.currentScript;
+	var origin = new URL(script ? script.src : window.location.href).origin;
+
+	/**
+	 * Builds the widget URL for a meeting type
+	 */
+	function widgetUrl(type) {
+		return origin + '/embed/' + encodeURIComponent(type);
+	}
+
+	/**
+	 * Creates a widget iframe that resizes to its content and re-dispatches widget
+	 * events on the target element
+	 */
+	function createFrame(type, target, options) {
+		var iframe = document.createElement('iframe');
+		iframe.src = widgetUrl(type);
+		iframe.title = options.title || 'Book a meeting';
+		iframe.loading = 'lazy';
+		iframe.style.width = '100%';
+		iframe.style.border = '0';
+		iframe.style.display = 'block';
+		iframe.style.height = (options.height || 700) + 'px';
+
+		function onMessage(event) {
+			var message = event.data;
+			if (event.origin !== origin || event.source !== iframe.contentWindow) return;
+			if (!message || message.source !== SOURCE || typeof message.event !== 'string') return;
+
+			if (message.event === 'resize') {
+				if (options.autoResize !== false) iframe.style.height = message.data.height + 'px';
+				return;
+			}
+
+			target.dispatchEvent(
+				new CustomEvent(SOURCE + ':' + message.event, { bubbles: true, detail: message.data })
+			);
+			if (options.onEvent) options.onEvent(message.event, message.data);
+		}
+
+		window.addEventListener('message', onMessage);
+
+		return {
+			iframe: iframe,
+			destroy: function () {
+				window.removeEventListener('message', onMessage);
+				iframe.remove();
+			}
+		};
+	}
+
+	/**
+	 * Mounts the widget inside an element
+	 *
+	 * @param element - Container the widget fills
+	 * @param type - Meeting type slug (e.g. "demo")
+	 * @param options - `onEvent(event, data)` callback, `autoResize` (default true), initial `height`
+	 * @returns A handle with `destroy()` to remove the widget
+	 */
+	function inline(element, type, options) {
+		var frame = createFrame(type, element, options || {});
+		element.appendChild(frame.iframe);
+		return { destroy: frame.destroy };
+	}
+
+	/**
+	 * Opens the widget in a modal over the page. Closes on Escape, the close
+	 * button or a click outside the widget.
+	 *
+	 * @param type - Meeting type slug (e.g. "demo")
+	 * @param options - `onEvent(event, data)` callback, `trigger` element events are dispatched on
+	 * @returns A handle with `close()`
+	 */
+	function popup(type, options) {
+		options = options || {};
+		var trigger = options.trigger || document.body;
+		var previousFocus = document.activeElement;
+		var previousOverflow = document.body.style.overflow;
+
+		var overlay = document.createElement('div');
+		overlay.setAttribute('role', 'dialog');
+		overlay.setAttribute('aria-modal', 'true');
+		overlay.setAttribute('aria-label', options.title || 'Book a meeting');
+		overlay.style.cssText =
+			'position:fixed;inset:0;z-index:2147483647;display:flex;align-items:flex-start;' +
+			'justify-content:center;overflow-y:auto;padding:24px 16px;background:rgba(0,0,0,0.5)';
+
+		var panel = document.createElement('div');
+		panel.style.cssText =
+			'position:relative;width:100%;max-width:960px;background:#fff;border-radius:8px;' +
+			'box-shadow:0 10px 40px rgba(0,0,0,0.25)';
+
+		var closeButton = document.createElement('button');
+		closeButton.type = 'button';
+		closeButton.setAttribute('aria-label', 'Close');
+		closeButton.textContent = '×';
+		closeButton.style.cssText =
+			'position:absolute;top:8px;right:8px;z-index:1;width:32px;height:32px;border:0;' +
+			'border-radius:16px;background:#f3f4f6;font-size:20px;line-height:32px;cursor:pointer';
+
+		var frame = createFrame(type, trigger, {
+			title: options.title,
+			onEvent: options.onEvent,
+			height: options.height
+		});
+
+		function onKeyDown(event) {
+			if (event.key === 'Escape') close();
+		}
+
+		function close() {
+			frame.destroy();
+			overlay.remove();
+			document.removeEventListener('keydown', onKeyDown);
+			document.body.style.overflow = previousOverflow;
+			if (previousFocus && previousFocus.focus) previousFocus.focus();
+		}
+
+		closeButton.addEventListener('click', close);
+		overlay.addEventListener('click', function (event) {
+			if (event.target === overlay) close();
+		});
+		document.addEventListener('keydown', onKeyDown);
+
+		panel.appendChild(closeButton);
+		panel.appendChild(frame.iframe);
+		overlay.appendChild(panel);
+		document.body.appendChild(overlay);
+		document.body.style.overflow = 'hidden';
+		closeButton.focus();
+
+		return { close: close };
+	}
+
+	/**
+	 * Mounts inline widgets and wires popup triggers declared with data attributes
+	 */
+	function scan() {
+		var inlineElements = document.querySelectorAll('[data-acme-booking]');
+		for (var i = 0; i < inlineElements.length; i++) {
+			var element = inlineElements[i];
+			if (element.hasAttribute('data-acme-booking-mounted')) continue;
+			element.setAttribute('data-acme-booking-mounted', '');
+			inline(element, element.getAttribute('data-acme-booking'));
+		}
+
+		var triggers = document.querySelectorAll('[data-acme-booking-popup]');
+		for (var j = 0; j < triggers.length; j++) {
+			var trigger = triggers[j];
+			if (trigger.hasAttribute('data-acme-booking-mounted')) continue;
+			trigger.setAttribute('data-acme-booking-mounted', '');
+			trigger.addEventListener('click', function (event) {
+				event.preventDefault();
+				popup(this.getAttribute('data-acme-booking-popup'), { trigger: this });
+			});
+		}
+	}
+
+	window.AcmeBooking = { inline: inline, popup: popup, scan: scan };
+
+	if (document.readyState === 'loading') {
+		document.addEventListener('DOMContentLoaded', scan);
+	} else {
+		scan();
+	}
+})();